@@ -3,6 +3,7 @@ import { createInterface } from "node:readline";
 import { Command } from "commander";
 import packageJson, { version } from "../package.json";
 import { initializeFlow } from "./initFlow";
+import { rotateTotpKeyFlow } from "./rotateTotpKeyFlow";
 import { upgradeFlow } from "./upgradeFlow";
 
 const execSync = async (
@@ -129,6 +130,38 @@ program
 		}
 	});
 
+program
+	.command("rotate-totp-key")
+	.description(
+		"Re-encrypt the stored TOTP secrets with the current encryption key",
+	)
+	.option(
+		"-k, --keys <keys>",
+		"Keyring (<keyID>:<base64 key>,...) with the old and new keys, defaults to TOTP_ENCRYPTION_KEYS",
+	)
+	.option(
+		"-i, --key-id <keyID>",
+		"Key to encrypt with, defaults to TOTP_ENCRYPTION_KEY_ID or the first key",
+	)
+	.option("-l, --local", "Use the local database", false)
+	.action(async (options) => {
+		await rotateTotpKeyFlow(
+			{
+				keys: options.keys ?? process.env.TOTP_ENCRYPTION_KEYS,
+				keyID: options.keyId ?? process.env.TOTP_ENCRYPTION_KEY_ID,
+				local: options.local,
+			},
+			{
+				exec: execSync,
+				writeFile: (path, content) => Bun.write(path, content).then(() => {}),
+				removeFile: (path) => Bun.file(path).delete(),
+				exit: (code) => process.exit(code),
+				log: console.log,
+				error: console.error,
+			},
+		);
+	});
+
 function checkBinaryExists(binary: string): Promise<boolean> {
 	return new Promise((resolve) => {
 		exec(`which ${binary}`, (error) => {
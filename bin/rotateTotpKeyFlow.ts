@@ -0,0 +1,134 @@
+import {
+	encryptSecret,
+	parseEncryptionKeyring,
+	rewrapSecret,
+} from "../src/endpoints/security";
+
+export type ExecResult = { stdout: string; stderr: string };
+export type ExecFn = (cmd: string) => Promise<ExecResult>;
+
+export interface RotateTotpKeyFlowOptions {
+	/** Keyring in the `TOTP_ENCRYPTION_KEYS` format, must contain the old and the new keys. */
+	keys: string | undefined;
+	/** Key to re-encrypt the secrets with, same as `TOTP_ENCRYPTION_KEY_ID`. */
+	keyID: string | undefined;
+	/** Run against the local database instead of the remote one. */
+	local: boolean;
+}
+
+export interface RotateTotpKeyFlowDeps {
+	exec: ExecFn;
+	writeFile: (path: string, content: string) => Promise<void>;
+	removeFile: (path: string) => Promise<void>;
+	exit: (code: number) => void;
+	log: (...args: unknown[]) => void;
+	error: (...args: unknown[]) => void;
+}
+
+type TotpSecretRow = {
+	user_id: string;
+	clientID: string;
+	secret: string;
+	key_id: string | null;
+};
+
+const QUERY_FILE = "./.totp-rotation-select.sql";
+const UPDATE_FILE = "./.totp-rotation-update.sql";
+
+function sqlString(value: string) {
+	return `'${value.replaceAll("'", "''")}'`;
+}
+
+/**
+ * Re-encrypt every TOTP secret that is not encrypted with the current key:
+ * plaintext secrets are encrypted and the data key of secrets encrypted with an older key is re-wrapped.
+ */
+export async function rotateTotpKeyFlow(
+	options: RotateTotpKeyFlowOptions,
+	deps: RotateTotpKeyFlowDeps,
+): Promise<void> {
+	const { exec, writeFile, removeFile, exit, log, error } = deps;
+
+	let keyring: ReturnType<typeof parseEncryptionKeyring>;
+	try {
+		keyring = parseEncryptionKeyring(options.keys, options.keyID);
+	} catch (err) {
+		error("Invalid keyring:", err instanceof Error ? err.message : err);
+		exit(1);
+		return;
+	}
+	if (!keyring) {
+		error(
+			"No encryption keys provided. Use --keys or set TOTP_ENCRYPTION_KEYS.",
+		);
+		exit(1);
+		return;
+	}
+
+	const target = options.local ? "--local" : "--remote";
+
+	await writeFile(
+		QUERY_FILE,
+		"SELECT t.user_id, t.clientID, t.secret, k.key_id FROM openauth_totp t LEFT JOIN openauth_totp_secret_keys k ON k.user_id = t.user_id AND k.clientID = t.clientID;",
+	);
+	const selectResult = await exec(
+		`wrangler d1 execute AUTH_DB ${target} --json --file ${QUERY_FILE}`,
+	);
+	await removeFile(QUERY_FILE);
+	if (selectResult.stderr) {
+		error("Error reading TOTP secrets:", selectResult.stderr);
+		exit(1);
+		return;
+	}
+
+	const rows = (
+		JSON.parse(selectResult.stdout) as Array<{ results: TotpSecretRow[] }>
+	).flatMap((result) => result.results);
+	const outdated = rows.filter((row) => row.key_id !== keyring.currentKeyID);
+
+	if (!outdated.length) {
+		log(
+			`All ${rows.length} TOTP secrets are already encrypted with key "${keyring.currentKeyID}".`,
+		);
+		return;
+	}
+
+	const statements: string[] = [];
+	for (const row of outdated) {
+		let encrypted: { secret: string; keyID: string };
+		try {
+			encrypted = row.key_id
+				? await rewrapSecret(row.secret, row.key_id, keyring)
+				: await encryptSecret(row.secret, keyring);
+		} catch (err) {
+			error(
+				`Error re-encrypting the TOTP secret of user ${row.user_id} (key: ${row.key_id ?? "plaintext"}):`,
+				err instanceof Error ? err.message : err,
+			);
+			exit(1);
+			return;
+		}
+		// Only touch rows whose secret is still the exported one, so a TOTP
+		// re-enrolled since the export keeps its new secret and key id.
+		const match = `user_id = ${sqlString(row.user_id)} AND clientID = ${sqlString(row.clientID)}`;
+		statements.push(
+			`UPDATE openauth_totp SET secret = ${sqlString(encrypted.secret)} WHERE ${match} AND secret = ${sqlString(row.secret)};`,
+			`INSERT INTO openauth_totp_secret_keys (user_id, clientID, key_id) SELECT ${sqlString(row.user_id)}, ${sqlString(row.clientID)}, ${sqlString(encrypted.keyID)} WHERE EXISTS (SELECT 1 FROM openauth_totp WHERE ${match} AND secret = ${sqlString(encrypted.secret)}) ON CONFLICT(user_id) DO UPDATE SET clientID = excluded.clientID, key_id = excluded.key_id;`,
+		);
+	}
+
+	await writeFile(UPDATE_FILE, statements.join("\n"));
+	const updateResult = await exec(
+		`wrangler d1 execute AUTH_DB ${target} --file ${UPDATE_FILE}`,
+	);
+	await removeFile(UPDATE_FILE);
+	if (updateResult.stderr) {
+		error("Error updating TOTP secrets:", updateResult.stderr);
+		exit(1);
+		return;
+	}
+
+	log(
+		`${outdated.length} TOTP secrets re-encrypted with key "${keyring.currentKeyID}".`,
+	);
+}
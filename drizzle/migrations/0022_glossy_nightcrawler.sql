@@ -0,0 +1,6 @@
+CREATE TABLE `webauthn_credentials_meta` (
+	`credential_id` text PRIMARY KEY NOT NULL,
+	`clientID` text NOT NULL,
+	`name` text,
+	`last_used_at` text
+);
\ No newline at end of file
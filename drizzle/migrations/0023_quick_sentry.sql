@@ -0,0 +1,7 @@
+CREATE TABLE `openauth_mfa_attempts` (
+	`key` text PRIMARY KEY NOT NULL,
+	`clientID` text NOT NULL,
+	`failures` integer DEFAULT 0 NOT NULL,
+	`locked_until` text,
+	`last_failure_at` text
+);
\ No newline at end of file
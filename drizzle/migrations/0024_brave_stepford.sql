@@ -0,0 +1,5 @@
+CREATE TABLE `openauth_totp_steps` (
+	`user_id` text PRIMARY KEY NOT NULL,
+	`clientID` text NOT NULL,
+	`last_step` integer NOT NULL
+);
\ No newline at end of file
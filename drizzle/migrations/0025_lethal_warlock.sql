@@ -0,0 +1,5 @@
+CREATE TABLE `openauth_totp_secret_keys` (
+	`user_id` text PRIMARY KEY NOT NULL,
+	`clientID` text NOT NULL,
+	`key_id` text NOT NULL
+);
\ No newline at end of file
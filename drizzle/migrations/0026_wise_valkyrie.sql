@@ -0,0 +1,7 @@
+CREATE TABLE `openauth_totp_params` (
+	`user_id` text PRIMARY KEY NOT NULL,
+	`clientID` text NOT NULL,
+	`algorithm` text NOT NULL,
+	`digits` integer NOT NULL,
+	`period` integer NOT NULL
+);
\ No newline at end of file
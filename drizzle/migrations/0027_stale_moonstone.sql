@@ -0,0 +1,8 @@
+CREATE TABLE `openauth_mfa_pending_logins` (
+	`id` text PRIMARY KEY NOT NULL,
+	`clientID` text NOT NULL,
+	`user_id` text NOT NULL,
+	`provider` text NOT NULL,
+	`expires_at` text NOT NULL,
+	`created_at` text NOT NULL
+);
\ No newline at end of file
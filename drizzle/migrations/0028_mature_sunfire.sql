@@ -0,0 +1 @@
+ALTER TABLE `openauth_mfa_pending_logins` ADD `amr` text;
\ No newline at end of file
@@ -0,0 +1,6 @@
+CREATE TABLE `openauth_user_roles` (
+	`user_id` text PRIMARY KEY NOT NULL,
+	`clientID` text NOT NULL,
+	`roles` text NOT NULL,
+	`permissions` text NOT NULL
+);
\ No newline at end of file
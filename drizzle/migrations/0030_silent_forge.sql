@@ -0,0 +1,11 @@
+CREATE TABLE `openauth_user_sessions` (
+	`id` text PRIMARY KEY NOT NULL,
+	`clientID` text NOT NULL,
+	`user_id` text NOT NULL,
+	`provider` text NOT NULL,
+	`ip` text,
+	`user_agent` text,
+	`created_at` text NOT NULL,
+	`last_refreshed_at` text,
+	`expires_at` text NOT NULL
+);
\ No newline at end of file
@@ -0,0 +1,7 @@
+CREATE TABLE `openauth_code_sends` (
+	`key` text PRIMARY KEY NOT NULL,
+	`clientID` text NOT NULL,
+	`last_sent_at` text NOT NULL,
+	`day` text NOT NULL,
+	`day_count` integer NOT NULL
+);
\ No newline at end of file
@@ -0,0 +1,6 @@
+CREATE TABLE `openauth_project_delivery` (
+	`clientID` text PRIMARY KEY NOT NULL,
+	`config` text NOT NULL,
+	`key_id` text NOT NULL,
+	`updated_at` text NOT NULL
+);
\ No newline at end of file
@@ -0,0 +1,8 @@
+CREATE TABLE `openauth_email_template_locales` (
+	`id` text PRIMARY KEY NOT NULL,
+	`template_id` integer NOT NULL,
+	`locale` text NOT NULL,
+	`subject` text NOT NULL,
+	`body` text NOT NULL,
+	`updated_at` text NOT NULL
+);
\ No newline at end of file
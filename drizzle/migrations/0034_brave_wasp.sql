@@ -0,0 +1,6 @@
+CREATE TABLE `openauth_magic_links` (
+	`id` text PRIMARY KEY NOT NULL,
+	`clientID` text NOT NULL,
+	`email` text NOT NULL,
+	`expires_at` text NOT NULL
+);
\ No newline at end of file
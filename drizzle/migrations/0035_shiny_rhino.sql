@@ -0,0 +1,18 @@
+CREATE TABLE `openauth_account_link_requests` (
+	`id` text PRIMARY KEY NOT NULL,
+	`clientID` text NOT NULL,
+	`user_id` text NOT NULL,
+	`provider` text NOT NULL,
+	`expires_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `openauth_user_identities` (
+	`id` text PRIMARY KEY NOT NULL,
+	`clientID` text NOT NULL,
+	`user_id` text NOT NULL,
+	`provider` text NOT NULL,
+	`provider_subject` text NOT NULL,
+	`email` text,
+	`created_at` text NOT NULL,
+	`last_used_at` text
+);
\ No newline at end of file
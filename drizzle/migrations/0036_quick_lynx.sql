@@ -0,0 +1 @@
+ALTER TABLE `openauth_magic_links` ADD `code_attempts` integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `openauth_account_link_requests` ADD `redirect_uri` text;--> statement-breakpoint
+ALTER TABLE `openauth_account_link_requests` ADD `state` text;--> statement-breakpoint
+ALTER TABLE `openauth_account_link_requests` ADD `nonce_hash` text;
\ No newline at end of file
@@ -1,6 +1,15 @@
+import { createSubjects } from "@kagii/openauth/subject";
 import { type Project, PUBLIC_CLIENT_ID } from "openauth-webui-shared-types";
 import { defaultSubjectSchema } from "openauth-webui-shared-types/client/user";
-import type { InferOutput } from "valibot";
+import {
+	array,
+	boolean,
+	type InferOutput,
+	number,
+	object,
+	optional,
+	string,
+} from "valibot";
 import type { EndpointCtx } from "./src/endpoints/types";
 import { createExternalGlobalProjectConfig } from "./src/global-conf";
 
@@ -40,4 +49,20 @@ export default async (request_ctx: EndpointCtx, project: Project) =>
 // This value should be shared between the OpenAuth server Worker and other
 // client Workers that you connect to it, so the types and schema validation are
 // consistent.
-export const subjects = defaultSubjectSchema;
+export const subjects = createSubjects({
+	user: object({
+		...defaultSubjectSchema.user.entries,
+		/** primary role followed by the additional ones */
+		roles: optional(array(string())),
+		/** permissions granted by the roles and to the user directly */
+		permissions: optional(array(string())),
+		/** session id, shared by the refresh tokens of a login */
+		sid: optional(string()),
+		/** authentication methods references (RFC 8176) of the login */
+		amr: optional(array(string())),
+		/** time of the login in seconds since the epoch, kept when the tokens are refreshed */
+		auth_time: optional(number()),
+		/** whether a second factor was verified at login */
+		mfa_verified: optional(boolean()),
+	}),
+});
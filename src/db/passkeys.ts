@@ -0,0 +1,106 @@
+import { webauthnCredentialsTable } from "openauth-webui-shared-types/database";
+import { and, drizzle, eq } from "openauth-webui-shared-types/drizzle";
+import type { PasskeyCredentialStore } from "../endpoints/passkey";
+import { webauthnCredentialsMetaTable } from "./schema";
+
+/**
+ * Passkeys of a project in D1: the credentials of the passkey provider and their issuer-side metadata.
+ */
+export function getPasskeyStore(
+	database: D1Database,
+	clientID: string,
+): PasskeyCredentialStore {
+	const db = drizzle(database);
+	return {
+		list: (userID) =>
+			db
+				.select({
+					id: webauthnCredentialsTable.credential_id,
+					name: webauthnCredentialsMetaTable.name,
+					device_type: webauthnCredentialsTable.device_type,
+					backed_up: webauthnCredentialsTable.backed_up,
+					transports: webauthnCredentialsTable.transports,
+					created_at: webauthnCredentialsTable.created_at,
+					last_used_at: webauthnCredentialsMetaTable.last_used_at,
+				})
+				.from(webauthnCredentialsTable)
+				.leftJoin(
+					webauthnCredentialsMetaTable,
+					eq(
+						webauthnCredentialsMetaTable.credential_id,
+						webauthnCredentialsTable.credential_id,
+					),
+				)
+				.where(
+					and(
+						eq(webauthnCredentialsTable.user_id, userID),
+						eq(webauthnCredentialsTable.clientID, clientID),
+					),
+				)
+				.all(),
+		owns: async (userID, credentialID) =>
+			Boolean(
+				await db
+					.select({ credential_id: webauthnCredentialsTable.credential_id })
+					.from(webauthnCredentialsTable)
+					.where(
+						and(
+							eq(webauthnCredentialsTable.credential_id, credentialID),
+							eq(webauthnCredentialsTable.user_id, userID),
+							eq(webauthnCredentialsTable.clientID, clientID),
+						),
+					)
+					.get(),
+			),
+		rename: async (credentialID, name) => {
+			await db
+				.insert(webauthnCredentialsMetaTable)
+				.values({ credential_id: credentialID, clientID, name })
+				.onConflictDoUpdate({
+					target: webauthnCredentialsMetaTable.credential_id,
+					set: { name },
+				})
+				.run();
+		},
+		remove: async (credentialID) => {
+			await db.batch([
+				db
+					.delete(webauthnCredentialsTable)
+					.where(
+						and(
+							eq(webauthnCredentialsTable.credential_id, credentialID),
+							eq(webauthnCredentialsTable.clientID, clientID),
+						),
+					),
+				db
+					.delete(webauthnCredentialsMetaTable)
+					.where(eq(webauthnCredentialsMetaTable.credential_id, credentialID)),
+			]);
+		},
+		touch: async (credentialID, lastUsedAt) => {
+			const credential = await db
+				.select({ credential_id: webauthnCredentialsTable.credential_id })
+				.from(webauthnCredentialsTable)
+				.where(
+					and(
+						eq(webauthnCredentialsTable.credential_id, credentialID),
+						eq(webauthnCredentialsTable.clientID, clientID),
+					),
+				)
+				.get();
+			if (!credential) return;
+			await db
+				.insert(webauthnCredentialsMetaTable)
+				.values({
+					credential_id: credentialID,
+					clientID,
+					last_used_at: lastUsedAt,
+				})
+				.onConflictDoUpdate({
+					target: webauthnCredentialsMetaTable.credential_id,
+					set: { last_used_at: lastUsedAt },
+				})
+				.run();
+		},
+	};
+}
@@ -1 +1,184 @@
+import { integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+
 export * from "openauth-webui-shared-types/database";
+
+// Issuer-only tables ////////////////////////////////////////////////////////
+
+/**
+ * Issuer-side metadata attached to `webauthnCredentialsTable` rows.
+ */
+export const webauthnCredentialsMetaTable = sqliteTable(
+	"webauthn_credentials_meta",
+	{
+		credential_id: text("credential_id").primaryKey(),
+		clientID: text("clientID").notNull(),
+		name: text("name"),
+		last_used_at: text("last_used_at"),
+	},
+);
+
+/**
+ * Failed MFA attempt counters, keyed by user or by IP address.
+ */
+export const mfaAttemptsTable = sqliteTable("openauth_mfa_attempts", {
+	key: text("key").primaryKey(),
+	clientID: text("clientID").notNull(),
+	failures: integer("failures").notNull().default(0),
+	locked_until: text("locked_until"),
+	last_failure_at: text("last_failure_at"),
+});
+
+/** Last accepted TOTP time step per user, used to reject replayed codes. */
+export const totpStepsTable = sqliteTable("openauth_totp_steps", {
+	user_id: text("user_id").primaryKey(),
+	clientID: text("clientID").notNull(),
+	last_step: integer("last_step").notNull(),
+});
+
+/** Id of the key used to encrypt `totpTable.secret`, no row means the secret is stored in plaintext. */
+export const totpSecretKeysTable = sqliteTable("openauth_totp_secret_keys", {
+	user_id: text("user_id").primaryKey(),
+	clientID: text("clientID").notNull(),
+	key_id: text("key_id").notNull(),
+});
+
+/** TOTP parameters a user enrolled with, no row means the legacy SHA1 / 6 digits / 30s parameters. */
+export const totpParamsTable = sqliteTable("openauth_totp_params", {
+	user_id: text("user_id").primaryKey(),
+	clientID: text("clientID").notNull(),
+	algorithm: text("algorithm", {
+		enum: ["SHA1", "SHA256", "SHA512"],
+	}).notNull(),
+	digits: integer("digits").notNull(),
+	period: integer("period").notNull(),
+});
+
+/** Logins waiting for their second factor before the tokens are issued. */
+export const mfaPendingLoginsTable = sqliteTable(
+	"openauth_mfa_pending_logins",
+	{
+		id: text("id").primaryKey(),
+		clientID: text("clientID").notNull(),
+		user_id: text("user_id").notNull(),
+		provider: text("provider").notNull(),
+		/** authentication methods of the first factor */
+		amr: text("amr", { mode: "json" }).$type<string[]>(),
+		expires_at: text("expires_at").notNull(),
+		created_at: text("created_at").notNull(),
+	},
+);
+
+/**
+ * Roles and permissions granted to a user on top of the primary role of the users table.
+ */
+export const userRolesTable = sqliteTable("openauth_user_roles", {
+	user_id: text("user_id").primaryKey(),
+	clientID: text("clientID").notNull(),
+	roles: text("roles", { mode: "json" }).$type<string[]>().notNull(),
+	permissions: text("permissions", { mode: "json" })
+		.$type<string[]>()
+		.notNull(),
+});
+
+/**
+ * Signed in devices, one row per refresh token family (identified by the `sid` of the user subject).
+ */
+export const userSessionsTable = sqliteTable("openauth_user_sessions", {
+	id: text("id").primaryKey(),
+	clientID: text("clientID").notNull(),
+	user_id: text("user_id").notNull(),
+	provider: text("provider").notNull(),
+	ip: text("ip"),
+	user_agent: text("user_agent"),
+	created_at: text("created_at").notNull(),
+	last_refreshed_at: text("last_refreshed_at"),
+	/** end of the refresh token validity, pushed back on every refresh */
+	expires_at: text("expires_at").notNull(),
+});
+
+/**
+ * Verification codes sent to a destination (email or phone), for the cooldown and daily limit.
+ */
+export const codeSendsTable = sqliteTable("openauth_code_sends", {
+	/** `<clientID>:<destination>` */
+	key: text("key").primaryKey(),
+	clientID: text("clientID").notNull(),
+	last_sent_at: text("last_sent_at").notNull(),
+	day: text("day").notNull(),
+	day_count: integer("day_count").notNull(),
+});
+
+/**
+ * Email/SMS providers of a project, used in place of the global `openauth.config.ts` strategy.
+ */
+export const projectDeliveryTable = sqliteTable("openauth_project_delivery", {
+	clientID: text("clientID").primaryKey(),
+	/** `ProjectDelivery` JSON, envelope-encrypted */
+	config: text("config").notNull(),
+	/** id of the `DELIVERY_ENCRYPTION_KEYS` key that wraps the data key of `config` */
+	key_id: text("key_id").notNull(),
+	updated_at: text("updated_at").notNull(),
+});
+
+/**
+ * Locale variants of the email templates, the template itself is used when no variant matches.
+ */
+export const emailTemplateLocalesTable = sqliteTable(
+	"openauth_email_template_locales",
+	{
+		/** `<template_id>:<locale>` */
+		id: text("id").primaryKey(),
+		template_id: integer("template_id").notNull(),
+		/** lowercase BCP 47 tag, e.g. `fr` or `pt-br` */
+		locale: text("locale").notNull(),
+		subject: text("subject").notNull(),
+		body: text("body").notNull(),
+		updated_at: text("updated_at").notNull(),
+	},
+);
+
+/**
+ * Magic links not used yet, a link is deleted when it is used or replaced.
+ */
+export const magicLinksTable = sqliteTable("openauth_magic_links", {
+	id: text("id").primaryKey(),
+	clientID: text("clientID").notNull(),
+	email: text("email").notNull(),
+	expires_at: text("expires_at").notNull(),
+	/** wrong codes typed for the link, it is deleted at `MAX_MAGIC_LINK_CODE_ATTEMPTS` */
+	code_attempts: integer("code_attempts").notNull().default(0),
+});
+
+/**
+ * Provider identities of the users, a user can hold one identity per provider.
+ */
+export const userIdentitiesTable = sqliteTable("openauth_user_identities", {
+	/** `<clientID>:<provider>:<provider_subject>` */
+	id: text("id").primaryKey(),
+	clientID: text("clientID").notNull(),
+	user_id: text("user_id").notNull(),
+	provider: text("provider").notNull(),
+	/** `identifier` returned by the provider parser */
+	provider_subject: text("provider_subject").notNull(),
+	email: text("email"),
+	created_at: text("created_at").notNull(),
+	last_used_at: text("last_used_at"),
+});
+
+/**
+ * Account links started by a signed in user, completed by the provider flow.
+ */
+export const accountLinkRequestsTable = sqliteTable(
+	"openauth_account_link_requests",
+	{
+		id: text("id").primaryKey(),
+		clientID: text("clientID").notNull(),
+		user_id: text("user_id").notNull(),
+		provider: text("provider").notNull(),
+		expires_at: text("expires_at").notNull(),
+		redirect_uri: text("redirect_uri"),
+		state: text("state"),
+		/** SHA-256 of the `oauth_link_nonce` cookie of the browser that started the link */
+		nonce_hash: text("nonce_hash"),
+	},
+);
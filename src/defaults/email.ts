@@ -8,3 +8,15 @@ export default `
   </body>
 </html>
 `;
+
+export const MagicLinkEmailTemplateBody = `
+<html lang="en">
+  <head>
+    <title>Sign in to our service</title>
+  </head>
+  <body>
+    <p><a href="{{link}}">Click here to sign in</a></p>
+    {{#code}}<p>Or copy this code: {{code}}</p>{{/code}}
+  </body>
+</html>
+`;
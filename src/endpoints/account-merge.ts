@@ -0,0 +1,123 @@
+import type { Project } from "openauth-webui-shared-types";
+import {
+	array,
+	fallback,
+	type InferOutput,
+	object,
+	optional,
+	parse,
+	picklist,
+	string,
+} from "valibot";
+
+/**
+ * `projectData.accountMerge` settings, invalid or missing values fall back to the defaults.
+ */
+export const AccountMergeSettingsSchema = object({
+	/**
+	 * when a sign in with a new identity joins the existing user with the same email:
+	 * - `never`: never, the identity gets its own user
+	 * - `verified`: when the provider verified the email
+	 * - `trusted`: only for the providers of `trustedProviders`
+	 */
+	policy: fallback(
+		optional(picklist(["never", "verified", "trusted"]), "verified"),
+		"verified",
+	),
+	trustedProviders: fallback(optional(array(string()), []), []),
+});
+
+export type AccountMergeSettings = InferOutput<
+	typeof AccountMergeSettingsSchema
+>;
+
+/**
+ * Read the project merge policy from `projectData.accountMerge`.
+ */
+export function getAccountMergeSettings(
+	project: Pick<Project, "projectData">,
+): AccountMergeSettings {
+	const { accountMerge } = (project.projectData ?? {}) as {
+		accountMerge?: unknown;
+	};
+	return parse(
+		AccountMergeSettingsSchema,
+		typeof accountMerge === "object" && accountMerge !== null
+			? accountMerge
+			: {},
+	);
+}
+
+/**
+ * Providers where the email is the login, proven by a code or a link sent to it.
+ */
+export const EMAIL_OWNING_PROVIDERS = ["code", "password", "magiclink"];
+
+function isTrue(value: unknown) {
+	return value === true || value === "true";
+}
+
+/**
+ * Whether the provider verified the email of its user data: the `email_verified` claim (OIDC, Google,
+ * Keycloak), `verified_email` (Google v2 user info) or `xms_edov` (Microsoft, domain owner verified).
+ */
+export function isEmailVerified(
+	provider: string,
+	data: Record<string, unknown> | null | undefined,
+) {
+	if (EMAIL_OWNING_PROVIDERS.includes(provider)) return true;
+	return (
+		isTrue(data?.email_verified) ||
+		isTrue(data?.verified_email) ||
+		isTrue(data?.xms_edov)
+	);
+}
+
+/**
+ * Whether a user signed in with `provider` before identities were stored: users were then merged by
+ * email, keeping the data of each provider under `data[provider]` without an identity. Only the first
+ * sign in with the provider is linked this way, the next identities go through the merge policy.
+ * @param identities identities of the user
+ */
+export function isLegacyProviderLink(
+	userData: unknown,
+	provider: string,
+	identities: { provider: string }[],
+) {
+	const providerData =
+		typeof userData === "object" && userData !== null
+			? (userData as Record<string, unknown>)[provider]
+			: undefined;
+	return (
+		typeof providerData === "object" &&
+		providerData !== null &&
+		!Array.isArray(providerData) &&
+		!identities.some((identity) => identity.provider === provider)
+	);
+}
+
+export type AccountMergeBlockReason =
+	| "merge_disabled"
+	| "email_not_verified"
+	| "provider_not_trusted";
+
+/**
+ * Check the merge of a new identity into the existing user with the same email.
+ * @returns why the merge is refused, `null` when it is allowed.
+ */
+export function getAccountMergeBlockReason(
+	settings: AccountMergeSettings,
+	provider: string,
+	data: Record<string, unknown> | null | undefined,
+): AccountMergeBlockReason | null {
+	switch (settings.policy) {
+		case "never":
+			return "merge_disabled";
+		case "trusted":
+			return settings.trustedProviders.includes(provider)
+				? null
+				: "provider_not_trusted";
+		case "verified":
+			return isEmailVerified(provider, data) ? null : "email_not_verified";
+	}
+}
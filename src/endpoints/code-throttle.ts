@@ -0,0 +1,148 @@
+import type { Project } from "openauth-webui-shared-types";
+import {
+	fallback,
+	type InferOutput,
+	integer,
+	maxValue,
+	minValue,
+	number,
+	object,
+	optional,
+	parse,
+	pipe,
+} from "valibot";
+
+/**
+ * `projectData.codeThrottle` settings, invalid or missing values fall back to the defaults.
+ */
+export const CodeThrottleSettingsSchema = object({
+	/** seconds to wait before sending another code to the same destination */
+	cooldownSeconds: fallback(
+		optional(pipe(number(), integer(), minValue(0), maxValue(3600)), 60),
+		60,
+	),
+	/** codes sent to the same destination per UTC day */
+	dailyLimit: fallback(
+		optional(pipe(number(), integer(), minValue(1), maxValue(1000)), 10),
+		10,
+	),
+});
+
+export type CodeThrottleSettings = InferOutput<
+	typeof CodeThrottleSettingsSchema
+>;
+
+/**
+ * Read the project code sending limits from `projectData.codeThrottle`.
+ */
+export function getCodeThrottleSettings(
+	project: Pick<Project, "projectData">,
+): CodeThrottleSettings {
+	const { codeThrottle } = (project.projectData ?? {}) as {
+		codeThrottle?: unknown;
+	};
+	return parse(
+		CodeThrottleSettingsSchema,
+		typeof codeThrottle === "object" && codeThrottle !== null
+			? codeThrottle
+			: {},
+	);
+}
+
+/**
+ * Codes sent to a destination.
+ */
+export type CodeSendState = {
+	last_sent_at: string;
+	/** UTC day of `day_count`, `YYYY-MM-DD` */
+	day: string;
+	day_count: number;
+};
+
+export type CodeSendCheck =
+	| { allowed: true; state: CodeSendState }
+	| {
+			allowed: false;
+			reason: "cooldown" | "daily_limit";
+			/** seconds to wait before the next code can be sent */
+			retryAfter: number;
+	  };
+
+/**
+ * Seconds left before another code can be sent to the destination, `null` when allowed.
+ */
+export function getCodeSendRetryAfter(
+	state: CodeSendState | undefined,
+	settings: CodeThrottleSettings,
+	now = Date.now(),
+): { reason: "cooldown" | "daily_limit"; retryAfter: number } | null {
+	if (!state) return null;
+	const today = new Date(now).toISOString().slice(0, 10);
+	if (state.day === today && state.day_count >= settings.dailyLimit) {
+		const tomorrow = Date.parse(`${today}T00:00:00.000Z`) + 24 * 3600 * 1000;
+		return {
+			reason: "daily_limit",
+			retryAfter: Math.ceil((tomorrow - now) / 1000),
+		};
+	}
+	const cooldownEnd =
+		Date.parse(state.last_sent_at) + settings.cooldownSeconds * 1000;
+	if (cooldownEnd > now) {
+		return {
+			reason: "cooldown",
+			retryAfter: Math.ceil((cooldownEnd - now) / 1000),
+		};
+	}
+	return null;
+}
+
+/**
+ * Latest `last_sent_at` out of the cooldown, for the checks made by the database.
+ */
+export function getCodeSendCooldownStart(
+	settings: CodeThrottleSettings,
+	now = Date.now(),
+) {
+	return new Date(now - settings.cooldownSeconds * 1000).toISOString();
+}
+
+/**
+ * Check whether a code can be sent to the destination.
+ * @returns the state to store when the code can be sent.
+ */
+export function checkCodeSend(
+	state: CodeSendState | undefined,
+	settings: CodeThrottleSettings,
+	now = Date.now(),
+): CodeSendCheck {
+	const throttled = getCodeSendRetryAfter(state, settings, now);
+	if (throttled) return { allowed: false, ...throttled };
+
+	const today = new Date(now).toISOString().slice(0, 10);
+	return {
+		allowed: true,
+		state: {
+			last_sent_at: new Date(now).toISOString(),
+			day: today,
+			day_count: state?.day === today ? state.day_count + 1 : 1,
+		},
+	};
+}
+
+/**
+ * Thrown by `sendCode` when no code is sent because of the project limits.
+ */
+export class CodeSendThrottledError extends Error {
+	reason: "cooldown" | "daily_limit";
+	/** seconds to wait before the next code can be sent */
+	retryAfter: number;
+	constructor(reason: "cooldown" | "daily_limit", retryAfter: number) {
+		super(
+			reason === "cooldown"
+				? `Please wait ${retryAfter} seconds before requesting a new code.`
+				: "Too many codes were requested today, please try again tomorrow.",
+		);
+		this.reason = reason;
+		this.retryAfter = retryAfter;
+	}
+}
@@ -0,0 +1,188 @@
+import {
+	type InferOutput,
+	integer,
+	literal,
+	minLength,
+	nullable,
+	number,
+	object,
+	optional,
+	picklist,
+	pipe,
+	record,
+	string,
+	variant,
+} from "valibot";
+import type { ExternalGlobalProjectConfig } from "../global-conf";
+import { parseEncryptionKeyring } from "./security";
+
+const requiredString = () => pipe(string(), minLength(1));
+
+const awsCredentials = {
+	region: requiredString(),
+	accessKeyId: requiredString(),
+	secretAccessKey: requiredString(),
+	sessionToken: optional(string()),
+};
+
+const smsSender = {
+	fromNumber: requiredString(),
+	/** senders per calling code prefix */
+	senders: optional(record(string(), string())),
+};
+
+/**
+ * Email provider of a project, the same options as the `openauth.config.ts` strategy.
+ */
+export const EmailDeliverySchema = variant("provider", [
+	object({
+		provider: literal("resend"),
+		apiKey: requiredString(),
+		emailFrom: requiredString(),
+	}),
+	object({
+		provider: literal("smtp"),
+		host: requiredString(),
+		port: optional(pipe(number(), integer())),
+		secure: optional(picklist(["tls", "starttls", "none"])),
+		username: optional(string()),
+		password: optional(string()),
+		emailFrom: requiredString(),
+	}),
+	object({
+		provider: literal("ses"),
+		...awsCredentials,
+		emailFrom: requiredString(),
+		configurationSetName: optional(string()),
+	}),
+	object({
+		provider: literal("postmark"),
+		serverToken: requiredString(),
+		emailFrom: requiredString(),
+		messageStream: optional(string()),
+	}),
+	object({
+		provider: literal("mailgun"),
+		apiKey: requiredString(),
+		domain: requiredString(),
+		region: optional(picklist(["us", "eu"])),
+		emailFrom: requiredString(),
+	}),
+	object({
+		provider: literal("sendgrid"),
+		apiKey: requiredString(),
+		emailFrom: requiredString(),
+	}),
+]);
+
+/**
+ * SMS provider of a project, the same options as the `openauth.config.ts` strategy.
+ */
+export const PhoneDeliverySchema = variant("provider", [
+	object({
+		provider: literal("twilio"),
+		accountSID: requiredString(),
+		authToken: requiredString(),
+		...smsSender,
+	}),
+	object({
+		provider: literal("vonage"),
+		apiKey: requiredString(),
+		apiSecret: requiredString(),
+		...smsSender,
+	}),
+	object({
+		provider: literal("messagebird"),
+		accessKey: requiredString(),
+		...smsSender,
+	}),
+	object({
+		provider: literal("sns"),
+		...awsCredentials,
+		fromNumber: optional(string()),
+		senders: smsSender.senders,
+	}),
+	object({
+		provider: literal("telnyx"),
+		apiKey: requiredString(),
+		messagingProfileID: optional(string()),
+		...smsSender,
+	}),
+]);
+
+/**
+ * Delivery providers of a project, `null` (or missing) uses the global strategy.
+ */
+export const ProjectDeliverySchema = object({
+	email: optional(nullable(EmailDeliverySchema), null),
+	phone: optional(nullable(PhoneDeliverySchema), null),
+});
+
+export type ProjectDelivery = InferOutput<typeof ProjectDeliverySchema>;
+
+/** Options returned masked by the delivery endpoints. */
+const SECRET_FIELDS = [
+	"apiKey",
+	"apiSecret",
+	"accessKey",
+	"authToken",
+	"password",
+	"secretAccessKey",
+	"sessionToken",
+	"serverToken",
+];
+
+/**
+ * Mask the credentials of a delivery configuration, only their last 4 characters are kept.
+ */
+export function redactProjectDelivery(
+	delivery: ProjectDelivery,
+): ProjectDelivery {
+	const redact = <T extends object | null>(config: T): T =>
+		config &&
+		(Object.fromEntries(
+			Object.entries(config).map(([key, value]) => [
+				key,
+				SECRET_FIELDS.includes(key) && typeof value === "string"
+					? `****${value.length > 8 ? value.slice(-4) : ""}`
+					: value,
+			]),
+		) as T);
+	return { email: redact(delivery.email), phone: redact(delivery.phone) };
+}
+
+/**
+ * Global configuration with the project providers in place of the global strategy.
+ */
+export function applyProjectDelivery(
+	globalConfig: ExternalGlobalProjectConfig,
+	delivery: ProjectDelivery | null,
+): ExternalGlobalProjectConfig {
+	if (!delivery?.email && !delivery?.phone) return globalConfig;
+	return {
+		...globalConfig,
+		register: {
+			...globalConfig.register,
+			strategy: {
+				...globalConfig.register.strategy,
+				...(delivery.email ? { email: delivery.email } : {}),
+				...(delivery.phone ? { phone: delivery.phone } : {}),
+			},
+		},
+	};
+}
+
+/**
+ * Keyring of the project delivery credentials (`DELIVERY_ENCRYPTION_KEYS`), `null` when not configured.
+ */
+export function getDeliveryKeyring(env: Env) {
+	const { DELIVERY_ENCRYPTION_KEYS, DELIVERY_ENCRYPTION_KEY_ID } =
+		env as Env & {
+			DELIVERY_ENCRYPTION_KEYS?: string;
+			DELIVERY_ENCRYPTION_KEY_ID?: string;
+		};
+	return parseEncryptionKeyring(
+		DELIVERY_ENCRYPTION_KEYS,
+		DELIVERY_ENCRYPTION_KEY_ID,
+	);
+}
@@ -0,0 +1,87 @@
+/**
+ * Cookie keeping the `link_id` authorize param while the provider flow of an account link runs.
+ */
+export const COOKIE_LINK_ID = "oauth_link_id";
+
+/**
+ * Seconds a link started with `POST /account/link/:provider` can be completed.
+ */
+export const ACCOUNT_LINK_TTL_SECONDS = 600;
+
+/**
+ * Cookie holding the nonce of the account link started in the browser, its SHA-256 is stored with the
+ * link request.
+ */
+export const COOKIE_LINK_NONCE = "oauth_link_nonce";
+
+/**
+ * Providers that authenticate an existing user rather than an identity of their own.
+ */
+export const UNLINKABLE_PROVIDERS = ["qr", "passkey"];
+
+/**
+ * Row id of an identity, unique per project, provider and provider subject.
+ */
+export function getIdentityID(
+	clientID: string,
+	provider: string,
+	subject: string,
+) {
+	return `${clientID}:${provider}:${subject}`;
+}
+
+export type UserIdentity = {
+	provider: string;
+	provider_subject: string;
+};
+
+export type UnlinkError = "not_linked" | "primary_identity";
+
+/**
+ * Check that the identity of `provider` can be removed from a user.
+ * @param identifier `identifier` of the user, the subject of the provider they registered with, which
+ * would still sign in to the user without its identity
+ */
+export function getUnlinkError(
+	identities: UserIdentity[],
+	provider: string,
+	identifier: string,
+): UnlinkError | null {
+	const identity = identities.find((item) => item.provider === provider);
+	if (!identity) return "not_linked";
+	if (identity.provider_subject === identifier) return "primary_identity";
+	return null;
+}
+
+export type AccountLinkRequest = {
+	user_id: string;
+	expires_at: string;
+	/** set once the link is started in a browser */
+	nonce_hash: string | null;
+};
+
+export type AccountLinkStartError = "not_found" | "expired" | "started";
+
+/**
+ * Check that the signed in user can start a link request in their browser. Links of other users are
+ * reported as not found, and a link can only be started once.
+ */
+export function getAccountLinkStartError(
+	request: AccountLinkRequest | undefined,
+	userID: string,
+	now = Date.now(),
+): AccountLinkStartError | null {
+	if (!request || request.user_id !== userID) return "not_found";
+	if (new Date(request.expires_at).getTime() <= now) return "expired";
+	if (request.nonce_hash) return "started";
+	return null;
+}
+
+/**
+ * SHA-256 of the nonce of a link, stored with the link request.
+ */
+export async function hashAccountLinkNonce(nonce: string) {
+	return new Uint8Array(
+		await crypto.subtle.digest("SHA-256", new TextEncoder().encode(nonce)),
+	).toBase64({ alphabet: "base64url", omitPadding: true });
+}
@@ -7,16 +7,21 @@ import { D1Storage } from "@kagii/openauth/storage/d1";
 // OpenAuth imports
 import type { Theme } from "@kagii/openauth/ui/theme";
 import type {
+	AuthenticationResponseJSON,
+	AuthenticatorTransportFuture,
 	RegistrationResponseJSON,
 	VerifiedRegistrationResponse,
 } from "@simplewebauthn/server";
 import {
+	generateAuthenticationOptions,
 	generateRegistrationOptions,
 	verifyRegistrationResponse,
 } from "@simplewebauthn/server";
 import { Hono } from "hono";
 import { setCookie } from "hono/cookie";
 import { createMiddleware } from "hono/factory";
+import { serialize } from "hono/utils/cookie";
+import { decodeJwt } from "jose";
 import {
 	COOKIE_COPY_TEMPLATE_ID,
 	COOKIE_INVITE_ID,
@@ -34,13 +39,11 @@ import type {
 	TOTPResponse,
 	TOTPSetupData,
 } from "openauth-webui-shared-types/client/mfa";
-import type {
-	defaultSubjectSchema,
-	ResponseData,
-} from "openauth-webui-shared-types/client/user";
+import type { ResponseData } from "openauth-webui-shared-types/client/user";
 // OpenAuthster shared imports
 import {
 	createWebUiProject,
+	emailTemplatesTable,
 	insertLog,
 	OTFusersTable,
 	projectTable,
@@ -55,6 +58,7 @@ import {
 	type DrizzleD1Database,
 	drizzle,
 	eq,
+	lt,
 	or,
 } from "openauth-webui-shared-types/drizzle";
 import {
@@ -67,24 +71,132 @@ import { deleteUserWithAuthState } from "openauth-webui-shared-types/user/delete
 import { getCookiesFromRequest } from "openauth-webui-shared-types/utils";
 import { WebHook } from "openauth-webui-shared-types/webhook";
 import type { WebHookEvents } from "openauth-webui-shared-types/webhook/types";
-import { parse } from "valibot";
+import type { TOTP } from "otpauth";
+import { parse, safeParse } from "valibot";
 import globalOpenAutsterConfig, { subjects } from "../../openauth.config";
 import packageJson from "../../package.json" with { type: "json" };
 // Internal imports
 import Issuer from "../";
 import { deleteCache, getAllCache, getCache, setCache } from "../cache";
+import { getPasskeyStore } from "../db/passkeys";
+import {
+	accountLinkRequestsTable,
+	emailTemplateLocalesTable,
+	mfaPendingLoginsTable,
+	projectDeliveryTable,
+	totpParamsTable,
+	totpSecretKeysTable,
+	totpStepsTable,
+	userIdentitiesTable,
+	userRolesTable,
+	userSessionsTable,
+} from "../db/schema";
 import DefaultTheme from "../defaults/theme";
+import {
+	MFA_PENDING_COOKIE,
+	MFA_PROVIDER_NAME,
+	type MFACopy,
+	MFAProvider,
+	type MFAProviderSuccess,
+} from "../mfa-provider";
 import {
 	generateProvidersFromConfig,
+	getCopyTemplateFromName,
+	getProjectDelivery,
 	providerConfigMap,
 	type userExtractResult,
 } from "../providers-setup";
+import { DurableObjectRateLimitStore } from "../rate-limiter";
 import { log, toAuthorizeOrigin } from "../share";
+import {
+	getAccountMergeBlockReason,
+	getAccountMergeSettings,
+	isLegacyProviderLink,
+} from "./account-merge";
+import {
+	getDeliveryKeyring,
+	ProjectDeliverySchema,
+	redactProjectDelivery,
+} from "./delivery";
 import { PartialRequestError, RequestError } from "./error";
+import {
+	ACCOUNT_LINK_TTL_SECONDS,
+	COOKIE_LINK_ID,
+	COOKIE_LINK_NONCE,
+	getAccountLinkStartError,
+	getIdentityID,
+	getUnlinkError,
+	hashAccountLinkNonce,
+	UNLINKABLE_PROVIDERS,
+} from "./identities";
+import {
+	INACTIVE_TOKEN,
+	type IntrospectionResponse,
+	isRefreshTokenActive,
+	toIntrospectionResponse,
+} from "./introspection";
 import { IniviteManager } from "./invite";
-import { encryptData, verifyData } from "./security";
+import { COOKIE_UI_LOCALES, normalizeLocale } from "./locales";
+import { MFAAttemptGuard } from "./mfa-guard";
+import {
+	addMFAToAMR,
+	getIssuerRelyingParty,
+	getLoginMFAChallenge,
+	getMFALoginSettings,
+	getProviderAMR,
+	type LoginMFAMethod,
+} from "./mfa-login";
+import {
+	isPasskeyChallengeActive,
+	PASSKEY_CHALLENGE_TTL_MS,
+	renamePasskey,
+	revokePasskey,
+	verifyPasskeyAssertion,
+} from "./passkey";
+import {
+	MAX_PASSWORD_IMPORT_USERS,
+	type PasswordImportUser,
+	PasswordImportUserSchema,
+	type StoredImportedPassword,
+} from "./password-import";
+import {
+	getRateLimitHeaders,
+	getRateLimitSettings,
+	hitRateLimits,
+	MemoryRateLimitStore,
+	type RateLimitGroup,
+	type RateLimitStore,
+} from "./rate-limit";
+import { getRoleSettings, resolveUserAuthorization } from "./roles";
+import {
+	decryptSecret,
+	encryptSecret,
+	parseEncryptionKeyring,
+	verifyData,
+} from "./security";
+import {
+	parseRefreshToken,
+	REFRESH_TOKEN_REUSE_SECONDS,
+	revokeRefreshToken,
+	revokeSessionRefreshTokens,
+	revokeUserRefreshTokens,
+	type StoredRefreshToken,
+} from "./sessions";
 import { getSecretFromRequest, getTokenFromRequest } from "./shared";
-import type { EndpointCtx, EndpointVariables, Params } from "./types";
+import {
+	DEFAULT_TOTP_PARAMS,
+	generateBackupCodes,
+	getAcceptedTOTPStep,
+	getTOTPSettings,
+	regenerateBackupCodes,
+	type TOTPParams,
+} from "./totp";
+import type {
+	EndpointCtx,
+	EndpointVariables,
+	Params,
+	TOTPLockedResponse,
+} from "./types";
 
 type UserResponseSchemaType = _UserResponseSchemaType<
 	Record<string, unknown>,
@@ -143,6 +255,84 @@ const userInfoRetriver = createMiddleware(async (c, next) => {
 	return next();
 });
 
+const memoryRateLimitStore = new MemoryRateLimitStore();
+
+function getRateLimitStore(env: Env): RateLimitStore {
+	// without the Durable Object binding the counters are only kept per isolate
+	return env.RATE_LIMITER
+		? new DurableObjectRateLimitStore(env.RATE_LIMITER)
+		: memoryRateLimitStore;
+}
+
+/**
+ * Rate limit a route group with the project limits, per IP address and client,
+ * and per identifier when `getIdentifier` returns one.
+ */
+function rateLimit(
+	group: RateLimitGroup,
+	getIdentifier?: (c: EndpointCtx) => Promise<string | undefined>,
+) {
+	return createMiddleware(async (c, next) => {
+		const project = c.get("project") as Project | undefined;
+		if (!project) return next();
+		const settings = getRateLimitSettings(project);
+		if (!settings.enabled) return next();
+
+		const ip = c.req.header("CF-Connecting-IP") ?? "unknown";
+		const identifier = (await getIdentifier?.(c))?.toLowerCase();
+		const result = await hitRateLimits(
+			getRateLimitStore(c.env),
+			[
+				`${group}:${project.clientID}:ip:${ip}`,
+				...(identifier
+					? [`${group}:${project.clientID}:id:${identifier}`]
+					: []),
+			],
+			settings[group],
+		);
+		const headers = getRateLimitHeaders(result);
+
+		if (!result.allowed) {
+			// logged once per key and window, not one D1 write per refused request
+			if (result.firstBlocked)
+				await insertLog({
+					type: "warning",
+					message: `rate_limited: too many ${group} requests from ${ip}${identifier ? ` for ${identifier}` : ""}`,
+					clientID: project.clientID,
+					context: {
+						event: "rate_limited",
+						group,
+						ip,
+						identifier: identifier ?? null,
+						retry_after: result.reset,
+					},
+					database: c.env.AUTH_DB,
+					endpoint: new URL(c.req.url).pathname,
+				});
+			return c.json(
+				{ error: "rate_limited", retry_after: result.reset },
+				429,
+				headers,
+			);
+		}
+
+		await next();
+		for (const [name, value] of Object.entries(headers)) c.header(name, value);
+	});
+}
+
+/**
+ * Identifier submitted to the password and code providers.
+ */
+async function getFormIdentifier(c: EndpointCtx) {
+	const form = await c.req.raw
+		.clone()
+		.formData()
+		.catch(() => undefined);
+	const identifier = form?.get("email") ?? form?.get("phone");
+	return typeof identifier === "string" && identifier ? identifier : undefined;
+}
+
 // Utility Endpoints /////////////////////////////////////////////////////////
 
 /**
@@ -215,6 +405,22 @@ endpoints
 					maxAge: 60 * 60 * 24, // 1 day
 				});
 			}
+			if (params.url.searchParams.has("link_id")) {
+				setCookie(c, COOKIE_LINK_ID, params.linkID ?? "", {
+					httpOnly: true,
+					secure: true,
+					sameSite: "Lax",
+					maxAge: ACCOUNT_LINK_TTL_SECONDS,
+				});
+			}
+			if (params.url.searchParams.has("ui_locales")) {
+				setCookie(c, COOKIE_UI_LOCALES, params.uiLocales ?? "", {
+					httpOnly: true,
+					secure: true,
+					sameSite: "Lax",
+					maxAge: 60 * 60 * 24, // 1 day
+				});
+			}
 		}),
 	)
 	.use("*", async (c, next) => {
@@ -293,6 +499,8 @@ async function requestToParams(request: Request, env: Env): Promise<Params> {
 		null;
 	const copyIDParams = url.searchParams.get("copy_id")?.toString() || null;
 	const inviteID = url.searchParams.get("invite_id")?.toString() || null;
+	const uiLocales = url.searchParams.get("ui_locales")?.toString() || null;
+	const linkID = url.searchParams.get("link_id")?.toString() || null;
 
 	log(
 		`Parsed params - clientIDParams: ${clientIDParams}, cookies: ${JSON.stringify(
@@ -317,6 +525,8 @@ async function requestToParams(request: Request, env: Env): Promise<Params> {
 		clientID: clientIDParams || null,
 		copyID: copyIDParams || cookies[COOKIE_COPY_TEMPLATE_ID] || null,
 		inviteID: inviteID || cookies[COOKIE_INVITE_ID] || null,
+		uiLocales: uiLocales || cookies[COOKIE_UI_LOCALES] || null,
+		linkID: linkID || cookies[COOKIE_LINK_ID] || null,
 	};
 }
 
@@ -350,6 +560,11 @@ const user_users_endpoints_middleware = createMiddleware(async (c, next) => {
 	return next();
 });
 
+const managementRateLimit = rateLimit("management");
+endpoints.use("/user/*", managementRateLimit);
+endpoints.use("/users/*", managementRateLimit);
+endpoints.use("/users", managementRateLimit);
+
 endpoints.use("/user/*", user_users_endpoints_middleware);
 endpoints.use("/users/*", user_users_endpoints_middleware);
 endpoints.use("/users", user_users_endpoints_middleware);
@@ -362,30 +577,69 @@ endpoints.put("/user/role", async (c) => {
 		url: c.req.url,
 	});
 
-	const { user_id, role } = (await c.req.json()) as {
+	const { user_id, role, roles, permissions } = (await c.req.json()) as {
 		user_id: string;
-		role: string;
+		role?: string;
+		/** additional roles, replaces the current ones */
+		roles?: string[];
+		/** permissions granted to the user directly, replaces the current ones */
+		permissions?: string[];
 	};
 
-	if (!role) {
+	if (!role && !roles && !permissions) {
 		return c.json({ error: "Role is required" }, 400);
 	} else if (!user_id) {
 		return c.json({ error: "User ID is required" }, 400);
+	} else if (
+		(roles && !isStringArray(roles)) ||
+		(permissions && !isStringArray(permissions))
+	) {
+		return c.json(
+			{ error: "Roles and permissions must be arrays of strings" },
+			400,
+		);
 	}
 
 	const db = drizzle(c.env.AUTH_DB);
 	try {
 		const userTable = OTFusersTable(clientID);
-		const [userData] = await db
-			.update(userTable)
-			.set({ role })
-			.where(eq(userTable.id, user_id))
-			.returning();
+		const userData = role
+			? await db
+					.update(userTable)
+					.set({ role })
+					.where(eq(userTable.id, user_id))
+					.returning()
+					.get()
+			: await db
+					.select()
+					.from(userTable)
+					.where(eq(userTable.id, user_id))
+					.get();
 
 		if (!userData) {
 			return c.json({ error: "User not found" }, 404);
 		}
 
+		if (roles || permissions) {
+			await db
+				.insert(userRolesTable)
+				.values({
+					user_id,
+					clientID,
+					roles: roles ?? [],
+					permissions: permissions ?? [],
+				})
+				.onConflictDoUpdate({
+					target: userRolesTable.user_id,
+					set: {
+						clientID,
+						...(roles ? { roles } : {}),
+						...(permissions ? { permissions } : {}),
+					},
+				})
+				.run();
+		}
+
 		const responseBody: UserResponseSchemaType = {
 			success: true,
 			data: {
@@ -531,6 +785,7 @@ endpoints
 			if (!deleteResult.success) {
 				return c.json({ error: deleteResult.error }, deleteResult.status);
 			}
+			await deleteUserIdentities({ env: c.env, clientID, userID });
 
 			return c.json(
 				{
@@ -653,6 +908,8 @@ endpoints
 		}
 	});
 
+endpoints.use("/session/*", rateLimit("session"));
+
 /**
  * Public session data management for the authenticated user
  */
@@ -948,6 +1205,140 @@ endpoints
 		}
 	});
 
+/**
+ * Sign out the authenticated user from every device by revoking all their refresh tokens
+ */
+endpoints.post("/session/logout-all", async (c) => {
+	const userInfo = c.get("userInfo");
+	try {
+		const revoked = await revokeUserSessions({
+			env: c.env,
+			project: c.get("project"),
+			userID: userInfo.id,
+			revokedBy: "user",
+			request: c.req.raw,
+		});
+		return c.json({ success: true, data: { revoked } }, 200);
+	} catch (err) {
+		throw new RequestError({
+			message: err instanceof Error ? err.message : String(err),
+			status: 500,
+			endpoint: "/session/logout-all",
+			params: c.get("params"),
+			project: c.get("project"),
+			request: c.req.raw,
+		});
+	}
+});
+
+/**
+ * Signed in devices of the authenticated user
+ * Endpoints:
+ * - GET /session/devices - list the active sessions, `current` marks the one of the token
+ * - DELETE /session/devices/:sessionID - sign out a device
+ */
+endpoints
+	.get("/session/devices", async (c) => {
+		const userInfo = c.get("userInfo");
+		const sessions = await listUserSessions({
+			env: c.env,
+			clientID: userInfo.clientID,
+			userID: userInfo.id,
+		});
+		return c.json({
+			success: true,
+			data: sessions.map((session) => ({
+				...session,
+				current: session.id === userInfo.sid,
+			})),
+		});
+	})
+	.delete("/session/devices/:sessionID", async (c) => {
+		const userInfo = c.get("userInfo");
+		const result = await revokeUserSession({
+			userID: userInfo.id,
+			project: c.get("project"),
+			sessionID: c.req.param("sessionID"),
+			revokedBy: "user",
+			env: c.env,
+			request: c.req.raw,
+		});
+		if (result.error) return c.json({ error: result.error }, result.status);
+		return c.json({ success: true, data: null });
+	});
+
+/**
+ * Token revocation (RFC 7009), only refresh tokens can be revoked:
+ * access tokens are stateless and stay valid until they expire.
+ */
+endpoints.post("/revoke", async (c) => {
+	const form = await c.req.parseBody();
+	const token = typeof form.token === "string" ? form.token : undefined;
+	const clientID =
+		(typeof form.client_id === "string" ? form.client_id : undefined) ??
+		c.get("params").clientID;
+
+	// the client id names the storage table of the project, only trust the one of a known project
+	const project = clientID
+		? await getProject({ id: clientID, env: c.env, ctx: c })
+		: undefined;
+	if (!project) return c.json({ error: "invalid_client" }, 401);
+	if (!token) return c.json({ error: "invalid_request" }, 400);
+	if (!parseRefreshToken(token)) {
+		// unknown tokens are ignored, only refuse the access tokens we cannot revoke
+		return form.token_type_hint === "access_token"
+			? c.json({ error: "unsupported_token_type" }, 400)
+			: c.body(null, 200);
+	}
+
+	const revoked = await revokeRefreshToken(
+		getIssuerStorage(c.env, project.clientID),
+		token,
+		project.clientID,
+	);
+	if (revoked?.properties.sid) {
+		await drizzle(c.env.AUTH_DB)
+			.delete(userSessionsTable)
+			.where(
+				and(
+					eq(userSessionsTable.id, revoked.properties.sid),
+					eq(userSessionsTable.clientID, project.clientID),
+				),
+			)
+			.run();
+	}
+	return c.body(null, 200);
+});
+
+/**
+ * Token introspection (RFC 7662) for the project backend, authenticated with the project secret.
+ * Tokens of a signed out session are reported as inactive.
+ */
+endpoints.post("/introspect", async (c) => {
+	const project = c.get("project");
+	if (!project) return c.json({ error: "invalid_client" }, 401);
+	const secret = await getSecretFromRequest(c.req.raw, project);
+	if (secret.error)
+		return c.json(
+			{ error: "invalid_client", error_description: secret.error },
+			401,
+		);
+
+	const form = await c.req.parseBody();
+	const token = typeof form.token === "string" ? form.token : undefined;
+	if (!token) return c.json({ error: "invalid_request" }, 400);
+
+	return c.json(
+		await introspectToken({
+			token,
+			project,
+			env: c.env,
+			ctx: c.executionCtx as ExecutionContext,
+			request: c.req.raw,
+		}),
+	);
+});
+
 /**
  * User management from the client side
  * Endpoints:
@@ -987,6 +1378,11 @@ endpoints.delete("/manage/user", async (c) => {
 				deleteResult.status,
 			);
 		}
+		await deleteUserIdentities({
+			env: c.env,
+			clientID: project.clientID,
+			userID: userInfo.id,
+		});
 
 		return c.json(
 			{
@@ -1076,10 +1472,38 @@ endpoints.use(
 	}),
 );
 
-function totpResponse<Data>(data: TOTPResponse<Data>): TOTPResponse<Data> {
+function totpResponse<Data>(
+	data: TOTPResponse<Data> | TOTPLockedResponse,
+): TOTPResponse<Data> | TOTPLockedResponse {
 	return data;
 }
 
+function tooManyAttemptsResponse(c: EndpointCtx, retryAfter: number) {
+	return c.json(
+		totpResponse({
+			success: false,
+			error: "too_many_attempts",
+			error_description: `Too many failed attempts, retry in ${retryAfter} seconds`,
+			retry_after: retryAfter,
+		}),
+		429,
+		{ "Retry-After": retryAfter.toString() },
+	);
+}
+
+/**
+ * Record a failed code attempt and answer with either the lockout or the given error response.
+ */
+async function rejectMFAAttempt(
+	c: EndpointCtx,
+	guard: MFAAttemptGuard,
+	error: TotpError["type"],
+) {
+	const retryAfter = await guard.recordFailure();
+	if (retryAfter) return tooManyAttemptsResponse(c, retryAfter);
+	return c.json(totpResponse({ error, success: false }), 400);
+}
+
 function getElevatedTokenFromRequest(request: Request): string | null {
 	return request.headers.get("x-elevated-token");
 }
@@ -1127,6 +1551,34 @@ async function isElevatedTokenValid({
 	return { valid: true };
 }
 
+/**
+ * Issue a short-lived elevated token (sent back through the `x-elevated-token` header) after a successful step-up verification.
+ */
+async function createElevatedToken({
+	userID,
+	clientID,
+	env,
+}: {
+	userID: string;
+	clientID: string;
+	env: Env;
+}) {
+	return (
+		await drizzle(env.AUTH_DB)
+			.insert(totpTokenTable)
+			.values({
+				token: crypto.randomUUID(),
+				clientID,
+				user_id: userID,
+				token_expires_at: new Date(
+					Date.now() + TOTP_TOKEN_EXPIRATION_MS,
+				).toISOString(),
+				created_at: new Date().toISOString(),
+			})
+			.returning()
+	).at(0);
+}
+
 async function removeBackupCodeFromDB({
 	userID,
 	clientID,
@@ -1227,20 +1679,28 @@ async function removeTOTPForUser({
 		.delete(totpTable)
 		.where(and(eq(totpTable.user_id, userID), eq(totpTable.clientID, clientID)))
 		.run();
+	await resetTOTPStep({ db, userID, clientID });
+	await setTOTPSecretKeyID({ db, userID, clientID, keyID: null });
+	await setUserTOTPParams({ db, userID, clientID, params: null });
 }
 
 async function generateTOTP({
 	label,
 	project,
 	secret,
+	params = DEFAULT_TOTP_PARAMS,
+	secretSize = 20,
 }: {
 	label: string;
 	project: Project;
 	secret?: string;
+	params?: TOTPParams;
+	/** size in bytes of the generated secret, when `secret` is not provided */
+	secretSize?: number;
 }) {
 	const { Secret, TOTP } = await import("otpauth");
 
-	const base32Secret = secret ?? new Secret({ size: 20 }).base32;
+	const base32Secret = secret ?? new Secret({ size: secretSize }).base32;
 
 	return {
 		totp: new TOTP({
@@ -1248,80 +1708,380 @@ async function generateTOTP({
 			issuerInLabel: false,
 			label: `${project.name}:${label}`,
 			secret: base32Secret,
-			algorithm: "SHA1",
-			digits: 6,
-			period: 30,
+			algorithm: params.algorithm,
+			digits: params.digits,
+			period: params.period,
 		}),
 		secret: base32Secret,
 	};
 }
 
-const TOTP_VALID_WINDOW = 1; // allow codes from 30 seconds before and after
 /**
- * TOTP token expiration time in milliseconds. After this time, the user will need to re-verify TOTP to get a new token.
+ * Get the TOTP parameters the user enrolled with.
  */
-const TOTP_TOKEN_EXPIRATION_MS = 5 * 60 * 1000; // 5 minutes
+async function getUserTOTPParams({
+	db,
+	userID,
+	clientID,
+}: {
+	db: DrizzleD1Database;
+	userID: string;
+	clientID: string;
+}): Promise<TOTPParams> {
+	const params = await db
+		.select({
+			algorithm: totpParamsTable.algorithm,
+			digits: totpParamsTable.digits,
+			period: totpParamsTable.period,
+		})
+		.from(totpParamsTable)
+		.where(
+			and(
+				eq(totpParamsTable.user_id, userID),
+				eq(totpParamsTable.clientID, clientID),
+			),
+		)
+		.get();
+	return params ?? DEFAULT_TOTP_PARAMS;
+}
 
-endpoints
-	.post("/totp/setup", async (c) => {
-		const project = c.get("project");
-		const userInfo = c.get("userInfo");
-		const db = drizzle(c.env.AUTH_DB);
-		if (
-			await db
-				.select({ id: totpTable.user_id })
-				.from(totpTable)
-				.where(
-					and(
-						eq(totpTable.user_id, userInfo.id),
-						eq(totpTable.clientID, project.clientID),
-						eq(totpTable.is_verified, true),
-					),
-				)
-				.get()
-		) {
-			return c.json(
-				totpResponse({
-					error: "totp_already_setup",
-					success: false,
-				}),
-				400,
-			);
-		}
+async function setUserTOTPParams({
+	db,
+	userID,
+	clientID,
+	params,
+}: {
+	db: DrizzleD1Database;
+	userID: string;
+	clientID: string;
+	params: TOTPParams | null;
+}) {
+	if (!params) {
+		await db
+			.delete(totpParamsTable)
+			.where(eq(totpParamsTable.user_id, userID))
+			.run();
+		return;
+	}
+	const { algorithm, digits, period } = params;
+	await db
+		.insert(totpParamsTable)
+		.values({ user_id: userID, clientID, algorithm, digits, period })
+		.onConflictDoUpdate({
+			target: totpParamsTable.user_id,
+			set: { clientID, algorithm, digits, period },
+		})
+		.run();
+}
 
-		const totp = await generateTOTP({
-			label: userInfoToLabel(userInfo),
-			project,
-		});
+const TOTP_VALID_WINDOW = 1; // allow codes from one period before and after
 
-		const uri = totp.totp.toString();
+function getTOTPKeyring(env: Env) {
+	const { TOTP_ENCRYPTION_KEYS, TOTP_ENCRYPTION_KEY_ID } = env as Env & {
+		TOTP_ENCRYPTION_KEYS?: string;
+		TOTP_ENCRYPTION_KEY_ID?: string;
+	};
+	return parseEncryptionKeyring(TOTP_ENCRYPTION_KEYS, TOTP_ENCRYPTION_KEY_ID);
+}
 
-		const backupCodes = Array.from({ length: 5 }).map(() =>
-			crypto.randomUUID().replaceAll("-", "").slice(0, 10),
-		);
+/**
+ * Response of the endpoints storing a new TOTP secret when `TOTP_ENCRYPTION_KEYS` is missing: secrets
+ * are never stored in plaintext.
+ */
+function totpEncryptionNotConfiguredResponse(c: EndpointCtx) {
+	return c.json(
+		totpResponse({
+			success: false,
+			error: "totp_encryption_not_configured",
+			error_description: "TOTP_ENCRYPTION_KEYS is not configured",
+		}),
+		501,
+	);
+}
 
-		const encryptedBackupCodes = await Promise.all(
-			backupCodes.map(encryptData),
-		);
+/**
+ * Query saving the id of the key a TOTP secret is encrypted with, to run in the same batch as the
+ * secret so a secret is never left without the key to decrypt it.
+ */
+function getTOTPSecretKeyIDQuery({
+	db,
+	userID,
+	clientID,
+	keyID,
+}: {
+	db: DrizzleD1Database;
+	userID: string;
+	clientID: string;
+	keyID: string | null;
+}) {
+	if (!keyID)
+		return db
+			.delete(totpSecretKeysTable)
+			.where(eq(totpSecretKeysTable.user_id, userID));
+	return db
+		.insert(totpSecretKeysTable)
+		.values({ user_id: userID, clientID, key_id: keyID })
+		.onConflictDoUpdate({
+			target: totpSecretKeysTable.user_id,
+			set: { clientID, key_id: keyID },
+		});
+}
 
-		await db
-			.insert(totpTable)
-			.values({
-				clientID: project.clientID,
-				user_id: userInfo.id,
-				secret: totp.secret,
-				created_at: new Date().toISOString(),
-				backup_codes: encryptedBackupCodes,
-			})
-			.onConflictDoUpdate({
-				target: totpTable.user_id,
-				set: {
-					secret: totp.secret,
+async function setTOTPSecretKeyID(
+	options: Parameters<typeof getTOTPSecretKeyIDQuery>[0],
+) {
+	await getTOTPSecretKeyIDQuery(options).run();
+}
+
+/**
+ * Decrypt a secret read from `totpTable`, plaintext secrets (stored before encryption was enabled) are returned as is.
+ */
+async function decryptTOTPSecret({
+	secret,
+	userID,
+	clientID,
+	env,
+}: {
+	secret: string;
+	userID: string;
+	clientID: string;
+	env: Env;
+}) {
+	const key = await drizzle(env.AUTH_DB)
+		.select({ key_id: totpSecretKeysTable.key_id })
+		.from(totpSecretKeysTable)
+		.where(
+			and(
+				eq(totpSecretKeysTable.user_id, userID),
+				eq(totpSecretKeysTable.clientID, clientID),
+			),
+		)
+		.get();
+	if (!key) return secret;
+
+	const keyring = getTOTPKeyring(env);
+	if (!keyring)
+		throw new Error(
+			"TOTP secret is encrypted but TOTP_ENCRYPTION_KEYS is not configured",
+		);
+	return decryptSecret(secret, key.key_id, keyring);
+}
+
+/**
+ * Validate a TOTP code and consume its time step, so a code (or an older code of the window) cannot be replayed.
+ * @returns `true` if the code is valid and was not used before.
+ */
+async function consumeTOTPCode({
+	totp,
+	code,
+	userID,
+	clientID,
+	env,
+}: {
+	totp: TOTP;
+	code: string;
+	userID: string;
+	clientID: string;
+	env: Env;
+}): Promise<boolean> {
+	const db = drizzle(env.AUTH_DB);
+	const last = await db
+		.select({ last_step: totpStepsTable.last_step })
+		.from(totpStepsTable)
+		.where(
+			and(
+				eq(totpStepsTable.user_id, userID),
+				eq(totpStepsTable.clientID, clientID),
+			),
+		)
+		.get();
+
+	const step = getAcceptedTOTPStep({
+		totp,
+		token: code,
+		window: TOTP_VALID_WINDOW,
+		lastStep: last?.last_step,
+	});
+	if (step === null) return false;
+
+	// conditional upsert: a concurrent request consuming the same step loses the race
+	const result = await db
+		.insert(totpStepsTable)
+		.values({ user_id: userID, clientID, last_step: step })
+		.onConflictDoUpdate({
+			target: totpStepsTable.user_id,
+			set: { clientID, last_step: step },
+			setWhere: lt(totpStepsTable.last_step, step),
+		})
+		.run();
+
+	return result.meta.changes > 0;
+}
+
+/**
+ * Check a code against the user's verified TOTP, consuming its time step.
+ * @returns `null` if the user has no verified TOTP.
+ */
+async function verifyUserTOTPCode({
+	env,
+	project,
+	userID,
+	label,
+	code,
+}: {
+	env: Env;
+	project: Project;
+	userID: string;
+	label: string;
+	code: string;
+}): Promise<boolean | null> {
+	const db = drizzle(env.AUTH_DB);
+	const user_totp = await db
+		.select({ secret: totpTable.secret })
+		.from(totpTable)
+		.where(
+			and(
+				eq(totpTable.user_id, userID),
+				eq(totpTable.clientID, project.clientID),
+				eq(totpTable.is_verified, true),
+			),
+		)
+		.get();
+
+	if (!user_totp) return null;
+
+	const { totp } = await generateTOTP({
+		label,
+		project,
+		secret: await decryptTOTPSecret({
+			secret: user_totp.secret,
+			userID,
+			clientID: project.clientID,
+			env,
+		}),
+		params: await getUserTOTPParams({
+			db,
+			userID,
+			clientID: project.clientID,
+		}),
+	});
+
+	return consumeTOTPCode({
+		totp,
+		code,
+		userID,
+		clientID: project.clientID,
+		env,
+	});
+}
+
+/**
+ * Forget the last used time step, to be called whenever the TOTP secret is replaced or removed.
+ */
+async function resetTOTPStep({
+	db,
+	userID,
+	clientID,
+}: {
+	db: DrizzleD1Database;
+	userID: string;
+	clientID: string;
+}) {
+	await db
+		.delete(totpStepsTable)
+		.where(
+			and(
+				eq(totpStepsTable.user_id, userID),
+				eq(totpStepsTable.clientID, clientID),
+			),
+		)
+		.run();
+}
+/**
+ * TOTP token expiration time in milliseconds. After this time, the user will need to re-verify TOTP to get a new token.
+ */
+const TOTP_TOKEN_EXPIRATION_MS = 5 * 60 * 1000; // 5 minutes
+
+endpoints
+	.post("/totp/setup", async (c) => {
+		const project = c.get("project");
+		const userInfo = c.get("userInfo");
+		const db = drizzle(c.env.AUTH_DB);
+		if (
+			await db
+				.select({ id: totpTable.user_id })
+				.from(totpTable)
+				.where(
+					and(
+						eq(totpTable.user_id, userInfo.id),
+						eq(totpTable.clientID, project.clientID),
+						eq(totpTable.is_verified, true),
+					),
+				)
+				.get()
+		) {
+			return c.json(
+				totpResponse({
+					error: "totp_already_setup",
+					success: false,
+				}),
+				400,
+			);
+		}
+
+		const keyring = getTOTPKeyring(c.env);
+		if (!keyring) return totpEncryptionNotConfiguredResponse(c);
+
+		const settings = getTOTPSettings(project);
+		const totp = await generateTOTP({
+			label: userInfoToLabel(userInfo),
+			project,
+			params: settings,
+			secretSize: settings.secretSize,
+		});
+
+		const uri = totp.totp.toString();
+
+		const { backupCodes, encryptedBackupCodes } =
+			await generateBackupCodes(settings);
+		const encryptedSecret = await encryptSecret(totp.secret, keyring);
+
+		await db.batch([
+			db
+				.insert(totpTable)
+				.values({
+					clientID: project.clientID,
+					user_id: userInfo.id,
+					secret: encryptedSecret.secret,
 					created_at: new Date().toISOString(),
 					backup_codes: encryptedBackupCodes,
-				},
-			})
-			.run();
+				})
+				.onConflictDoUpdate({
+					target: totpTable.user_id,
+					set: {
+						secret: encryptedSecret.secret,
+						created_at: new Date().toISOString(),
+						backup_codes: encryptedBackupCodes,
+					},
+				}),
+			getTOTPSecretKeyIDQuery({
+				db,
+				userID: userInfo.id,
+				clientID: project.clientID,
+				keyID: encryptedSecret.keyID,
+			}),
+		]);
+		await setUserTOTPParams({
+			db,
+			userID: userInfo.id,
+			clientID: project.clientID,
+			params: settings,
+		});
+		await resetTOTPStep({
+			db,
+			userID: userInfo.id,
+			clientID: project.clientID,
+		});
 
 		await new WebHook({
 			db: c.env.AUTH_DB,
@@ -1396,22 +2156,35 @@ endpoints
 			);
 		}
 
-		const { TOTP } = await import("otpauth");
 		const project =
 			(c.get("project") as Project) ||
 			(await getProjectById(c.get("params").clientID as string, c.env));
 
-		const totp = new TOTP({
-			issuer: project.clientID,
-			secret: user_totp.secret,
-			algorithm: "SHA1",
-			digits: 6,
-			period: 30,
+		const { totp } = await generateTOTP({
+			label: userInfoToLabel(userInfo),
+			project,
+			secret: await decryptTOTPSecret({
+				secret: user_totp.secret,
+				userID: user_totp.user_id,
+				clientID: user_totp.clientID,
+				env: c.env,
+			}),
+			params: await getUserTOTPParams({
+				db,
+				userID: user_totp.user_id,
+				clientID: user_totp.clientID,
+			}),
 		});
 
-		const delta = totp.validate({ token: code, window: TOTP_VALID_WINDOW });
+		const codeValid = await consumeTOTPCode({
+			totp,
+			code,
+			userID: user_totp.user_id,
+			clientID: user_totp.clientID,
+			env: c.env,
+		});
 
-		if (delta === null) {
+		if (!codeValid) {
 			return c.json(
 				totpResponse({ error: "invalid_code", success: false }),
 				400,
@@ -1511,6 +2284,10 @@ endpoints
 		const backupCode = (await c.req.json()) as { code?: string };
 
 		if (backupCode.code) {
+			const guard = new MFAAttemptGuard(c.env, project, userInfo.id, c.req.raw);
+			const lockedFor = await guard.retryAfter();
+			if (lockedFor) return tooManyAttemptsResponse(c, lockedFor);
+
 			const backupCodeValid = await isValidBackupCode({
 				code: backupCode.code,
 				userID: userInfo.id,
@@ -1518,7 +2295,9 @@ endpoints
 				env: c.env,
 			});
 
-			if (!backupCodeValid.valid) {
+			if (backupCodeValid.error === "totp_backup_code_invalid") {
+				return rejectMFAAttempt(c, guard, backupCodeValid.error);
+			} else if (!backupCodeValid.valid) {
 				return c.json(
 					totpResponse({
 						error: backupCodeValid.error || "invalid_backup_code",
@@ -1527,6 +2306,7 @@ endpoints
 					400,
 				);
 			}
+			await guard.recordSuccess();
 
 			await removeTOTPForUser({
 				userID: userInfo.id,
@@ -1575,59 +2355,34 @@ endpoints
 			);
 		const project = c.get("project");
 		const userInfo = c.get("userInfo");
-		const db = drizzle(c.env.AUTH_DB);
 
-		const user_totp = await db
-			.select()
-			.from(totpTable)
-			.where(
-				and(
-					eq(totpTable.user_id, userInfo.id),
-					eq(totpTable.clientID, project.clientID),
-					eq(totpTable.is_verified, true),
-				),
-			)
-			.get();
-
-		if (!user_totp) {
-			return c.json(
-				totpResponse({ error: "totp_not_setup", success: false }),
-				404,
-			);
-		}
+		const guard = new MFAAttemptGuard(c.env, project, userInfo.id, c.req.raw);
+		const lockedFor = await guard.retryAfter();
+		if (lockedFor) return tooManyAttemptsResponse(c, lockedFor);
 
-		const totp = await generateTOTP({
-			label: userInfoToLabel(userInfo),
+		const codeValid = await verifyUserTOTPCode({
+			env: c.env,
 			project,
-			secret: user_totp.secret,
-		});
-
-		const delta = totp.totp.validate({
-			token: code,
-			window: TOTP_VALID_WINDOW,
+			userID: userInfo.id,
+			label: userInfoToLabel(userInfo),
+			code,
 		});
 
-		if (delta === null) {
+		if (codeValid === null) {
 			return c.json(
-				totpResponse({ error: "invalid_code", success: false }),
-				400,
+				totpResponse({ error: "totp_not_setup", success: false }),
+				404,
 			);
+		} else if (!codeValid) {
+			return rejectMFAAttempt(c, guard, "invalid_code");
 		}
+		await guard.recordSuccess();
 
-		const res = (
-			await db
-				.insert(totpTokenTable)
-				.values({
-					token: crypto.randomUUID(),
-					clientID: project.clientID,
-					user_id: userInfo.id,
-					token_expires_at: new Date(
-						Date.now() + TOTP_TOKEN_EXPIRATION_MS,
-					).toISOString(),
-					created_at: new Date().toISOString(),
-				})
-				.returning()
-		).at(0);
+		const res = await createElevatedToken({
+			userID: userInfo.id,
+			clientID: project.clientID,
+			env: c.env,
+		});
 
 		if (!res?.token)
 			return c.json(
@@ -1670,6 +2425,10 @@ endpoints
 		const userInfo = c.get("userInfo");
 		const project = c.get("project");
 
+		const guard = new MFAAttemptGuard(c.env, project, userInfo.id, c.req.raw);
+		const lockedFor = await guard.retryAfter();
+		if (lockedFor) return tooManyAttemptsResponse(c, lockedFor);
+
 		const backupCodeValid = await isValidBackupCode({
 			code,
 			userID: userInfo.id,
@@ -1677,7 +2436,9 @@ endpoints
 			env: c.env,
 		});
 
-		if (!backupCodeValid.valid) {
+		if (backupCodeValid.error === "totp_backup_code_invalid") {
+			return rejectMFAAttempt(c, guard, backupCodeValid.error);
+		} else if (!backupCodeValid.valid) {
 			return c.json(
 				totpResponse({
 					error: backupCodeValid.error || "invalid_backup_code",
@@ -1686,28 +2447,54 @@ endpoints
 				400,
 			);
 		}
+		await guard.recordSuccess();
 
+		const keyring = getTOTPKeyring(c.env);
+		if (!keyring) return totpEncryptionNotConfiguredResponse(c);
+
+		const settings = getTOTPSettings(project);
 		const totp = await generateTOTP({
 			label: userInfoToLabel(userInfo),
 			project,
+			params: settings,
+			secretSize: settings.secretSize,
 		});
 
 		const db = drizzle(c.env.AUTH_DB);
-
-		await db
-			.update(totpTable)
-			.set({
-				secret: totp.secret,
-				is_verified: false,
-				created_at: new Date().toISOString(),
-			})
-			.where(
-				and(
-					eq(totpTable.user_id, userInfo.id),
-					eq(totpTable.clientID, project.clientID),
+		const encryptedSecret = await encryptSecret(totp.secret, keyring);
+
+		await db.batch([
+			db
+				.update(totpTable)
+				.set({
+					secret: encryptedSecret.secret,
+					is_verified: false,
+					created_at: new Date().toISOString(),
+				})
+				.where(
+					and(
+						eq(totpTable.user_id, userInfo.id),
+						eq(totpTable.clientID, project.clientID),
+					),
 				),
-			)
-			.run();
+			getTOTPSecretKeyIDQuery({
+				db,
+				userID: userInfo.id,
+				clientID: project.clientID,
+				keyID: encryptedSecret.keyID,
+			}),
+		]);
+		await setUserTOTPParams({
+			db,
+			userID: userInfo.id,
+			clientID: project.clientID,
+			params: settings,
+		});
+		await resetTOTPStep({
+			db,
+			userID: userInfo.id,
+			clientID: project.clientID,
+		});
 
 		await backupCodeValid.removeCode();
 
@@ -1739,21 +2526,19 @@ endpoints
 		const userInfo = c.get("userInfo");
 		const project = c.get("project");
 
-		const totp_user = await drizzle(c.env.AUTH_DB)
-			.select({
-				secret: totpTable.secret,
-			})
-			.from(totpTable)
-			.where(
-				and(
-					eq(totpTable.user_id, userInfo.id),
-					eq(totpTable.clientID, project.clientID),
-					eq(totpTable.is_verified, true),
-				),
-			)
-			.get();
+		const guard = new MFAAttemptGuard(c.env, project, userInfo.id, c.req.raw);
+		const lockedFor = await guard.retryAfter();
+		if (lockedFor) return tooManyAttemptsResponse(c, lockedFor);
+
+		const codeValid = await verifyUserTOTPCode({
+			env: c.env,
+			project,
+			userID: userInfo.id,
+			label: userInfoToLabel(userInfo),
+			code,
+		});
 
-		if (!totp_user) {
+		if (codeValid === null) {
 			return c.json(
 				totpResponse({
 					error: "totp_not_setup",
@@ -1761,41 +2546,101 @@ endpoints
 				}),
 				404,
 			);
+		} else if (!codeValid) {
+			return rejectMFAAttempt(c, guard, "invalid_code");
 		}
+		await guard.recordSuccess();
 
-		const delta = (
-			await generateTOTP({
-				label: userInfoToLabel(userInfo),
-				project,
-				secret: totp_user?.secret,
-			})
-		).totp.validate({
-			token: code,
-			window: TOTP_VALID_WINDOW,
+		return c.json(totpResponse({ success: true, data: null }), 200);
+	})
+	.post("/totp/backup-codes/regenerate", async (c) => {
+		const userInfo = c.get("userInfo");
+		const project = c.get("project");
+
+		const result = await regenerateBackupCodes({
+			elevatedToken: getElevatedTokenFromRequest(c.req.raw),
+			settings: getTOTPSettings(project),
+			isElevatedTokenValid: (token) =>
+				isElevatedTokenValid({
+					token,
+					userID: userInfo.id,
+					clientID: project.clientID,
+					env: c.env,
+				}),
+			replaceBackupCodes: async (hashes) => {
+				const { meta } = await drizzle(c.env.AUTH_DB)
+					.update(totpTable)
+					.set({ backup_codes: hashes })
+					.where(
+						and(
+							eq(totpTable.user_id, userInfo.id),
+							eq(totpTable.clientID, project.clientID),
+							eq(totpTable.is_verified, true),
+						),
+					)
+					.run();
+				return meta.changes > 0;
+			},
 		});
 
-		if (delta === null) {
+		if (!result.success) {
 			return c.json(
-				totpResponse({ error: "invalid_code", success: false }),
-				400,
+				totpResponse({ error: result.error, success: false }),
+				result.status,
 			);
 		}
+		const { backupCodes } = result;
 
-		return c.json(totpResponse({ success: true, data: null }), 200);
+		await new WebHook({ db: c.env.AUTH_DB }).trigger({
+			clientID: project.clientID,
+			event: "mfa_backup_codes_regenerated",
+			data: {
+				userID: userInfo.id,
+				count: backupCodes.length,
+			},
+			request: c.req.raw,
+			secret: project.secret,
+			log: true,
+		});
+
+		return c.json(
+			totpResponse<{ backupCodes: string[] }>({
+				success: true,
+				data: { backupCodes },
+			}),
+			200,
+		);
 	})
 	.get("/totp/status", async (c) => {
 		const userInfo = c.get("userInfo");
 		const project = c.get("project");
+		const db = drizzle(c.env.AUTH_DB);
 		const totp_user = await getUserMFATOTP({
-			db: drizzle(c.env.AUTH_DB),
+			db,
 			userID: userInfo.id,
 			clientID: project.clientID,
 		});
+		const settings = getTOTPSettings(project);
+		// enrolled users keep the parameters of their authenticator app
+		const params = totp_user?.verified
+			? await getUserTOTPParams({
+					db,
+					userID: userInfo.id,
+					clientID: project.clientID,
+				})
+			: settings;
 		return c.json(
 			totpResponse({
 				success: true,
 				data: {
 					totp_enabled: totp_user?.verified ?? false,
+					algorithm: params.algorithm,
+					digits: params.digits,
+					period: params.period,
+					backup_codes_count: settings.backupCodesCount,
+					backup_codes_remaining: totp_user?.verified
+						? totp_user.backup_codes.length
+						: 0,
 				},
 			}),
 			200,
@@ -1803,6 +2648,20 @@ endpoints
 	});
 
 // passkey endpoints ///////////////////////////////////////////////////////////
+
+/**
+ * Resolve the WebAuthn origin and relying party ID from the request's authorized origin.
+ */
+function getPasskeyRelyingParty(c: EndpointCtx) {
+	const origin = toAuthorizeOrigin({
+		request: c.req.raw,
+		project: c.get("project"),
+		env: c.env,
+		defaultOrigin: "*",
+	});
+	return { origin, rpID: new URL(origin).hostname };
+}
+
 endpoints.use("/passkey/register/*", userInfoRetriver);
 endpoints
 	.post("/passkey/register/start", async (c) => {
@@ -1854,7 +2713,7 @@ endpoints
 			id: challengeId,
 			clientID: userInfo.clientID,
 			challenge: options.challenge,
-			expires_at: new Date(Date.now() + 5 * 60 * 1000).toISOString(),
+			expires_at: new Date(Date.now() + PASSKEY_CHALLENGE_TTL_MS).toISOString(),
 			created_at: new Date().toISOString(),
 		});
 
@@ -1877,10 +2736,7 @@ endpoints
 			.where(and(eq(webauthnChallengesTable.id, challengeId)))
 			.get();
 
-		if (
-			!DBchallenge ||
-			new Date(DBchallenge.expires_at).getTime() < Date.now()
-		) {
+		if (!isPasskeyChallengeActive(DBchallenge)) {
 			return c.json({ error: "Challenge invalide ou expiré" }, 400);
 		}
 
@@ -1944,297 +2800,1899 @@ endpoints
 		return c.json({ error: "Vérification échouée" }, 400);
 	});
 
-// admin endpoints //////////////////////////////////////////////////
+/**
+ * Generate the assertion options for the user's registered passkeys and store the challenge.
+ * @returns `null` if the user has no passkey.
+ */
+async function startPasskeyAssertion({
+	env,
+	project,
+	userID,
+	rpID,
+}: {
+	env: Env;
+	project: Project;
+	userID: string;
+	rpID: string;
+}) {
+	const db = drizzle(env.AUTH_DB);
 
-endpoints.use(
-	"/admin/*",
-	createMiddleware(async (c, next) => {
-		const params: Params = c.get("params");
-		const project = await getProject({
-			id: params.clientID as string,
+	const credentials = await db
+		.select({
+			credential_id: webauthnCredentialsTable.credential_id,
+			transports: webauthnCredentialsTable.transports,
+		})
+		.from(webauthnCredentialsTable)
+		.where(
+			and(
+				eq(webauthnCredentialsTable.user_id, userID),
+				eq(webauthnCredentialsTable.clientID, project.clientID),
+			),
+		)
+		.all();
+
+	if (credentials.length === 0) return null;
+
+	const options = await generateAuthenticationOptions({
+		rpID,
+		allowCredentials: credentials.map((cred) => ({
+			id: cred.credential_id as string,
+			transports: (cred.transports ?? []) as AuthenticatorTransportFuture[],
+		})),
+		userVerification: "preferred",
+	});
+
+	const challengeId = crypto.randomUUID();
+
+	await db.insert(webauthnChallengesTable).values({
+		id: challengeId,
+		clientID: project.clientID,
+		challenge: options.challenge,
+		expires_at: new Date(Date.now() + PASSKEY_CHALLENGE_TTL_MS).toISOString(),
+		created_at: new Date().toISOString(),
+	});
+
+	return { challengeId, options };
+}
+
+/**
+ * Verify an assertion against a challenge created by `startPasskeyAssertion` and update the credential counter.
+ */
+async function finishPasskeyAssertion({
+	env,
+	project,
+	userID,
+	challengeId,
+	response,
+	origin,
+	rpID,
+	endpoint,
+}: {
+	env: Env;
+	project: Project;
+	userID: string;
+	challengeId: string;
+	response: AuthenticationResponseJSON;
+	origin: string;
+	rpID: string;
+	endpoint: string;
+}): Promise<{ credentialID: string } | { error: string; status: 400 | 404 }> {
+	const db = drizzle(env.AUTH_DB);
+
+	// a challenge can only be answered once, whatever the outcome: the first request deleting it wins
+	const DBchallenge = await db
+		.delete(webauthnChallengesTable)
+		.where(
+			and(
+				eq(webauthnChallengesTable.id, challengeId),
+				eq(webauthnChallengesTable.clientID, project.clientID),
+			),
+		)
+		.returning()
+		.get();
+
+	const credential = await db
+		.select()
+		.from(webauthnCredentialsTable)
+		.where(
+			and(
+				eq(webauthnCredentialsTable.credential_id, response.id),
+				eq(webauthnCredentialsTable.user_id, userID),
+				eq(webauthnCredentialsTable.clientID, project.clientID),
+			),
+		)
+		.get();
+
+	const verification = await verifyPasskeyAssertion({
+		challenge: DBchallenge,
+		credential,
+		response,
+		origin,
+		rpID,
+	});
+	if ("error" in verification) {
+		if (verification.error === "counter_mismatch" && credential)
+			// The authenticator reported a signature counter that did not increase: the credential may have been cloned.
+			await insertLog({
+				type: "warning",
+				message: `Passkey ${credential.credential_id} rejected for user ${userID}: signature counter did not increase (possible cloned authenticator)`,
+				clientID: project.clientID,
+				context: {
+					userID,
+					credentialID: credential.credential_id,
+					storedCounter: credential.counter,
+				},
+				database: env.AUTH_DB,
+				endpoint,
+			});
+		return {
+			error: verification.message,
+			status: verification.error === "unknown_credential" ? 404 : 400,
+		};
+	}
+
+	await db
+		.update(webauthnCredentialsTable)
+		.set({
+			counter: verification.authenticationInfo.newCounter,
+			device_type: verification.authenticationInfo.credentialDeviceType,
+			backed_up: verification.authenticationInfo.credentialBackedUp,
+		})
+		.where(eq(webauthnCredentialsTable.credential_id, credential.credential_id))
+		.run();
+
+	await getPasskeyStore(env.AUTH_DB, project.clientID).touch(
+		credential.credential_id as string,
+		new Date().toISOString(),
+	);
+
+	return { credentialID: credential.credential_id as string };
+}
+
+/**
+ * Passkey step-up authentication for the signed-in user.
+ * Endpoints:
+ * - POST /passkey/authenticate/start - generate the assertion options for the user's registered passkeys
+ * - POST /passkey/authenticate/finish - verify the assertion and return an elevated token
+ */
+endpoints.use("/passkey/authenticate/*", userInfoRetriver);
+endpoints
+	.post("/passkey/authenticate/start", async (c) => {
+		const assertion = await startPasskeyAssertion({
 			env: c.env,
-			ctx: c,
+			project: c.get("project"),
+			userID: c.get("userInfo").id,
+			rpID: getPasskeyRelyingParty(c).rpID,
 		});
-		if (!project) return c.json({ error: "Project not found" }, 404);
-		const secret = await getSecretFromRequest(c.req.raw, project);
-		if (secret.error)
-			throw new RequestError({
-				message: `Unauthorized: ${secret.error}`,
-				status: 401,
-				endpoint: new URL(c.req.url).pathname,
-				params,
-				project,
-				request: c.req.raw,
-			});
 
-		c.set("project", project);
-		return next();
-	}),
-);
+		if (!assertion) {
+			return c.json({ error: "No passkey registered for this user" }, 404);
+		}
 
-endpoints.delete("/admin/totp/:userID", async (c) => {
-	const { userID } = c.req.param();
-	const project = c.get("project");
+		return c.json(assertion);
+	})
+	.post("/passkey/authenticate/finish", async (c) => {
+		const project = c.get("project");
+		const userInfo = c.get("userInfo");
+		const { challengeId, response } = (await c.req.json()) as {
+			challengeId: string;
+			response: AuthenticationResponseJSON;
+		};
 
-	const db = drizzle(c.env.AUTH_DB);
-	try {
-		await db
-			.delete(totpTable)
-			.where(
-				and(
-					eq(totpTable.user_id, userID),
-					eq(totpTable.clientID, project.clientID),
-				),
-			)
-			.run();
+		if (!challengeId || !response?.id) {
+			return c.json({ error: "Missing challengeId or response" }, 400);
+		}
 
-		await db
-			.delete(totpTokenTable)
-			.where(
-				and(
-					eq(totpTokenTable.user_id, userID),
-					eq(totpTokenTable.clientID, project.clientID),
-				),
-			)
-			.run();
+		const result = await finishPasskeyAssertion({
+			env: c.env,
+			project,
+			userID: userInfo.id,
+			challengeId,
+			response,
+			...getPasskeyRelyingParty(c),
+			endpoint: "/passkey/authenticate/finish",
+		});
 
-		return c.json(totpResponse<null>({ success: true, data: null }), 200);
-	} catch (err) {
-		await insertLog({
-			type: "error",
-			message: `Failed to remove TOTP for user ${userID}: ${err instanceof Error ? err.message : String(err)}`,
+		if ("error" in result) {
+			return c.json({ error: result.error }, result.status);
+		}
+
+		const elevated = await createElevatedToken({
+			userID: userInfo.id,
 			clientID: project.clientID,
-			context: {
-				userID,
-			},
-			database: c.env.AUTH_DB,
+			env: c.env,
 		});
 
-		return c.json(
-			totpResponse<null>({
-				success: false,
-				error: "request_failed",
-				error_description: err instanceof Error ? err.message : String(err),
-			}),
-			500,
-		);
-	}
-});
+		if (!elevated?.token)
+			return c.json({ error: "Failed to generate elevated token" }, 500);
 
-// Options Cors
+		return c.json({
+			success: true,
+			data: { token: elevated.token, expires_at: elevated.token_expires_at },
+		});
+	});
 
 /**
- * Allow CORS preflight requests
+ * Passkey management for the signed-in user.
+ * Endpoints:
+ * - GET /passkey/credentials - list the user's passkeys
+ * - PATCH /passkey/credentials/:id - rename a passkey
+ * - DELETE /passkey/credentials/:id - revoke a passkey
  */
-endpoints.options("*", (c) => {
-	const project = c.get("project") as Project | undefined;
-	const allowOrigin = toAuthorizeOrigin({
-		request: c.req.raw,
-		project,
-		env: c.env,
-		defaultOrigin: "*",
+endpoints.use("/passkey/credentials", userInfoRetriver);
+endpoints.use("/passkey/credentials/*", userInfoRetriver);
+endpoints
+	.get("/passkey/credentials", async (c) => {
+		const userInfo = c.get("userInfo");
+		const credentials = await getPasskeyStore(
+			c.env.AUTH_DB,
+			c.get("project").clientID,
+		).list(userInfo.id);
+		return c.json({ success: true, data: credentials });
+	})
+	.patch("/passkey/credentials/:id", async (c) => {
+		const userInfo = c.get("userInfo");
+		const { name } = (await c.req.json()) as { name?: string };
+		const result = await renamePasskey(
+			getPasskeyStore(c.env.AUTH_DB, c.get("project").clientID),
+			{ userID: userInfo.id, credentialID: c.req.param("id"), name },
+		);
+		if (result.error) return c.json({ error: result.error }, result.status);
+		return c.json({ success: true, data: null });
+	})
+	.delete("/passkey/credentials/:id", async (c) => {
+		const userInfo = c.get("userInfo");
+		const result = await revokeUserPasskey({
+			userID: userInfo.id,
+			project: c.get("project"),
+			credentialID: c.req.param("id"),
+			revokedBy: "user",
+			env: c.env,
+			request: c.req.raw,
+		});
+		if (result.error) return c.json({ error: result.error }, result.status);
+		return c.json({ success: true, data: null });
 	});
 
-	return c.text("ok", 200, {
-		"Access-Control-Allow-Origin": allowOrigin,
-		"Access-Control-Allow-Methods": "GET, PATCH, OPTIONS, DELETE, POST",
-		"Access-Control-Allow-Headers":
-			"Content-Type, Authorization, x-elevated-token",
+async function revokeUserPasskey({
+	userID,
+	project,
+	credentialID,
+	revokedBy,
+	env,
+	request,
+}: {
+	userID: string;
+	project: Project;
+	credentialID: string;
+	revokedBy: "user" | "admin";
+	env: Env;
+	request: Request;
+}): Promise<{ error?: string; status?: 404 }> {
+	const clientID = project.clientID;
+	const result = await revokePasskey(getPasskeyStore(env.AUTH_DB, clientID), {
+		userID,
+		credentialID,
 	});
-});
+	if (result.error) return result;
 
-endpoints.all("*", async (c) => {
-	const params: Params = c.get("params");
-	const project: Project = c.get("project");
-	const getTheme = () => {
-		const isWellKnown = new URL(c.req.raw.url).pathname.startsWith(
-			"/.well-known",
-		);
-		if (isWellKnown || !project) return Promise.resolve(undefined);
-		return getThemeFromProject(project, c.env);
-	};
-	const is = issuer<
-		Record<ProviderType, Provider>,
-		typeof defaultSubjectSchema,
-		{ provider: ProviderType }
-	>({
-		storage: D1Storage({
-			database: c.env.AUTH_DB,
-			table: params.clientID as string,
-		}),
-		ttl: {
-			access: parseInt(
-				(c.env as Env & { ACCESS_TTL?: string }).ACCESS_TTL ?? "900",
-				10,
-			), // 15 minutes in seconds
-			refresh: parseInt(
-				(c.env as Env & { REFRESH_TTL?: string }).REFRESH_TTL ?? "604800",
-				10,
-			), // 7 days in seconds
-			retention: 0,
-			reuse: 60,
+	await new WebHook({ db: env.AUTH_DB }).trigger({
+		clientID,
+		event: "passkey_revoked",
+		data: {
+			userID,
+			credentialID,
+			method: revokedBy,
 		},
-		allow: async (input) => {
-			const incomingUrl = new URL(input.redirectURI);
+		secret: project.secret,
+		log: true,
+		request,
+	});
+	return {};
+}
 
-			// Only allow http and https protocols to prevent protocol-based attacks
-			if (!["http:", "https:"].includes(incomingUrl.protocol)) {
-				return false;
-			}
+// account linking endpoints ///////////////////////////////////////////////////////////
 
-			// Handle localhost/127.0.0.1 with stricter validation
-			if (
-				incomingUrl.hostname === "localhost" ||
-				incomingUrl.hostname === "127.0.0.1"
-			) {
-				// Only allow http for localhost (https typically not configured locally)
-				if (incomingUrl.protocol !== "http:") return false;
-				return true;
-			}
+endpoints.use(
+	"/account/*",
+	createMiddleware(async (c, next) => {
+		const params: Params = c.get("params");
+		// the browser starting a link posts the token with the form
+		const form =
+			c.req.method === "POST" &&
+			/\/account\/link\/[^/]+\/start$/.test(c.req.path)
+				? await c.req.parseBody()
+				: undefined;
+		const userInfo = await ensureToken({
+			token:
+				getTokenFromRequest(c.req.raw) ??
+				(typeof form?.access_token === "string" ? form.access_token : null),
+			clientID: params.clientID as string,
+			env: c.env,
+			ctx: c.executionCtx as ExecutionContext,
+			request: c.req.raw,
+		});
+		c.set("userInfo", userInfo);
+		return next();
+	}),
+);
 
-			if (!project?.originURL) return false;
+/**
+ * Provider identities of the authenticated user
+ * Endpoints:
+ * - GET /account/link - list the identities, `primary` is the one the user registered with
+ * - POST /account/link/:provider - create a link of a provider, `{ redirect_uri, state? }`, returns the
+ *   `link_id` and the `url` the browser posts it to with its `access_token`
+ * - POST /account/link/:provider/start - start the link in the browser, bound to it by a nonce cookie,
+ *   and redirect to the authorize flow of the provider
+ * - DELETE /account/link/:provider - remove the identity of a provider
+ */
+endpoints
+	.get("/account/link", async (c) => {
+		const userInfo = c.get("userInfo");
+		const identities = await getUserIdentities({
+			env: c.env,
+			project: c.get("project"),
+			userID: userInfo.id,
+		});
+		return c.json({
+			success: true,
+			data: identities.map(({ provider_subject, ...identity }) => ({
+				...identity,
+				primary: provider_subject === userInfo.identifier,
+			})),
+		});
+	})
+	.post("/account/link/:provider", async (c) => {
+		const { provider } = c.req.param();
+		const project = c.get("project");
+		const userInfo = c.get("userInfo");
+		if (
+			UNLINKABLE_PROVIDERS.includes(provider) ||
+			!project.providers_data?.some((p) => p.type === provider && p.enabled)
+		)
+			return c.json({ error: `Provider ${provider} can not be linked` }, 400);
 
-			const projectUrl = new URL(
-				toAuthorizeOrigin({
-					request: c.req.raw,
-					project,
-					defaultOrigin: env.ISSUER_URL,
-					env,
-				}),
-			);
+		const body = (await c.req.json().catch(() => null)) as {
+			redirect_uri?: unknown;
+			state?: unknown;
+		} | null;
+		if (
+			typeof body?.redirect_uri !== "string" ||
+			!URL.canParse(body.redirect_uri)
+		)
+			return c.json({ error: "redirect_uri is required" }, 400);
+
+		const id = crypto.randomUUID();
+		const expiresAt = new Date(
+			Date.now() + ACCOUNT_LINK_TTL_SECONDS * 1000,
+		).toISOString();
+		await drizzle(c.env.AUTH_DB)
+			.insert(accountLinkRequestsTable)
+			.values({
+				id,
+				clientID: project.clientID,
+				user_id: userInfo.id,
+				provider,
+				expires_at: expiresAt,
+				redirect_uri: body.redirect_uri,
+				state: typeof body.state === "string" ? body.state : null,
+			})
+			.run();
 
-			// Enforce HTTPS when project URL uses HTTPS (prevent downgrade attacks)
-			if (
-				projectUrl.protocol === "https:" &&
-				incomingUrl.protocol !== "https:"
-			) {
-				return false;
-			}
+		return c.json({
+			success: true,
+			data: {
+				link_id: id,
+				url: new URL(`${c.req.path}/start`, c.req.url).toString(),
+				expires_at: expiresAt,
+			},
+		});
+	})
+	.post("/account/link/:provider/start", async (c) => {
+		const { provider } = c.req.param();
+		const project = c.get("project");
+		const form = await c.req.parseBody();
+		const linkID = typeof form.link_id === "string" ? form.link_id : "";
+		const db = drizzle(c.env.AUTH_DB);
+		const where = and(
+			eq(accountLinkRequestsTable.id, linkID),
+			eq(accountLinkRequestsTable.clientID, project.clientID),
+			eq(accountLinkRequestsTable.provider, provider),
+		);
+		const request = await db
+			.select()
+			.from(accountLinkRequestsTable)
+			.where(where)
+			.get();
+		const error = getAccountLinkStartError(request, c.get("userInfo").id);
+		if (!request || error === "not_found")
+			return c.json({ error: "Link not found" }, 404);
+		if (error)
+			return c.json(
+				{
+					error: error === "expired" ? "Link expired" : "Link already started",
+				},
+				410,
+			);
 
-			// Validate origin match
-			if (incomingUrl.origin === projectUrl.origin) return true;
+		const nonce = crypto.randomUUID();
+		await db
+			.update(accountLinkRequestsTable)
+			.set({ nonce_hash: await hashAccountLinkNonce(nonce) })
+			.where(where)
+			.run();
+		setCookie(c, COOKIE_LINK_NONCE, nonce, {
+			httpOnly: true,
+			secure: true,
+			sameSite: "Lax",
+			maxAge: ACCOUNT_LINK_TTL_SECONDS,
+		});
 
-			return false;
-		},
-		subjects,
-		providers: project
-			? await generateProvidersFromConfig({
-					project: project,
-					env: c.env,
-					copyTemplateName: params.copyID,
-					ctx: c,
-				})
-			: {},
-		theme: await getTheme(),
-		success: async (ctx, value, request) => {
-			log(
-				`Successful authentication with value: `,
-				JSON.stringify({ value }, null, 2),
+		const url = new URL("/authorize", c.req.url);
+		url.search = new URLSearchParams({
+			client_id: project.clientID,
+			redirect_uri: request.redirect_uri ?? "",
+			response_type: "code",
+			provider,
+			link_id: linkID,
+			...(request.state ? { state: request.state } : {}),
+		}).toString();
+		return c.redirect(url.toString(), 303);
+	})
+	.delete("/account/link/:provider", async (c) => {
+		const { provider } = c.req.param();
+		const project = c.get("project");
+		const userInfo = c.get("userInfo");
+		const error = getUnlinkError(
+			await getUserIdentities({ env: c.env, project, userID: userInfo.id }),
+			provider,
+			userInfo.identifier,
+		);
+		if (error === "not_linked")
+			return c.json({ error: `No ${provider} identity is linked` }, 404);
+		if (error === "primary_identity")
+			return c.json(
+				{ error: "The identity the user registered with can not be unlinked" },
+				409,
 			);
 
-			const userData = await getOrCreateUser({
-				env: c.env,
-				value,
-				providerConfig: project?.providers_data?.find(
-					(p) => p.type === value.provider,
-				) as ProviderConfig,
-				project: project,
+		await drizzle(c.env.AUTH_DB)
+			.delete(userIdentitiesTable)
+			.where(
+				and(
+					eq(userIdentitiesTable.user_id, userInfo.id),
+					eq(userIdentitiesTable.clientID, project.clientID),
+					eq(userIdentitiesTable.provider, provider),
+				),
+			)
+			.run();
+		await insertLog({
+			type: "info",
+			message: `User ${userInfo.id} unlinked their ${provider} identity`,
+			clientID: project.clientID,
+			context: { userID: userInfo.id, provider },
+			database: c.env.AUTH_DB,
+			endpoint: "/account/link/:provider",
+		});
+		await new WebHook({ db: c.env.AUTH_DB }).trigger({
+			clientID: project.clientID,
+			event: "identity_unlinked",
+			secret: project.secret,
+			data: { userID: userInfo.id, provider },
+			request: c.req.raw,
+		});
+		return c.json({ success: true, data: null });
+	});
+
+// admin endpoints //////////////////////////////////////////////////
+
+endpoints.use(
+	"/admin/*",
+	createMiddleware(async (c, next) => {
+		const params: Params = c.get("params");
+		const project = await getProject({
+			id: params.clientID as string,
+			env: c.env,
+			ctx: c,
+		});
+		if (!project) return c.json({ error: "Project not found" }, 404);
+		const secret = await getSecretFromRequest(c.req.raw, project);
+		if (secret.error)
+			throw new RequestError({
+				message: `Unauthorized: ${secret.error}`,
+				status: 401,
+				endpoint: new URL(c.req.url).pathname,
 				params,
-				ctx: c,
+				project,
+				request: c.req.raw,
 			});
 
-			const onSuccessResult = await (
-				await globalOpenAutsterConfig(c, project)
-			).register.onSuccessfulAuthentication?.(
-				ctx,
-				value,
-				request,
-				userData.type,
-			);
-
-			if (onSuccessResult?.success === false) {
-				throw onSuccessResult.error
-					? onSuccessResult.error
-					: new Error("Authentication blocked");
-			}
+		c.set("project", project);
+		return next();
+	}),
+);
 
-			const logger = insertLog({
-				type: "info",
-				message: `User ${userData.parser.data?.id} ${userData.type} successfully with provider ${value.provider}`,
-				clientID: project.clientID,
-				context: {
-					provider: value.provider,
-					userID: userData.parser.data?.id,
-				},
-				database: c.env.AUTH_DB,
-			});
+endpoints.delete("/admin/totp/:userID", async (c) => {
+	const { userID } = c.req.param();
+	const project = c.get("project");
 
-			const res = ctx.subject("user", {
-				id: userData.parser.data?.id,
-				data: userData.dbUser?.data ?? {},
-				identifier: userData.dbUser?.identifier ?? "",
-				clientID: params.clientID as string,
-				provider:
-					(userData.dbUser?.data?.provider as string) ??
-					(value.provider as Omit<ProviderType, "qr"> as string),
-				role: "user",
-			});
+	const db = drizzle(c.env.AUTH_DB);
+	try {
+		await db
+			.delete(totpTable)
+			.where(
+				and(
+					eq(totpTable.user_id, userID),
+					eq(totpTable.clientID, project.clientID),
+				),
+			)
+			.run();
 
-			return Promise.all([logger, res]).then(([_, res]) => res);
-		},
-		refresh: async (ctx, value) => {
-			const userTable = OTFusersTable(project.clientID);
-			const user = await drizzle(c.env.AUTH_DB)
-				.select({
-					role: userTable.role,
-					data: userTable.data,
-					id: userTable.id,
-				})
-				.from(userTable)
-				.where(eq(userTable.id, value.properties.id))
-				.get();
+		await db
+			.delete(totpTokenTable)
+			.where(
+				and(
+					eq(totpTokenTable.user_id, userID),
+					eq(totpTokenTable.clientID, project.clientID),
+				),
+			)
+			.run();
 
-			if (!user) {
-				throw new RequestError({
-					message: "User not found during token refresh",
-					status: 404,
-					endpoint: new URL(c.req.raw.url).pathname,
-					params,
-					project,
-					request: c.req.raw,
-				});
-			}
+		await resetTOTPStep({ db, userID, clientID: project.clientID });
+		await setTOTPSecretKeyID({
+			db,
+			userID,
+			clientID: project.clientID,
+			keyID: null,
+		});
+		await setUserTOTPParams({
+			db,
+			userID,
+			clientID: project.clientID,
+			params: null,
+		});
 
-			return ctx.subject("user", {
-				...value.properties,
-				role: user.role,
-				data: user.data,
-			});
-		},
-		async error(error, req) {
-			insertLog({
-				type: "error",
-				message: `Authentication error: ${(error as Error).message}`,
+		return c.json(totpResponse<null>({ success: true, data: null }), 200);
+	} catch (err) {
+		await insertLog({
+			type: "error",
+			message: `Failed to remove TOTP for user ${userID}: ${err instanceof Error ? err.message : String(err)}`,
+			clientID: project.clientID,
+			context: {
+				userID,
+			},
+			database: c.env.AUTH_DB,
+		});
+
+		return c.json(
+			totpResponse<null>({
+				success: false,
+				error: "request_failed",
+				error_description: err instanceof Error ? err.message : String(err),
+			}),
+			500,
+		);
+	}
+});
+
+/**
+ * Passkey management for a given user from the project backend
+ * Endpoints:
+ * - GET /admin/passkey/:userID - list the user's passkeys
+ * - PATCH /admin/passkey/:userID/:credentialID - rename a passkey
+ * - DELETE /admin/passkey/:userID/:credentialID - revoke a passkey
+ */
+endpoints
+	.get("/admin/passkey/:userID", async (c) => {
+		const credentials = await getPasskeyStore(
+			c.env.AUTH_DB,
+			c.get("project").clientID,
+		).list(c.req.param("userID"));
+		return c.json({ success: true, data: credentials });
+	})
+	.patch("/admin/passkey/:userID/:credentialID", async (c) => {
+		const { name } = (await c.req.json()) as { name?: string };
+		const result = await renamePasskey(
+			getPasskeyStore(c.env.AUTH_DB, c.get("project").clientID),
+			{
+				userID: c.req.param("userID"),
+				credentialID: c.req.param("credentialID"),
+				name,
+			},
+		);
+		if (result.error) return c.json({ error: result.error }, result.status);
+		return c.json({ success: true, data: null });
+	})
+	.delete("/admin/passkey/:userID/:credentialID", async (c) => {
+		const result = await revokeUserPasskey({
+			userID: c.req.param("userID"),
+			project: c.get("project"),
+			credentialID: c.req.param("credentialID"),
+			revokedBy: "admin",
+			env: c.env,
+			request: c.req.raw,
+		});
+		if (result.error) return c.json({ error: result.error }, result.status);
+		return c.json({ success: true, data: null });
+	});
+
+/**
+ * Sessions of a given user from the project backend
+ * Endpoints:
+ * - GET /admin/users/:userID/sessions - list the active sessions
+ * - DELETE /admin/users/:userID/sessions - sign out every device, e.g. when the account is compromised
+ * - DELETE /admin/users/:userID/sessions/:sessionID - sign out a device
+ */
+endpoints
+	.get("/admin/users/:userID/sessions", async (c) => {
+		const sessions = await listUserSessions({
+			env: c.env,
+			clientID: c.get("project").clientID,
+			userID: c.req.param("userID"),
+		});
+		return c.json({ success: true, data: sessions });
+	})
+	.delete("/admin/users/:userID/sessions", async (c) => {
+		const revoked = await revokeUserSessions({
+			env: c.env,
+			project: c.get("project"),
+			userID: c.req.param("userID"),
+			revokedBy: "admin",
+			request: c.req.raw,
+		});
+		return c.json({ success: true, data: { revoked } });
+	})
+	.delete("/admin/users/:userID/sessions/:sessionID", async (c) => {
+		const result = await revokeUserSession({
+			userID: c.req.param("userID"),
+			project: c.get("project"),
+			sessionID: c.req.param("sessionID"),
+			revokedBy: "admin",
+			env: c.env,
+			request: c.req.raw,
+		});
+		if (result.error) return c.json({ error: result.error }, result.status);
+		return c.json({ success: true, data: null });
+	});
+
+/**
+ * Import password users from another identity provider (Auth0, Firebase, Cognito...) with their
+ * bcrypt, scrypt, argon2id or PBKDF2 hash, rehashed to the native format on their next login.
+ * Endpoints:
+ * - POST /admin/users/import - `{ users: [{ email, password_hash, data? }] }`, the status of each user:
+ *   `imported`, `exists` when the email already has a password, or `invalid`
+ */
+endpoints.post("/admin/users/import", async (c) => {
+	const body = (await c.req.json().catch(() => null)) as {
+		users?: unknown;
+	} | null;
+	if (!Array.isArray(body?.users) || !body.users.length)
+		return c.json({ error: "users is required" }, 400);
+	if (body.users.length > MAX_PASSWORD_IMPORT_USERS)
+		return c.json(
+			{ error: `At most ${MAX_PASSWORD_IMPORT_USERS} users per request` },
+			400,
+		);
+
+	const project = c.get("project");
+	const results: {
+		email: string | null;
+		status: "imported" | "exists" | "invalid";
+		error?: string;
+	}[] = [];
+	for (const item of body.users) {
+		const user = safeParse(PasswordImportUserSchema, item);
+		if (!user.success) {
+			results.push({
+				email: typeof item?.email === "string" ? item.email : null,
+				status: "invalid",
+				error: user.issues
+					.map(
+						(issue) =>
+							`${issue.path?.map((segment) => segment.key).join(".") ?? ""}: ${issue.message}`,
+					)
+					.join(", "),
+			});
+			continue;
+		}
+		results.push({
+			email: user.output.email,
+			status: await importPasswordUser({
+				env: c.env,
+				project,
+				user: user.output,
+			}),
+		});
+	}
+
+	await insertLog({
+		type: "info",
+		message: `Imported ${results.filter((result) => result.status === "imported").length} of ${results.length} password users`,
+		clientID: project.clientID,
+		database: c.env.AUTH_DB,
+		endpoint: "/admin/users/import",
+	});
+	return c.json({ success: true, data: results });
+});
+
+/**
+ * Email/SMS providers of the project, with its own credentials, from the project backend
+ * Endpoints:
+ * - GET /admin/delivery - the configuration, credentials masked
+ * - PUT /admin/delivery - replace the `email` and/or `phone` provider, `null` to use the global one again
+ * - DELETE /admin/delivery - use the global providers
+ */
+endpoints
+	.get("/admin/delivery", async (c) => {
+		const delivery = await getProjectDelivery({
+			env: c.env,
+			project: c.get("project"),
+		});
+		return c.json({
+			success: true,
+			data: redactProjectDelivery(delivery ?? { email: null, phone: null }),
+		});
+	})
+	.put("/admin/delivery", async (c) => {
+		const project = c.get("project");
+		const keyring = getDeliveryKeyring(c.env);
+		if (!keyring)
+			return c.json(
+				{ error: "DELIVERY_ENCRYPTION_KEYS is not configured" },
+				501,
+			);
+
+		const body = (await c.req.json().catch(() => null)) as Record<
+			string,
+			unknown
+		> | null;
+		const current = await getProjectDelivery({ env: c.env, project });
+		const result = safeParse(ProjectDeliverySchema, {
+			...current,
+			...body,
+		});
+		if (!body || !result.success)
+			return c.json(
+				{
+					error: `Invalid delivery configuration${result.success ? "" : `: ${result.issues.map((issue) => issue.message).join(", ")}`}`,
+				},
+				400,
+			);
+
+		const db = drizzle(c.env.AUTH_DB);
+		if (!result.output.email && !result.output.phone) {
+			await db
+				.delete(projectDeliveryTable)
+				.where(eq(projectDeliveryTable.clientID, project.clientID))
+				.run();
+		} else {
+			const { secret, keyID } = await encryptSecret(
+				JSON.stringify(result.output),
+				keyring,
+			);
+			const values = {
+				config: secret,
+				key_id: keyID,
+				updated_at: new Date().toISOString(),
+			};
+			await db
+				.insert(projectDeliveryTable)
+				.values({ clientID: project.clientID, ...values })
+				.onConflictDoUpdate({
+					target: projectDeliveryTable.clientID,
+					set: values,
+				})
+				.run();
+		}
+		await insertLog({
+			type: "info",
+			message: `Delivery providers updated: email ${result.output.email?.provider ?? "global"}, phone ${result.output.phone?.provider ?? "global"}`,
+			clientID: project.clientID,
+			context: {
+				email: result.output.email?.provider ?? null,
+				phone: result.output.phone?.provider ?? null,
+			},
+			database: c.env.AUTH_DB,
+			endpoint: "/admin/delivery",
+		});
+		return c.json({
+			success: true,
+			data: redactProjectDelivery(result.output),
+		});
+	})
+	.delete("/admin/delivery", async (c) => {
+		await drizzle(c.env.AUTH_DB)
+			.delete(projectDeliveryTable)
+			.where(eq(projectDeliveryTable.clientID, c.get("project").clientID))
+			.run();
+		return c.json({ success: true, data: null });
+	});
+
+/**
+ * Check that the email template belongs to the owner of the project.
+ */
+async function getOwnedEmailTemplate(
+	c: EndpointCtx,
+): Promise<{ id?: number; error?: string; status?: 404 }> {
+	const id = Number(c.req.param("templateID"));
+	if (!Number.isInteger(id))
+		return { error: "Email template not found", status: 404 };
+	const template = await drizzle(c.env.AUTH_DB)
+		.select({ id: emailTemplatesTable.id })
+		.from(emailTemplatesTable)
+		.where(
+			and(
+				eq(emailTemplatesTable.id, id),
+				eq(emailTemplatesTable.owner_id, c.get("project").owner_id),
+			),
+		)
+		.get();
+	if (!template) return { error: "Email template not found", status: 404 };
+	return { id };
+}
+
+/**
+ * Locale variants of an email template, selected from the `ui_locales` param or `Accept-Language`
+ * Endpoints:
+ * - GET /admin/email-templates/:templateID/locales - list the variants
+ * - PUT /admin/email-templates/:templateID/locales/:locale - create or replace a variant (`subject`, `body`)
+ * - DELETE /admin/email-templates/:templateID/locales/:locale - remove a variant
+ */
+endpoints
+	.get("/admin/email-templates/:templateID/locales", async (c) => {
+		const template = await getOwnedEmailTemplate(c);
+		if (!template.id) return c.json({ error: template.error }, template.status);
+		const variants = await drizzle(c.env.AUTH_DB)
+			.select({
+				locale: emailTemplateLocalesTable.locale,
+				subject: emailTemplateLocalesTable.subject,
+				body: emailTemplateLocalesTable.body,
+				updated_at: emailTemplateLocalesTable.updated_at,
+			})
+			.from(emailTemplateLocalesTable)
+			.where(eq(emailTemplateLocalesTable.template_id, template.id))
+			.all();
+		return c.json({ success: true, data: variants });
+	})
+	.put("/admin/email-templates/:templateID/locales/:locale", async (c) => {
+		const template = await getOwnedEmailTemplate(c);
+		if (!template.id) return c.json({ error: template.error }, template.status);
+		const locale = normalizeLocale(c.req.param("locale"));
+		if (!locale) return c.json({ error: "Invalid locale" }, 400);
+		const body = (await c.req.json().catch(() => null)) as {
+			subject?: unknown;
+			body?: unknown;
+		} | null;
+		if (
+			typeof body?.subject !== "string" ||
+			typeof body.body !== "string" ||
+			!body.subject ||
+			!body.body
+		)
+			return c.json({ error: "subject and body are required" }, 400);
+
+		const values = {
+			subject: body.subject,
+			body: body.body,
+			updated_at: new Date().toISOString(),
+		};
+		await drizzle(c.env.AUTH_DB)
+			.insert(emailTemplateLocalesTable)
+			.values({
+				id: `${template.id}:${locale}`,
+				template_id: template.id,
+				locale,
+				...values,
+			})
+			.onConflictDoUpdate({ target: emailTemplateLocalesTable.id, set: values })
+			.run();
+		return c.json({ success: true, data: { locale, ...values } });
+	})
+	.delete("/admin/email-templates/:templateID/locales/:locale", async (c) => {
+		const template = await getOwnedEmailTemplate(c);
+		if (!template.id) return c.json({ error: template.error }, template.status);
+		const locale = normalizeLocale(c.req.param("locale"));
+		if (!locale) return c.json({ error: "Invalid locale" }, 400);
+		await drizzle(c.env.AUTH_DB)
+			.delete(emailTemplateLocalesTable)
+			.where(eq(emailTemplateLocalesTable.id, `${template.id}:${locale}`))
+			.run();
+		return c.json({ success: true, data: null });
+	});
+
+// Options Cors
+
+/**
+ * Allow CORS preflight requests
+ */
+endpoints.options("*", (c) => {
+	const project = c.get("project") as Project | undefined;
+	const allowOrigin = toAuthorizeOrigin({
+		request: c.req.raw,
+		project,
+		env: c.env,
+		defaultOrigin: "*",
+	});
+
+	return c.text("ok", 200, {
+		"Access-Control-Allow-Origin": allowOrigin,
+		"Access-Control-Allow-Methods": "GET, PATCH, OPTIONS, DELETE, POST",
+		"Access-Control-Allow-Headers":
+			"Content-Type, Authorization, x-elevated-token",
+	});
+});
+
+// brute force protection of the code sending and password attempts
+endpoints.post("/code/*", rateLimit("code", getFormIdentifier));
+endpoints.post("/magiclink/*", rateLimit("code", getFormIdentifier));
+endpoints.post("/password/*", rateLimit("password", getFormIdentifier));
+
+endpoints.all("*", async (c) => {
+	const params: Params = c.get("params");
+	const project: Project = c.get("project");
+	const getTheme = () => {
+		const isWellKnown = new URL(c.req.raw.url).pathname.startsWith(
+			"/.well-known",
+		);
+		if (isWellKnown || !project) return Promise.resolve(undefined);
+		return getThemeFromProject(project, c.env);
+	};
+	const is = issuer<
+		Record<ProviderType, Provider>,
+		typeof subjects,
+		{ provider: ProviderType }
+	>({
+		storage: getIssuerStorage(c.env, params.clientID as string),
+		ttl: {
+			access: parseInt(
+				(c.env as Env & { ACCESS_TTL?: string }).ACCESS_TTL ?? "900",
+				10,
+			), // 15 minutes in seconds
+			refresh: getRefreshTTL(c.env),
+			retention: 0,
+			reuse: REFRESH_TOKEN_REUSE_SECONDS,
+		},
+		allow: async (input) => {
+			const incomingUrl = new URL(input.redirectURI);
+
+			// Only allow http and https protocols to prevent protocol-based attacks
+			if (!["http:", "https:"].includes(incomingUrl.protocol)) {
+				return false;
+			}
+
+			// Handle localhost/127.0.0.1 with stricter validation
+			if (
+				incomingUrl.hostname === "localhost" ||
+				incomingUrl.hostname === "127.0.0.1"
+			) {
+				// Only allow http for localhost (https typically not configured locally)
+				if (incomingUrl.protocol !== "http:") return false;
+				return true;
+			}
+
+			if (!project?.originURL) return false;
+
+			const projectUrl = new URL(
+				toAuthorizeOrigin({
+					request: c.req.raw,
+					project,
+					defaultOrigin: env.ISSUER_URL,
+					env,
+				}),
+			);
+
+			// Enforce HTTPS when project URL uses HTTPS (prevent downgrade attacks)
+			if (
+				projectUrl.protocol === "https:" &&
+				incomingUrl.protocol !== "https:"
+			) {
+				return false;
+			}
+
+			// Validate origin match
+			if (incomingUrl.origin === projectUrl.origin) return true;
+
+			return false;
+		},
+		subjects,
+		providers: project
+			? {
+					...(await generateProvidersFromConfig({
+						project: project,
+						env: c.env,
+						copyTemplateName: params.copyID,
+						ctx: c,
+					})),
+					// only mounted while completing a login, so it never shows up in the provider selection
+					...(new URL(c.req.url).pathname.startsWith(`/${MFA_PROVIDER_NAME}/`)
+						? {
+								[MFA_PROVIDER_NAME]: await createLoginMFAProvider({
+									c,
+									project,
+									copyTemplateName: params.copyID,
+								}),
+							}
+						: {}),
+				}
+			: {},
+		theme: await getTheme(),
+		success: async (ctx, value, request) => {
+			log(
+				`Successful authentication with value: `,
+				JSON.stringify({ value }, null, 2),
+			);
+
+			if ((value.provider as string) === MFA_PROVIDER_NAME) {
+				return ctx.subject(
+					"user",
+					await completeLoginMFA({
+						value: value as unknown as MFAProviderSuccess,
+						project,
+						params,
+						request,
+						env: c.env,
+					}),
+				);
+			}
+
+			const providerConfig = project?.providers_data?.find(
+				(p) => p.type === value.provider,
+			) as ProviderConfig;
+			const linkRequest = params.linkID
+				? await consumeAccountLinkRequest({
+						env: c.env,
+						project,
+						linkID: params.linkID,
+						nonce: getCookiesFromRequest(request)[COOKIE_LINK_NONCE],
+						provider: value.provider,
+					})
+				: undefined;
+			const userData = linkRequest
+				? await linkUserIdentity({
+						env: c.env,
+						value,
+						providerConfig,
+						project,
+						params,
+						userID: linkRequest.user_id,
+						ctx: c,
+					})
+				: await getOrCreateUser({
+						env: c.env,
+						value,
+						providerConfig,
+						project: project,
+						params,
+						ctx: c,
+					});
+
+			const onSuccessResult = await (
+				await globalOpenAutsterConfig(c, project)
+			).register.onSuccessfulAuthentication?.(
+				ctx,
+				value,
+				request,
+				userData.type,
+			);
+
+			if (onSuccessResult?.success === false) {
+				throw onSuccessResult.error
+					? onSuccessResult.error
+					: new Error("Authentication blocked");
+			}
+
+			const logger = insertLog({
+				type: "info",
+				message: `User ${userData.parser.data?.id} ${userData.type} successfully with provider ${value.provider}`,
+				clientID: project.clientID,
+				context: {
+					provider: value.provider,
+					userID: userData.parser.data?.id,
+				},
+				database: c.env.AUTH_DB,
+			});
+
+			const provider =
+				(userData.dbUser?.data?.provider as string) ??
+				(value.provider as Omit<ProviderType, "qr"> as string);
+
+			if (
+				getMFALoginSettings(project).requireAtLogin &&
+				(await userHasLoginMFA({
+					env: c.env,
+					project,
+					userID: userData.parser.data?.id,
+				}))
+			) {
+				const res = redirectToLoginMFA({
+					env: c.env,
+					project,
+					userID: userData.parser.data?.id,
+					provider,
+					amr: getProviderAMR(value.provider),
+					request,
+				});
+				return Promise.all([logger, res]).then(([_, res]) => res);
+			}
+
+			const res = ctx.subject("user", {
+				id: userData.parser.data?.id,
+				data: userData.dbUser?.data ?? {},
+				identifier: userData.dbUser?.identifier ?? "",
+				clientID: params.clientID as string,
+				provider,
+				...(await getUserAuthorization({
+					env: c.env,
+					project,
+					userID: userData.parser.data?.id,
+					role: userData.dbUser?.role,
+				})),
+				amr: getProviderAMR(value.provider),
+				auth_time: Math.floor(Date.now() / 1000),
+				mfa_verified: false,
+				sid: await createUserSession({
+					env: c.env,
+					project,
+					userID: userData.parser.data?.id,
+					provider,
+					request,
+				}),
+			});
+
+			return Promise.all([logger, res]).then(([_, res]) => res);
+		},
+		refresh: async (ctx, value) => {
+			const userTable = OTFusersTable(project.clientID);
+			const user = await drizzle(c.env.AUTH_DB)
+				.select({
+					role: userTable.role,
+					data: userTable.data,
+					id: userTable.id,
+				})
+				.from(userTable)
+				.where(eq(userTable.id, value.properties.id))
+				.get();
+
+			if (!user) {
+				throw new RequestError({
+					message: "User not found during token refresh",
+					status: 404,
+					endpoint: new URL(c.req.raw.url).pathname,
+					params,
+					project,
+					request: c.req.raw,
+				});
+			}
+
+			return ctx.subject("user", {
+				...value.properties,
+				...(await getUserAuthorization({
+					env: c.env,
+					project,
+					userID: user.id,
+					role: user.role,
+				})),
+				data: user.data,
+				// describe the original login, a refresh is not a new authentication
+				amr: value.properties.amr,
+				auth_time: value.properties.auth_time,
+				mfa_verified: value.properties.mfa_verified ?? false,
+				sid: value.properties.sid
+					? await touchUserSession({
+							env: c.env,
+							project,
+							sessionID: value.properties.sid,
+							request: c.req.raw,
+						})
+					: // tokens issued before the sessions were recorded
+						await createUserSession({
+							env: c.env,
+							project,
+							userID: user.id,
+							provider: value.properties.provider,
+							request: c.req.raw,
+						}),
+			});
+		},
+		async error(error, req) {
+			insertLog({
+				type: "error",
+				message: `Authentication error: ${(error as Error).message}`,
 				clientID: project.clientID,
 				context: {
 					error: error instanceof Error ? error.message : String(error),
 				},
-				database: c.env.AUTH_DB,
-			});
-			throw new RequestError({
-				message: `Authentication error: ${(error as Error).message}`,
-				status: 500,
-				endpoint: req.url,
-				params,
+				database: c.env.AUTH_DB,
+			});
+			throw new RequestError({
+				message: `Authentication error: ${(error as Error).message}`,
+				status: 500,
+				endpoint: req.url,
+				params,
+				project,
+				request: req,
+			});
+		},
+	});
+	return is.fetch(c.req.raw, c.env, c.executionCtx);
+});
+
+// Auth helper functions //////////////////////////////////////////////////////
+
+const MFA_PENDING_LOGIN_TTL_MS = 5 * 60 * 1000; // 5 minutes
+
+/**
+ * Whether the user has a second factor usable during the login: a verified TOTP or a passkey.
+ */
+async function userHasLoginMFA({
+	env,
+	project,
+	userID,
+}: {
+	env: Env;
+	project: Project;
+	userID: string;
+}) {
+	const db = drizzle(env.AUTH_DB);
+	const totp = await getUserMFATOTP({
+		db,
+		userID,
+		clientID: project.clientID,
+	});
+	if (totp?.verified) return true;
+
+	const passkey = await db
+		.select({ id: webauthnCredentialsTable.credential_id })
+		.from(webauthnCredentialsTable)
+		.where(
+			and(
+				eq(webauthnCredentialsTable.user_id, userID),
+				eq(webauthnCredentialsTable.clientID, project.clientID),
+			),
+		)
+		.get();
+	return Boolean(passkey);
+}
+
+/**
+ * Hold the login until the second factor is verified and send the user to the MFA challenge page.
+ */
+async function redirectToLoginMFA({
+	env,
+	project,
+	userID,
+	provider,
+	amr,
+	request,
+}: {
+	env: Env;
+	project: Project;
+	userID: string;
+	provider: string;
+	/** authentication methods of the first factor */
+	amr: string[];
+	request: Request;
+}) {
+	const pendingID = Array.from(
+		crypto.getRandomValues(new Uint8Array(32)),
+		(b) => b.toString(16).padStart(2, "0"),
+	).join("");
+
+	await drizzle(env.AUTH_DB)
+		.insert(mfaPendingLoginsTable)
+		.values({
+			id: pendingID,
+			clientID: project.clientID,
+			user_id: userID,
+			provider,
+			amr,
+			expires_at: new Date(Date.now() + MFA_PENDING_LOGIN_TTL_MS).toISOString(),
+			created_at: new Date().toISOString(),
+		})
+		.run();
+
+	return new Response(null, {
+		status: 302,
+		headers: {
+			Location: new URL(
+				`/${MFA_PROVIDER_NAME}/authorize`,
+				request.url,
+			).toString(),
+			"Set-Cookie": serialize(MFA_PENDING_COOKIE, pendingID, {
+				path: "/",
+				httpOnly: true,
+				secure: true,
+				sameSite: "Lax",
+				maxAge: MFA_PENDING_LOGIN_TTL_MS / 1000,
+			}),
+		},
+	});
+}
+
+async function getPendingLogin({
+	env,
+	project,
+	pendingID,
+}: {
+	env: Env;
+	project: Project;
+	pendingID: string;
+}) {
+	const pending = await drizzle(env.AUTH_DB)
+		.select()
+		.from(mfaPendingLoginsTable)
+		.where(
+			and(
+				eq(mfaPendingLoginsTable.id, pendingID),
+				eq(mfaPendingLoginsTable.clientID, project.clientID),
+			),
+		)
+		.get();
+	if (!pending || new Date(pending.expires_at).getTime() < Date.now()) return;
+	return pending;
+}
+
+async function createLoginMFAProvider({
+	c,
+	project,
+	copyTemplateName,
+}: {
+	c: EndpointCtx;
+	project: Project;
+	copyTemplateName: string | null;
+}) {
+	const copyTemplate = await getCopyTemplateFromName({
+		name: copyTemplateName,
+		env: c.env,
+		project,
+	});
+
+	return MFAProvider({
+		copy: (copyTemplate?.copyData as { mfa?: Partial<MFACopy> } | undefined)
+			?.mfa,
+		async challenge(pendingID, request) {
+			const pending = await getPendingLogin({ env: c.env, project, pendingID });
+			if (!pending) return;
+
+			const db = drizzle(c.env.AUTH_DB);
+			return getLoginMFAChallenge(
+				{
+					hasVerifiedTOTP: async () =>
+						Boolean(
+							(
+								await getUserMFATOTP({
+									db,
+									userID: pending.user_id,
+									clientID: project.clientID,
+								})
+							)?.verified,
+						),
+					hasPasskeys: async () =>
+						Boolean(
+							await db
+								.select({ id: webauthnCredentialsTable.credential_id })
+								.from(webauthnCredentialsTable)
+								.where(
+									and(
+										eq(webauthnCredentialsTable.user_id, pending.user_id),
+										eq(webauthnCredentialsTable.clientID, project.clientID),
+									),
+								)
+								.get(),
+						),
+					startPasskeyAssertion: (rpID) =>
+						startPasskeyAssertion({
+							env: c.env,
+							project,
+							userID: pending.user_id,
+							rpID,
+						}),
+				},
+				request.url,
+			);
+		},
+		async verify(pendingID, input, request) {
+			const pending = await getPendingLogin({ env: c.env, project, pendingID });
+			if (!pending) return { error: "expired" };
+
+			const guard = new MFAAttemptGuard(
+				c.env,
 				project,
-				request: req,
-			});
+				pending.user_id,
+				request,
+			);
+			if (await guard.retryAfter()) return { error: "too_many_attempts" };
+
+			let method: LoginMFAMethod | undefined;
+			if ("passkey" in input) {
+				const result = await finishPasskeyAssertion({
+					env: c.env,
+					project,
+					userID: pending.user_id,
+					challengeId: input.passkey.challengeId,
+					response: input.passkey.response,
+					// the challenge page is served by the issuer
+					...getIssuerRelyingParty(request.url),
+					endpoint: `/${MFA_PROVIDER_NAME}/authorize`,
+				});
+				if (!("error" in result)) method = "passkey";
+			} else if (input.code) {
+				const totpValid = await verifyUserTOTPCode({
+					env: c.env,
+					project,
+					userID: pending.user_id,
+					label: pending.user_id,
+					code: input.code,
+				});
+				if (totpValid) {
+					method = "totp";
+				} else if (totpValid === false) {
+					const backupCode = await isValidBackupCode({
+						code: input.code,
+						userID: pending.user_id,
+						clientID: project.clientID,
+						env: c.env,
+					});
+					if (backupCode.valid) {
+						await backupCode.removeCode();
+						method = "backup_code";
+					}
+				}
+			}
+
+			if (!method) {
+				return (await guard.recordFailure())
+					? { error: "too_many_attempts" }
+					: { error: "invalid_code" };
+			}
+			await guard.recordSuccess();
+			return { method };
 		},
 	});
-	return is.fetch(c.req.raw, c.env, c.executionCtx);
-});
+}
+
+/**
+ * Resume a login held by `redirectToLoginMFA` once its second factor is verified.
+ * @returns the subject properties to issue the tokens with.
+ */
+async function completeLoginMFA({
+	value,
+	project,
+	params,
+	request,
+	env,
+}: {
+	value: MFAProviderSuccess;
+	project: Project;
+	params: Params;
+	request: Request;
+	env: Env;
+}) {
+	const db = drizzle(env.AUTH_DB);
+	const pending = await getPendingLogin({
+		env,
+		project,
+		pendingID: value.pendingID,
+	});
+	await db
+		.delete(mfaPendingLoginsTable)
+		.where(eq(mfaPendingLoginsTable.id, value.pendingID))
+		.run();
+
+	const userTable = OTFusersTable(project.clientID);
+	const user =
+		pending &&
+		(await db
+			.select({
+				data: userTable.data,
+				identifier: userTable.identifier,
+				role: userTable.role,
+			})
+			.from(userTable)
+			.where(eq(userTable.id, pending.user_id))
+			.get());
+
+	if (!pending || !user) {
+		throw new RequestError({
+			message: "MFA login expired, please sign in again",
+			status: 400,
+			endpoint: new URL(request.url).pathname,
+			params,
+			project,
+			request,
+		});
+	}
+
+	return {
+		id: pending.user_id,
+		data: user.data ?? {},
+		identifier: user.identifier ?? "",
+		clientID: project.clientID,
+		provider: pending.provider,
+		...(await getUserAuthorization({
+			env,
+			project,
+			userID: pending.user_id,
+			role: user.role,
+		})),
+		amr: addMFAToAMR(pending.amr ?? [], value.method),
+		auth_time: Math.floor(Date.now() / 1000),
+		mfa_verified: true,
+		sid: await createUserSession({
+			env,
+			project,
+			userID: pending.user_id,
+			provider: pending.provider,
+			request,
+		}),
+	};
+}
+
+/**
+ * Roles and permissions to issue the user subject with.
+ * @param role primary role, as stored in the users table
+ */
+async function getUserAuthorization({
+	env,
+	project,
+	userID,
+	role,
+}: {
+	env: Env;
+	project: Project;
+	userID: string;
+	role?: string | null;
+}) {
+	const grants = await drizzle(env.AUTH_DB)
+		.select({
+			roles: userRolesTable.roles,
+			permissions: userRolesTable.permissions,
+		})
+		.from(userRolesTable)
+		.where(
+			and(
+				eq(userRolesTable.user_id, userID),
+				eq(userRolesTable.clientID, project.clientID),
+			),
+		)
+		.get();
+	return resolveUserAuthorization(getRoleSettings(project), {
+		role,
+		...grants,
+	});
+}
+
+/**
+ * Storage of the issuer for a project, holding among others its refresh tokens.
+ */
+function getIssuerStorage(env: Env, clientID: string) {
+	return D1Storage({ database: env.AUTH_DB, table: clientID });
+}
+
+/**
+ * Revoke every refresh token of a user, the access tokens already issued stay valid until they expire.
+ * @returns the number of revoked refresh tokens.
+ */
+async function revokeUserSessions({
+	env,
+	project,
+	userID,
+	revokedBy,
+	request,
+}: {
+	env: Env;
+	project: Project;
+	userID: string;
+	revokedBy: "user" | "admin";
+	request: Request;
+}) {
+	const revoked = await revokeUserRefreshTokens(
+		getIssuerStorage(env, project.clientID),
+		userID,
+	);
+	await drizzle(env.AUTH_DB)
+		.delete(userSessionsTable)
+		.where(
+			and(
+				eq(userSessionsTable.user_id, userID),
+				eq(userSessionsTable.clientID, project.clientID),
+			),
+		)
+		.run();
+
+	await new WebHook({ db: env.AUTH_DB }).trigger({
+		clientID: project.clientID,
+		event: "sessions_revoked",
+		data: {
+			userID,
+			count: revoked,
+			method: revokedBy,
+		},
+		secret: project.secret,
+		log: true,
+		request,
+	});
+	return revoked;
+}
+
+/**
+ * Lifetime of the refresh tokens, in seconds.
+ */
+function getRefreshTTL(env: Env) {
+	return parseInt(
+		(env as Env & { REFRESH_TTL?: string }).REFRESH_TTL ?? "604800",
+		10,
+	); // 7 days in seconds
+}
+
+/**
+ * Record the device of a new login, its id is issued as the `sid` of the user subject
+ * and identifies the refresh token family.
+ */
+async function createUserSession({
+	env,
+	project,
+	userID,
+	provider,
+	request,
+}: {
+	env: Env;
+	project: Project;
+	userID: string;
+	provider: string;
+	request: Request;
+}) {
+	const id = crypto.randomUUID();
+	await drizzle(env.AUTH_DB)
+		.insert(userSessionsTable)
+		.values({
+			id,
+			clientID: project.clientID,
+			user_id: userID,
+			provider,
+			ip: request.headers.get("CF-Connecting-IP"),
+			user_agent: request.headers.get("User-Agent"),
+			created_at: new Date().toISOString(),
+			expires_at: new Date(
+				Date.now() + getRefreshTTL(env) * 1000,
+			).toISOString(),
+		})
+		.run();
+	return id;
+}
+
+/**
+ * Update the device of a session on token refresh.
+ * @returns the session id.
+ */
+async function touchUserSession({
+	env,
+	project,
+	sessionID,
+	request,
+}: {
+	env: Env;
+	project: Project;
+	sessionID: string;
+	request: Request;
+}) {
+	await drizzle(env.AUTH_DB)
+		.update(userSessionsTable)
+		.set({
+			ip: request.headers.get("CF-Connecting-IP"),
+			user_agent: request.headers.get("User-Agent"),
+			last_refreshed_at: new Date().toISOString(),
+			expires_at: new Date(
+				Date.now() + getRefreshTTL(env) * 1000,
+			).toISOString(),
+		})
+		.where(
+			and(
+				eq(userSessionsTable.id, sessionID),
+				eq(userSessionsTable.clientID, project.clientID),
+			),
+		)
+		.run();
+	return sessionID;
+}
+
+/**
+ * Sessions of a user whose refresh tokens did not expire, most recently used first.
+ */
+async function listUserSessions({
+	env,
+	clientID,
+	userID,
+}: {
+	env: Env;
+	clientID: string;
+	userID: string;
+}) {
+	const sessions = await drizzle(env.AUTH_DB)
+		.select({
+			id: userSessionsTable.id,
+			provider: userSessionsTable.provider,
+			ip: userSessionsTable.ip,
+			user_agent: userSessionsTable.user_agent,
+			created_at: userSessionsTable.created_at,
+			last_refreshed_at: userSessionsTable.last_refreshed_at,
+			expires_at: userSessionsTable.expires_at,
+		})
+		.from(userSessionsTable)
+		.where(
+			and(
+				eq(userSessionsTable.user_id, userID),
+				eq(userSessionsTable.clientID, clientID),
+			),
+		)
+		.all();
+	const now = new Date().toISOString();
+	return sessions
+		.filter((session) => session.expires_at > now)
+		.sort((a, b) =>
+			(b.last_refreshed_at ?? b.created_at).localeCompare(
+				a.last_refreshed_at ?? a.created_at,
+			),
+		);
+}
+
+/**
+ * Sign out a single device of a user by revoking the refresh tokens of its session.
+ */
+async function revokeUserSession({
+	userID,
+	project,
+	sessionID,
+	revokedBy,
+	env,
+	request,
+}: {
+	userID: string;
+	project: Project;
+	sessionID: string;
+	revokedBy: "user" | "admin";
+	env: Env;
+	request: Request;
+}): Promise<{ error?: string; status?: 404 }> {
+	const session = await drizzle(env.AUTH_DB)
+		.delete(userSessionsTable)
+		.where(
+			and(
+				eq(userSessionsTable.id, sessionID),
+				eq(userSessionsTable.user_id, userID),
+				eq(userSessionsTable.clientID, project.clientID),
+			),
+		)
+		.returning({ id: userSessionsTable.id })
+		.get();
+	if (!session) return { error: "Session not found", status: 404 };
+
+	await revokeSessionRefreshTokens(
+		getIssuerStorage(env, project.clientID),
+		userID,
+		sessionID,
+	);
+
+	await new WebHook({ db: env.AUTH_DB }).trigger({
+		clientID: project.clientID,
+		event: "session_revoked",
+		data: {
+			userID,
+			sessionID,
+			method: revokedBy,
+		},
+		secret: project.secret,
+		log: true,
+		request,
+	});
+	return {};
+}
+
+/**
+ * Session of a user, if it was not signed out and its refresh tokens did not expire.
+ */
+async function getActiveUserSession({
+	env,
+	clientID,
+	sessionID,
+}: {
+	env: Env;
+	clientID: string;
+	sessionID: string;
+}) {
+	const session = await drizzle(env.AUTH_DB)
+		.select({ expires_at: userSessionsTable.expires_at })
+		.from(userSessionsTable)
+		.where(
+			and(
+				eq(userSessionsTable.id, sessionID),
+				eq(userSessionsTable.clientID, clientID),
+			),
+		)
+		.get();
+	if (!session || session.expires_at <= new Date().toISOString()) return;
+	return session;
+}
+
+async function introspectToken({
+	token,
+	project,
+	env,
+	ctx,
+	request,
+}: {
+	token: string;
+	project: Project;
+	env: Env;
+	ctx: ExecutionContext;
+	request: Request;
+}): Promise<IntrospectionResponse> {
+	const refreshKey = parseRefreshToken(token);
+	if (refreshKey) {
+		const stored = (await getIssuerStorage(env, project.clientID).get(
+			refreshKey,
+		)) as StoredRefreshToken | undefined;
+		if (
+			!stored ||
+			stored.clientID !== project.clientID ||
+			!isRefreshTokenActive(stored)
+		)
+			return INACTIVE_TOKEN;
 
-// Auth helper functions //////////////////////////////////////////////////////
+		const session = stored.properties.sid
+			? await getActiveUserSession({
+					env,
+					clientID: project.clientID,
+					sessionID: stored.properties.sid,
+				})
+			: undefined;
+		if (stored.properties.sid && !session) return INACTIVE_TOKEN;
+
+		return toIntrospectionResponse({
+			tokenType: "refresh_token",
+			clientID: stored.clientID,
+			subject: stored.subject,
+			properties: stored.properties,
+			exp: session
+				? Math.floor(new Date(session.expires_at).getTime() / 1000)
+				: undefined,
+		});
+	}
+
+	let properties: Record<string, unknown> & { sid?: string };
+	try {
+		properties = await ensureToken({
+			token,
+			clientID: project.clientID,
+			env,
+			ctx,
+			request,
+		});
+	} catch {
+		return INACTIVE_TOKEN;
+	}
+	if (
+		properties.sid &&
+		!(await getActiveUserSession({
+			env,
+			clientID: project.clientID,
+			sessionID: properties.sid,
+		}))
+	)
+		return INACTIVE_TOKEN;
+
+	const payload = decodeJwt(token);
+	return toIntrospectionResponse({
+		tokenType: "access_token",
+		clientID: project.clientID,
+		subject: payload.sub ?? String(properties.id),
+		properties,
+		exp: payload.exp,
+		iat: payload.iat,
+		iss: payload.iss,
+	});
+}
 
 function setProjectToCache(project: Project) {
 	setCache<Project>(project.clientID, project);
@@ -2338,6 +4796,413 @@ async function getThemeFromProject(project: Project, env: Env): Promise<Theme> {
 		});
 }
 
+/**
+ * User holding the identity of a provider subject.
+ */
+async function getIdentityUser({
+	env,
+	project,
+	provider,
+	subject,
+}: {
+	env: Env;
+	project: Project;
+	provider: string;
+	subject: string;
+}) {
+	const db = drizzle(env.AUTH_DB);
+	const identity = await db
+		.select({ user_id: userIdentitiesTable.user_id })
+		.from(userIdentitiesTable)
+		.where(
+			eq(
+				userIdentitiesTable.id,
+				getIdentityID(project.clientID, provider, subject),
+			),
+		)
+		.get();
+	if (!identity) return undefined;
+	const usersTable = OTFusersTable(project.clientID);
+	return db
+		.select()
+		.from(usersTable)
+		.where(eq(usersTable.id, identity.user_id))
+		.get()
+		.then((res) => res ?? undefined);
+}
+
+/**
+ * Record the identity a user signed in with, an identity is never moved to another user.
+ */
+async function saveUserIdentity({
+	env,
+	project,
+	userID,
+	provider,
+	subject,
+	email,
+}: {
+	env: Env;
+	project: Project;
+	userID: string;
+	provider: string;
+	subject: string;
+	email?: string;
+}) {
+	const now = new Date().toISOString();
+	await drizzle(env.AUTH_DB)
+		.insert(userIdentitiesTable)
+		.values({
+			id: getIdentityID(project.clientID, provider, subject),
+			clientID: project.clientID,
+			user_id: userID,
+			provider,
+			provider_subject: subject,
+			email: email ?? null,
+			created_at: now,
+			last_used_at: now,
+		})
+		.onConflictDoUpdate({
+			target: userIdentitiesTable.id,
+			set: { email: email ?? null, last_used_at: now },
+		})
+		.run();
+}
+
+/**
+ * Create a `password` user with an imported hash, kept in the issuer storage until their next login
+ * replaces it by the native hash.
+ */
+async function importPasswordUser({
+	env,
+	project,
+	user,
+}: {
+	env: Env;
+	project: Project;
+	user: PasswordImportUser;
+}): Promise<"imported" | "exists"> {
+	const storage = getIssuerStorage(env, project.clientID);
+	const key = ["email", user.email, "password"];
+	if (await storage.get(key)) return "exists";
+	const stored: StoredImportedPassword = {
+		imported: user.password_hash,
+		email: user.email,
+	};
+	await storage.set(key, stored);
+
+	const usersTable = OTFusersTable(project.clientID);
+	const data = {
+		...user.data,
+		password: { email: user.email },
+		email: user.email,
+		provider: "password",
+	};
+	await drizzle(env.AUTH_DB)
+		.insert(usersTable)
+		.values({
+			id: crypto.randomUUID(),
+			identifier: user.email,
+			data,
+			role: getRoleSettings(project).defaultRole,
+			created_at: new Date().toISOString(),
+			email: user.email,
+		})
+		.onConflictDoNothing({ target: usersTable.identifier })
+		.run();
+	const dbUser = await userExists({
+		env,
+		identifier: user.email,
+		clientID: project.clientID,
+	});
+	if (dbUser)
+		await saveUserIdentity({
+			env,
+			project,
+			userID: dbUser.id,
+			provider: "password",
+			subject: user.email,
+			email: user.email,
+		});
+	return "imported";
+}
+
+/**
+ * Identities of a user.
+ */
+async function getUserIdentities({
+	env,
+	project,
+	userID,
+}: {
+	env: Env;
+	project: Project;
+	userID: string;
+}) {
+	return drizzle(env.AUTH_DB)
+		.select({
+			provider: userIdentitiesTable.provider,
+			provider_subject: userIdentitiesTable.provider_subject,
+			email: userIdentitiesTable.email,
+			created_at: userIdentitiesTable.created_at,
+			last_used_at: userIdentitiesTable.last_used_at,
+		})
+		.from(userIdentitiesTable)
+		.where(
+			and(
+				eq(userIdentitiesTable.user_id, userID),
+				eq(userIdentitiesTable.clientID, project.clientID),
+			),
+		)
+		.all();
+}
+
+async function deleteUserIdentities({
+	env,
+	clientID,
+	userID,
+}: {
+	env: Env;
+	clientID: string;
+	userID: string;
+}) {
+	await drizzle(env.AUTH_DB)
+		.delete(userIdentitiesTable)
+		.where(
+			and(
+				eq(userIdentitiesTable.user_id, userID),
+				eq(userIdentitiesTable.clientID, clientID),
+			),
+		)
+		.run();
+}
+
+/**
+ * Consume the account link started for `provider` in this browser, `undefined` when there is none, it
+ * was started in another browser or it has expired.
+ * @param nonce `oauth_link_nonce` cookie set when the link was started
+ */
+async function consumeAccountLinkRequest({
+	env,
+	project,
+	linkID,
+	nonce,
+	provider,
+}: {
+	env: Env;
+	project: Project;
+	linkID: string;
+	nonce: string | undefined;
+	provider: string;
+}) {
+	if (!nonce) return undefined;
+	const request = await drizzle(env.AUTH_DB)
+		.delete(accountLinkRequestsTable)
+		.where(
+			and(
+				eq(accountLinkRequestsTable.id, linkID),
+				eq(accountLinkRequestsTable.clientID, project.clientID),
+				eq(accountLinkRequestsTable.provider, provider),
+				eq(
+					accountLinkRequestsTable.nonce_hash,
+					await hashAccountLinkNonce(nonce),
+				),
+			),
+		)
+		.returning()
+		.get();
+	if (!request || new Date(request.expires_at).getTime() <= Date.now())
+		return undefined;
+	return request;
+}
+
+/**
+ * Attach the identity returned by the provider to the user who started the link, in place of the
+ * login of `getOrCreateUser`.
+ */
+async function linkUserIdentity({
+	env,
+	value,
+	providerConfig,
+	project,
+	params,
+	userID,
+	ctx,
+}: {
+	env: Env;
+	value: Record<string, unknown> & { provider: ProviderType };
+	providerConfig: ProviderConfig;
+	project: Project;
+	params: Params;
+	userID: string;
+	ctx: EndpointCtx;
+}): ReturnType<typeof getOrCreateUser> {
+	const userData: userExtractResult<{ email?: string }> =
+		await providerConfigMap[
+			value.provider as keyof typeof providerConfigMap
+		].parser(value, providerConfig, env, ctx);
+	const linkError = (message: string) =>
+		new RequestError({
+			message,
+			status: 409,
+			endpoint: "account link",
+			project,
+			params,
+			request: ctx.req.raw,
+		});
+
+	const usersTable = OTFusersTable(project.clientID);
+	const db = drizzle(env.AUTH_DB);
+	const user = await db
+		.select()
+		.from(usersTable)
+		.where(eq(usersTable.id, userID))
+		.get();
+	if (!user)
+		throw new RequestError({
+			message: "User not found",
+			status: 404,
+			endpoint: "account link",
+			project,
+			params,
+			request: ctx.req.raw,
+		});
+
+	// the identity can be held by another user, or be the one another user registered with
+	const owner =
+		(await getIdentityUser({
+			env,
+			project,
+			provider: value.provider,
+			subject: userData.identifier,
+		})) ??
+		(await userExists({
+			env,
+			identifier: userData.identifier,
+			clientID: project.clientID,
+		}));
+	if (owner && owner.id !== user.id)
+		throw linkError(
+			`This ${value.provider} account is already linked to another user`,
+		);
+	const current = (
+		await getUserIdentities({ env, project, userID: user.id })
+	).find((identity) => identity.provider === value.provider);
+	if (current && current.provider_subject !== userData.identifier)
+		throw linkError(
+			`Another ${value.provider} account is linked, unlink it first`,
+		);
+
+	const storedData = isPlainObject(user.data) ? user.data : {};
+	const dataToStore = {
+		...storedData,
+		[value.provider]: deepMergeRecords(
+			isPlainObject(storedData[value.provider])
+				? (storedData[value.provider] as Record<string, unknown>)
+				: undefined,
+			userData.data,
+		),
+	};
+	const dbUser =
+		(await db
+			.update(usersTable)
+			.set({ data: dataToStore })
+			.where(eq(usersTable.id, user.id))
+			.returning()
+			.get()) ?? user;
+	await saveUserIdentity({
+		env,
+		project,
+		userID: user.id,
+		provider: value.provider,
+		subject: userData.identifier,
+		email: userData.data?.email,
+	});
+
+	if (!current) {
+		await insertLog({
+			type: "info",
+			message: `User ${user.id} linked a ${value.provider} identity`,
+			clientID: project.clientID,
+			context: { userID: user.id, provider: value.provider },
+			database: env.AUTH_DB,
+			endpoint: "account link",
+		});
+		await new WebHook({ db: env.AUTH_DB }).trigger({
+			clientID: project.clientID,
+			event: "identity_linked",
+			secret: project.secret,
+			data: { userID: user.id, provider: value.provider },
+			request: ctx.req.raw,
+		});
+	}
+
+	return {
+		parser: {
+			identifier: user.identifier,
+			data: { ...userData.data, id: user.id },
+		},
+		dbUser,
+		type: "login",
+	};
+}
+
+/**
+ * User with the same email as a new identity, when the project merge policy allows joining them.
+ * A refused merge is logged and the identity gets its own user.
+ */
+async function getMergeableUser({
+	env,
+	project,
+	provider,
+	data,
+}: {
+	env: Env;
+	project: Project;
+	provider: string;
+	data: Record<string, unknown> | null | undefined;
+}) {
+	const email = getStringProperty(data, "email");
+	if (!email) return undefined;
+	const usersTable = OTFusersTable(project.clientID);
+	const user = await drizzle(env.AUTH_DB)
+		.select()
+		.from(usersTable)
+		.where(eq(usersTable.email, email))
+		.limit(1)
+		.get();
+	if (!user) return undefined;
+	if (
+		isLegacyProviderLink(
+			user.data,
+			provider,
+			await getUserIdentities({ env, project, userID: user.id }),
+		)
+	)
+		return user;
+
+	const reason = getAccountMergeBlockReason(
+		getAccountMergeSettings(project),
+		provider,
+		data,
+	);
+	if (!reason) return user;
+	await insertLog({
+		type: "warning",
+		message: `Sign in with ${provider} was not merged into user ${user.id} with the same email: ${reason}`,
+		clientID: project.clientID,
+		context: {
+			event: "account_merge_blocked",
+			userID: user.id,
+			provider,
+			reason,
+		},
+		database: env.AUTH_DB,
+		endpoint: "getOrCreateUser",
+	});
+	return undefined;
+}
+
 async function userExists({
 	env,
 	identifier,
@@ -2364,6 +5229,12 @@ async function userExists({
 		.then((res) => res ?? undefined);
 }
 
+function isStringArray(value: unknown): value is string[] {
+	return (
+		Array.isArray(value) && value.every((item) => typeof item === "string")
+	);
+}
+
 function isPlainObject(value: unknown): value is Record<string, unknown> {
 	return typeof value === "object" && value !== null && !Array.isArray(value);
 }
@@ -2466,12 +5337,24 @@ async function getOrCreateUser({
 		});
 	}
 
-	const exists = await userExists({
-		env,
-		identifier: userData.identifier,
-		clientID: project.clientID,
-		email: userData.data?.email,
-	});
+	const exists =
+		(await getIdentityUser({
+			env,
+			project,
+			provider: value.provider,
+			subject: userData.identifier,
+		})) ??
+		(await userExists({
+			env,
+			identifier: userData.identifier,
+			clientID: project.clientID,
+		})) ??
+		(await getMergeableUser({
+			env,
+			project,
+			provider: value.provider,
+			data: userData.data,
+		}));
 
 	const inviteHelper = new IniviteManager(env, project, ctx);
 
@@ -2505,6 +5388,7 @@ async function getOrCreateUser({
 			id: crypto.randomUUID(),
 			identifier: exists?.identifier ?? userData.identifier,
 			data: dataToStore,
+			role: getRoleSettings(project).defaultRole,
 			created_at: new Date().toISOString(),
 			email: userData.data?.email ?? null,
 		})
@@ -2530,6 +5414,14 @@ async function getOrCreateUser({
 	log(
 		`Found or created user ${userResult.id} with data ${JSON.stringify(userData.data)}`,
 	);
+	await saveUserIdentity({
+		env,
+		project,
+		userID: userResult.id as string,
+		provider: value.provider,
+		subject: userData.identifier,
+		email: userData.data?.email,
+	});
 
 	if (params.inviteID) await inviteHelper.removeInviteLinkById(params.inviteID);
 	const event: WebHookEvents = exists
@@ -2628,7 +5520,10 @@ function getUserMFATOTP({
 	db: DrizzleD1Database<Record<string, never>> & { $client: D1Database };
 }) {
 	return db
-		.select({ verified: totpTable.is_verified })
+		.select({
+			verified: totpTable.is_verified,
+			backup_codes: totpTable.backup_codes,
+		})
 		.from(totpTable)
 		.where(and(eq(totpTable.user_id, userID), eq(totpTable.clientID, clientID)))
 		.get();
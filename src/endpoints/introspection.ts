@@ -0,0 +1,81 @@
+import {
+	REFRESH_TOKEN_REUSE_SECONDS,
+	type StoredRefreshToken,
+} from "./sessions";
+
+/**
+ * Token introspection response (RFC 7662), the subject properties are added as `properties`.
+ */
+export type IntrospectionResponse =
+	| { active: false }
+	| {
+			active: true;
+			token_type: "access_token" | "refresh_token";
+			client_id: string;
+			sub: string;
+			username?: string;
+			/** permissions of the user, space separated */
+			scope: string;
+			exp?: number;
+			iat?: number;
+			iss?: string;
+			properties: Record<string, unknown>;
+	  };
+
+export const INACTIVE_TOKEN: IntrospectionResponse = { active: false };
+
+/**
+ * Whether a stored refresh token can still be exchanged:
+ * once used it stays valid for the reuse interval only.
+ */
+export function isRefreshTokenActive(
+	stored: Pick<StoredRefreshToken, "timeUsed">,
+	now = Date.now(),
+) {
+	return (
+		stored.timeUsed === undefined ||
+		now < stored.timeUsed + REFRESH_TOKEN_REUSE_SECONDS * 1000
+	);
+}
+
+/**
+ * Build the response of an active token from its subject properties.
+ */
+export function toIntrospectionResponse({
+	tokenType,
+	clientID,
+	subject,
+	properties,
+	exp,
+	iat,
+	iss,
+}: {
+	tokenType: "access_token" | "refresh_token";
+	clientID: string;
+	subject: string;
+	properties: Record<string, unknown>;
+	exp?: number;
+	iat?: number;
+	iss?: string;
+}): IntrospectionResponse {
+	const permissions = Array.isArray(properties.permissions)
+		? (properties.permissions as unknown[]).filter(
+				(permission): permission is string => typeof permission === "string",
+			)
+		: [];
+	return {
+		active: true,
+		token_type: tokenType,
+		client_id: clientID,
+		sub: subject,
+		username:
+			typeof properties.identifier === "string"
+				? properties.identifier
+				: undefined,
+		scope: permissions.join(" "),
+		exp,
+		iat,
+		iss,
+		properties,
+	};
+}
@@ -0,0 +1,90 @@
+import type { Project } from "openauth-webui-shared-types";
+
+/**
+ * Cookie keeping the `ui_locales` authorize param for the rest of the flow.
+ */
+export const COOKIE_UI_LOCALES = "oauth_ui_locales";
+
+/**
+ * Lowercase BCP 47 tag (`fr`, `pt-br`), `null` when the value is not a language tag.
+ */
+export function normalizeLocale(tag: string): string | null {
+	const locale = tag.trim().toLowerCase().replaceAll("_", "-");
+	return /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/.test(locale) ? locale : null;
+}
+
+/**
+ * Locales of an `Accept-Language` header, by preference.
+ */
+export function parseAcceptLanguage(header: string | null | undefined) {
+	return (header ?? "")
+		.split(",")
+		.map((entry, index) => {
+			const [tag, ...params] = entry.split(";");
+			const q = params
+				.map((param) => param.trim().match(/^q=([\d.]+)$/)?.[1])
+				.find(Boolean);
+			return {
+				locale: normalizeLocale(tag),
+				q: q === undefined ? 1 : Number(q),
+				index,
+			};
+		})
+		.filter(
+			(entry): entry is { locale: string; q: number; index: number } =>
+				!!entry.locale && entry.q > 0,
+		)
+		.sort((a, b) => b.q - a.q || a.index - b.index)
+		.map((entry) => entry.locale);
+}
+
+/**
+ * Locales asked by the user: the `ui_locales` param (space-separated) first, then `Accept-Language`.
+ */
+export function getRequestedLocales({
+	uiLocales,
+	acceptLanguage,
+}: {
+	uiLocales?: string | null;
+	acceptLanguage?: string | null;
+}) {
+	const fromParam = (uiLocales ?? "")
+		.split(" ")
+		.map(normalizeLocale)
+		.filter((locale): locale is string => !!locale);
+	return [...new Set([...fromParam, ...parseAcceptLanguage(acceptLanguage)])];
+}
+
+/**
+ * Best available locale for the requested ones: the same locale, then the same language
+ * (`fr-ca` matches `fr`, `fr` matches `fr-ca`), then the default locale.
+ * @returns `null` when none is available.
+ */
+export function selectLocale(
+	requested: string[],
+	available: string[],
+	defaultLocale?: string | null,
+): string | null {
+	for (const locale of requested) {
+		const language = locale.split("-")[0];
+		const match =
+			available.find((candidate) => candidate === locale) ??
+			available.find((candidate) => candidate === language) ??
+			available.find((candidate) => candidate.startsWith(`${language}-`));
+		if (match) return match;
+	}
+	const fallback = defaultLocale ? normalizeLocale(defaultLocale) : null;
+	return fallback && available.includes(fallback) ? fallback : null;
+}
+
+/**
+ * `projectData.defaultLocale`, used when no requested locale is available.
+ */
+export function getDefaultLocale(project: Pick<Project, "projectData">) {
+	const { defaultLocale } = (project.projectData ?? {}) as {
+		defaultLocale?: unknown;
+	};
+	return typeof defaultLocale === "string"
+		? normalizeLocale(defaultLocale)
+		: null;
+}
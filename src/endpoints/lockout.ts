@@ -0,0 +1,91 @@
+export type LockoutPolicy = {
+	/** Failed attempts allowed before the first lockout. */
+	maxAttempts: number;
+	/** Lockout duration (in seconds) applied on the first lockout, doubled on every further failure. */
+	baseDelaySeconds: number;
+	/** Upper bound (in seconds) of a single lockout. */
+	maxDelaySeconds: number;
+	/** Failures older than this window (in seconds) are forgotten. */
+	resetAfterSeconds: number;
+};
+
+export type AttemptState = {
+	failures: number;
+	locked_until: string | null;
+	last_failure_at: string | null;
+};
+
+/**
+ * Per-user counter: a 6-digit code leaves little room, so lock quickly.
+ */
+export const USER_LOCKOUT_POLICY: LockoutPolicy = {
+	maxAttempts: 5,
+	baseDelaySeconds: 30,
+	maxDelaySeconds: 60 * 60,
+	resetAfterSeconds: 60 * 60,
+};
+
+/**
+ * Per-IP counter: shared by every account tried from the same address.
+ */
+export const IP_LOCKOUT_POLICY: LockoutPolicy = {
+	maxAttempts: 20,
+	baseDelaySeconds: 60,
+	maxDelaySeconds: 60 * 60,
+	resetAfterSeconds: 60 * 60,
+};
+
+/**
+ * Lockout duration in seconds for the given number of consecutive failures, 0 while under the threshold.
+ */
+export function getLockoutDelaySeconds(
+	failures: number,
+	policy: LockoutPolicy,
+): number {
+	if (failures < policy.maxAttempts) return 0;
+	const exponent = failures - policy.maxAttempts;
+	return Math.min(
+		policy.baseDelaySeconds * 2 ** Math.min(exponent, 30),
+		policy.maxDelaySeconds,
+	);
+}
+
+/**
+ * Seconds left before a new attempt is allowed, 0 if not locked.
+ */
+export function getRetryAfterSeconds(
+	state: Pick<AttemptState, "locked_until"> | undefined,
+	now = Date.now(),
+): number {
+	if (!state?.locked_until) return 0;
+	const remaining = new Date(state.locked_until).getTime() - now;
+	return remaining > 0 ? Math.ceil(remaining / 1000) : 0;
+}
+
+/**
+ * Compute the counter state after a failed attempt.
+ */
+export function registerFailure(
+	state: AttemptState | undefined,
+	policy: LockoutPolicy,
+	now = Date.now(),
+): AttemptState & { retryAfter: number } {
+	const lastFailure = state?.last_failure_at
+		? new Date(state.last_failure_at).getTime()
+		: 0;
+	const previousFailures =
+		state && now - lastFailure <= policy.resetAfterSeconds * 1000
+			? state.failures
+			: 0;
+	const failures = previousFailures + 1;
+	const retryAfter = getLockoutDelaySeconds(failures, policy);
+
+	return {
+		failures,
+		locked_until: retryAfter
+			? new Date(now + retryAfter * 1000).toISOString()
+			: null,
+		last_failure_at: new Date(now).toISOString(),
+		retryAfter,
+	};
+}
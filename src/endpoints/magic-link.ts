@@ -0,0 +1,169 @@
+import {
+	boolean,
+	fallback,
+	type InferOutput,
+	integer,
+	maxValue,
+	minValue,
+	number,
+	object,
+	optional,
+	parse,
+	pipe,
+} from "valibot";
+
+/**
+ * `data` of a `magiclink` provider, invalid or missing values fall back to the defaults.
+ */
+export const MagicLinkSettingsSchema = object({
+	/** email template of the link, the default one when missing */
+	templateId: fallback(optional(pipe(number(), integer())), undefined),
+	/** seconds the link can be used */
+	ttlSeconds: fallback(
+		optional(pipe(number(), integer(), minValue(60), maxValue(3600)), 600),
+		600,
+	),
+	/** only accept the link in the browser that asked for it */
+	sameBrowser: fallback(optional(boolean(), false), false),
+	/** also send a code to type when the link is opened on another device */
+	fallbackCode: fallback(optional(boolean(), true), true),
+});
+
+export type MagicLinkSettings = InferOutput<typeof MagicLinkSettingsSchema>;
+
+/**
+ * Read the settings of a `magiclink` provider from its `data`.
+ */
+export function getMagicLinkSettings(data: unknown): MagicLinkSettings {
+	return parse(
+		MagicLinkSettingsSchema,
+		typeof data === "object" && data !== null ? data : {},
+	);
+}
+
+/**
+ * Signed content of a magic link.
+ */
+export type MagicLinkPayload = {
+	/** single-use id, the row of `magicLinksTable` */
+	id: string;
+	email: string;
+	/** expiry, epoch seconds */
+	exp: number;
+	/** SHA-256 of the browser binding, when the link is bound to a browser */
+	bnd?: string;
+};
+
+export type MagicLinkError = "invalid" | "expired" | "used" | "other_browser";
+
+const encoder = new TextEncoder();
+
+function toBase64URL(data: Uint8Array) {
+	return data.toBase64({ alphabet: "base64url", omitPadding: true });
+}
+
+function signingKey(secret: string) {
+	return crypto.subtle.importKey(
+		"raw",
+		encoder.encode(secret),
+		{ name: "HMAC", hash: "SHA-256" },
+		false,
+		["sign", "verify"],
+	);
+}
+
+/**
+ * SHA-256 of the browser binding, stored in the link.
+ */
+export async function hashMagicLinkBinding(binding: string) {
+	return toBase64URL(
+		new Uint8Array(
+			await crypto.subtle.digest("SHA-256", encoder.encode(binding)),
+		),
+	);
+}
+
+/**
+ * `<payload>.<signature>` token of a magic link, signed with HMAC-SHA256.
+ */
+export async function signMagicLinkToken(
+	payload: MagicLinkPayload,
+	secret: string,
+) {
+	const data = toBase64URL(encoder.encode(JSON.stringify(payload)));
+	const signature = await crypto.subtle.sign(
+		"HMAC",
+		await signingKey(secret),
+		encoder.encode(data),
+	);
+	return `${data}.${toBase64URL(new Uint8Array(signature))}`;
+}
+
+/**
+ * Check the signature, expiry and browser binding of a magic link token. Whether it was already used
+ * is checked by the caller.
+ * @param binding browser binding of the request, required when the token is bound
+ */
+export async function verifyMagicLinkToken(
+	token: string,
+	secret: string,
+	{ binding, now = Date.now() }: { binding?: string; now?: number } = {},
+): Promise<{ payload: MagicLinkPayload } | { error: MagicLinkError }> {
+	const [data, signature, ...rest] = token.split(".");
+	if (!data || !signature || rest.length) return { error: "invalid" };
+
+	let payload: MagicLinkPayload;
+	try {
+		const valid = await crypto.subtle.verify(
+			"HMAC",
+			await signingKey(secret),
+			Uint8Array.fromBase64(signature, { alphabet: "base64url" }),
+			encoder.encode(data),
+		);
+		if (!valid) return { error: "invalid" };
+		payload = JSON.parse(
+			new TextDecoder().decode(
+				Uint8Array.fromBase64(data, { alphabet: "base64url" }),
+			),
+		);
+	} catch {
+		return { error: "invalid" };
+	}
+
+	if (payload.exp * 1000 <= now) return { error: "expired" };
+	if (
+		payload.bnd &&
+		(!binding || (await hashMagicLinkBinding(binding)) !== payload.bnd)
+	)
+		return { error: "other_browser" };
+	return { payload };
+}
+
+/**
+ * Wrong codes typed for a link before it is revoked, along with its code.
+ */
+export const MAX_MAGIC_LINK_CODE_ATTEMPTS = 5;
+
+/**
+ * Whether a typed code is the emailed one, compared in constant time.
+ */
+export function isMagicLinkCode(expected: string, received: string) {
+	const a = encoder.encode(expected);
+	const b = encoder.encode(received.trim());
+	let diff = a.length ^ b.length;
+	for (let i = 0; i < a.length; i++) diff |= a[i] ^ (b[i] ?? 0);
+	return diff === 0;
+}
+
+/**
+ * Whether a link row can still be used: not expired and not locked by wrong codes.
+ */
+export function isMagicLinkActive(
+	link: { expires_at: string; code_attempts: number },
+	now = Date.now(),
+) {
+	return (
+		new Date(link.expires_at).getTime() > now &&
+		link.code_attempts < MAX_MAGIC_LINK_CODE_ATTEMPTS
+	);
+}
@@ -0,0 +1,149 @@
+import { sql } from "drizzle-orm";
+import type { Project } from "openauth-webui-shared-types";
+import { drizzle, eq, or } from "openauth-webui-shared-types/drizzle";
+import { WebHook } from "openauth-webui-shared-types/webhook";
+import { mfaAttemptsTable } from "../db/schema";
+import {
+	type AttemptState,
+	getLockoutDelaySeconds,
+	getRetryAfterSeconds,
+	IP_LOCKOUT_POLICY,
+	type LockoutPolicy,
+	USER_LOCKOUT_POLICY,
+} from "./lockout";
+
+type Counter = {
+	key: string;
+	scope: "user" | "ip";
+	policy: LockoutPolicy;
+};
+
+/**
+ * Tracks failed TOTP / backup code attempts per user and per IP address and
+ * locks further attempts with an exponential backoff.
+ */
+export class MFAAttemptGuard {
+	private counters: Counter[];
+	private ip: string | null;
+	constructor(
+		private env: Env,
+		private project: Project,
+		private userID: string,
+		private request: Request,
+	) {
+		this.ip = request.headers.get("CF-Connecting-IP");
+		this.counters = [
+			{
+				key: `${project.clientID}:user:${userID}`,
+				scope: "user",
+				policy: USER_LOCKOUT_POLICY,
+			},
+			...(this.ip
+				? [
+						{
+							key: `${project.clientID}:ip:${this.ip}`,
+							scope: "ip" as const,
+							policy: IP_LOCKOUT_POLICY,
+						},
+					]
+				: []),
+		];
+	}
+
+	/**
+	 * Returns the number of seconds to wait before the next attempt, 0 when attempts are allowed.
+	 */
+	async retryAfter(): Promise<number> {
+		const states = await this.getStates();
+		return Math.max(
+			0,
+			...this.counters.map((counter) =>
+				getRetryAfterSeconds(states.get(counter.key)),
+			),
+		);
+	}
+
+	/**
+	 * Record a failed attempt, returns the resulting lockout in seconds (0 when still allowed).
+	 */
+	async recordFailure(): Promise<number> {
+		const db = drizzle(this.env.AUTH_DB);
+		const now = Date.now();
+		let retryAfter = 0;
+
+		for (const counter of this.counters) {
+			// counted in one statement, so that concurrent failures all add up
+			const windowStart = new Date(
+				now - counter.policy.resetAfterSeconds * 1000,
+			).toISOString();
+			const { failures } = await db
+				.insert(mfaAttemptsTable)
+				.values({
+					key: counter.key,
+					clientID: this.project.clientID,
+					failures: 1,
+					last_failure_at: new Date(now).toISOString(),
+				})
+				.onConflictDoUpdate({
+					target: mfaAttemptsTable.key,
+					set: {
+						failures: sql`CASE WHEN ${mfaAttemptsTable.last_failure_at} >= ${windowStart} THEN ${mfaAttemptsTable.failures} + 1 ELSE 1 END`,
+						last_failure_at: new Date(now).toISOString(),
+					},
+				})
+				.returning({ failures: mfaAttemptsTable.failures })
+				.get();
+
+			const delay = getLockoutDelaySeconds(failures, counter.policy);
+			if (!delay) continue;
+			const lockedUntil = new Date(now + delay * 1000).toISOString();
+			await db
+				.update(mfaAttemptsTable)
+				.set({
+					locked_until: sql`max(coalesce(${mfaAttemptsTable.locked_until}, ''), ${lockedUntil})`,
+				})
+				.where(eq(mfaAttemptsTable.key, counter.key))
+				.run();
+			retryAfter = Math.max(retryAfter, delay);
+			await this.notifyLocked(counter, failures, delay);
+		}
+		return retryAfter;
+	}
+
+	/**
+	 * Clear the user counter after a successful attempt. The IP counter is kept so a
+	 * valid account cannot be used to reset the lockout of an address.
+	 */
+	async recordSuccess(): Promise<void> {
+		await drizzle(this.env.AUTH_DB)
+			.delete(mfaAttemptsTable)
+			.where(eq(mfaAttemptsTable.key, this.counters[0].key))
+			.run();
+	}
+
+	private async getStates(): Promise<Map<string, AttemptState>> {
+		const rows = await drizzle(this.env.AUTH_DB)
+			.select()
+			.from(mfaAttemptsTable)
+			.where(or(...this.counters.map((c) => eq(mfaAttemptsTable.key, c.key))))
+			.all();
+		return new Map(rows.map((row) => [row.key, row]));
+	}
+
+	private notifyLocked(counter: Counter, failures: number, retryAfter: number) {
+		return new WebHook({ db: this.env.AUTH_DB }).trigger({
+			clientID: this.project.clientID,
+			event: "mfa_locked",
+			data: {
+				userID: this.userID,
+				scope: counter.scope,
+				ip: this.ip,
+				failures,
+				retry_after: retryAfter,
+			},
+			secret: this.project.secret,
+			log: true,
+			request: this.request,
+		});
+	}
+}
@@ -0,0 +1,102 @@
+import type { Project } from "openauth-webui-shared-types";
+import { boolean, fallback, object, optional, parse } from "valibot";
+import type { MFAChallenge } from "../mfa-provider";
+
+/**
+ * `projectData.mfa` settings, invalid or missing values fall back to the defaults.
+ */
+export const MFALoginSettingsSchema = object({
+	/** challenge users with a verified TOTP or a passkey before issuing their tokens */
+	requireAtLogin: fallback(optional(boolean(), false), false),
+});
+
+/**
+ * Read the project login MFA policy from `projectData.mfa`.
+ */
+export function getMFALoginSettings(project: Pick<Project, "projectData">) {
+	const { mfa } = (project.projectData ?? {}) as { mfa?: unknown };
+	return parse(
+		MFALoginSettingsSchema,
+		typeof mfa === "object" && mfa !== null ? mfa : {},
+	);
+}
+
+/** Second factors accepted by the login challenge. */
+export type LoginMFAMethod = "totp" | "backup_code" | "passkey";
+
+/**
+ * Authentication method reference (RFC 8176) of each second factor.
+ */
+export const LOGIN_MFA_AMR: Record<LoginMFAMethod, string> = {
+	totp: "otp",
+	backup_code: "otp",
+	passkey: "hwk",
+};
+
+/**
+ * Authentication method references (RFC 8176) of the first factor, from the provider used to sign in.
+ * Social and OIDC providers are reported as `fed` (federated).
+ */
+export function getProviderAMR(provider: string): string[] {
+	switch (provider) {
+		case "password":
+			return ["pwd"];
+		case "code":
+		// the link and its fallback code are one-time secrets sent by email
+		case "magiclink":
+			return ["otp"];
+		case "passkey":
+			return ["hwk", "user"];
+		case "qr":
+			// approved from a device where the user is already signed in
+			return ["mca"];
+		default:
+			return ["fed"];
+	}
+}
+
+/**
+ * Add the second factor to the first factor methods, along with `mfa`.
+ */
+export function addMFAToAMR(amr: string[], method: LoginMFAMethod): string[] {
+	return [...new Set([...amr, LOGIN_MFA_AMR[method], "mfa"])];
+}
+
+/**
+ * Passkey relying party of the pages served by the issuer, the MFA challenge among them: the assertion
+ * runs on the issuer origin, whatever the origin of the project.
+ */
+export function getIssuerRelyingParty(requestURL: string) {
+	const { origin, hostname } = new URL(requestURL);
+	return { origin, rpID: hostname };
+}
+
+/**
+ * Second factors of the user of a pending login, see `getLoginMFAChallenge`.
+ */
+export type LoginMFAFactors = {
+	hasVerifiedTOTP(): Promise<boolean>;
+	hasPasskeys(): Promise<boolean>;
+	/** start an assertion for the passkeys of the user */
+	startPasskeyAssertion(rpID: string): Promise<MFAChallenge["passkey"] | null>;
+};
+
+/**
+ * Challenge shown on the hosted MFA page, the passkey assertion is only started for users with
+ * passkeys.
+ * @param requestURL URL of the MFA page, served by the issuer
+ */
+export async function getLoginMFAChallenge(
+	factors: LoginMFAFactors,
+	requestURL: string,
+): Promise<MFAChallenge> {
+	const passkey = (await factors.hasPasskeys())
+		? await factors.startPasskeyAssertion(
+				getIssuerRelyingParty(requestURL).rpID,
+			)
+		: null;
+	return {
+		totp: await factors.hasVerifiedTOTP(),
+		passkey: passkey ?? undefined,
+	};
+}
@@ -0,0 +1,217 @@
+import {
+	type AuthenticationResponseJSON,
+	type AuthenticatorTransportFuture,
+	type VerifiedAuthenticationResponse,
+	verifyAuthenticationResponse,
+} from "@simplewebauthn/server";
+
+/**
+ * Milliseconds a registration or assertion challenge can be answered.
+ */
+export const PASSKEY_CHALLENGE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+
+export type StoredPasskeyChallenge = {
+	challenge: string;
+	expires_at: string;
+};
+
+export type StoredPasskeyCredential = {
+	credential_id: string;
+	/** COSE public key, base64 */
+	public_key: string;
+	counter: number;
+	transports: unknown;
+};
+
+export type PasskeyAssertionError =
+	| "invalid_challenge"
+	| "unknown_credential"
+	| "counter_mismatch"
+	| "verification_failed";
+
+/**
+ * Whether a challenge can still be answered: it exists (it is deleted once answered) and did not expire.
+ */
+export function isPasskeyChallengeActive(
+	challenge: StoredPasskeyChallenge | null | undefined,
+	now = Date.now(),
+): challenge is StoredPasskeyChallenge {
+	return (
+		Boolean(challenge) && new Date(challenge?.expires_at ?? 0).getTime() >= now
+	);
+}
+
+/**
+ * Signature counter of an assertion, read from its authenticator data (bytes 33 to 36).
+ */
+export function getAssertionCounter(
+	response: AuthenticationResponseJSON,
+): number | null {
+	try {
+		const data = Uint8Array.fromBase64(response.response.authenticatorData, {
+			alphabet: "base64url",
+		});
+		if (data.length < 37) return null;
+		return new DataView(data.buffer, data.byteOffset).getUint32(33);
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Whether the counter went backwards or stalled, the sign of a cloned authenticator. Authenticators
+ * without a counter always report 0.
+ */
+export function isPasskeyCounterRegression(stored: number, received: number) {
+	return (received > 0 || stored > 0) && received <= stored;
+}
+
+/**
+ * Check an assertion against the challenge it answers and the credential it claims to come from.
+ * @param challenge the stored challenge, `undefined` when it does not exist or was already answered
+ * @param credential the credential of the user with the id of the assertion, `undefined` when unknown
+ */
+export async function verifyPasskeyAssertion({
+	challenge,
+	credential,
+	response,
+	origin,
+	rpID,
+	now = Date.now(),
+}: {
+	challenge: StoredPasskeyChallenge | null | undefined;
+	credential: StoredPasskeyCredential | null | undefined;
+	response: AuthenticationResponseJSON;
+	origin: string;
+	rpID: string;
+	now?: number;
+}): Promise<
+	| {
+			authenticationInfo: VerifiedAuthenticationResponse["authenticationInfo"];
+	  }
+	| { error: PasskeyAssertionError; message: string }
+> {
+	if (!isPasskeyChallengeActive(challenge, now))
+		return {
+			error: "invalid_challenge",
+			message: "Invalid or expired challenge",
+		};
+	if (!credential)
+		return {
+			error: "unknown_credential",
+			message: "Unknown passkey for this user",
+		};
+
+	let verification: VerifiedAuthenticationResponse;
+	try {
+		verification = await verifyAuthenticationResponse({
+			response,
+			expectedChallenge: challenge.challenge,
+			expectedOrigin: origin,
+			expectedRPID: rpID,
+			credential: {
+				id: credential.credential_id,
+				publicKey: Uint8Array.fromBase64(credential.public_key),
+				counter: credential.counter,
+				transports: (Array.isArray(credential.transports)
+					? credential.transports
+					: []) as AuthenticatorTransportFuture[],
+			},
+		});
+	} catch (error) {
+		const counter = getAssertionCounter(response);
+		if (
+			counter !== null &&
+			isPasskeyCounterRegression(credential.counter, counter)
+		)
+			return {
+				error: "counter_mismatch",
+				message: "Passkey counter mismatch",
+			};
+		return {
+			error: "verification_failed",
+			message: error instanceof Error ? error.message : String(error),
+		};
+	}
+	if (!verification.verified)
+		return {
+			error: "verification_failed",
+			message: "Passkey verification failed",
+		};
+	return { authenticationInfo: verification.authenticationInfo };
+}
+
+/**
+ * Passkey of a user as listed to them and the project backend.
+ */
+export type PasskeySummary = {
+	id: string;
+	name: string | null;
+	device_type: string | null;
+	backed_up: boolean | null;
+	transports: unknown;
+	created_at: string | null;
+	last_used_at: string | null;
+};
+
+/**
+ * Passkeys of a project, see `getPasskeyStore` for the D1 one.
+ */
+export type PasskeyCredentialStore = {
+	list(userID: string): Promise<PasskeySummary[]>;
+	/** whether the credential belongs to the user */
+	owns(userID: string, credentialID: string): Promise<boolean>;
+	rename(credentialID: string, name: string): Promise<void>;
+	remove(credentialID: string): Promise<void>;
+	touch(credentialID: string, lastUsedAt: string): Promise<void>;
+};
+
+export const MAX_PASSKEY_NAME_LENGTH = 64;
+
+/**
+ * Rename a passkey of the user, the passkeys of other users are reported as not found.
+ */
+export async function renamePasskey(
+	store: PasskeyCredentialStore,
+	{
+		userID,
+		credentialID,
+		name,
+	}: { userID: string; credentialID: string; name?: unknown },
+): Promise<{ error?: string; status?: 400 | 404 }> {
+	const trimmedName = typeof name === "string" ? name.trim() : "";
+	if (!trimmedName || trimmedName.length > MAX_PASSKEY_NAME_LENGTH) {
+		return {
+			error: `name is required and must be at most ${MAX_PASSKEY_NAME_LENGTH} characters`,
+			status: 400,
+		};
+	}
+	if (!(await store.owns(userID, credentialID)))
+		return { error: "Passkey not found", status: 404 };
+	await store.rename(credentialID, trimmedName);
+	return {};
+}
+
+/**
+ * Revoke a passkey of the user, the passkeys of other users are reported as not found.
+ */
+export async function revokePasskey(
+	store: PasskeyCredentialStore,
+	{ userID, credentialID }: { userID: string; credentialID: string },
+): Promise<{ error?: string; status?: 404 }> {
+	if (!(await store.owns(userID, credentialID)))
+		return { error: "Passkey not found", status: 404 };
+	await store.remove(credentialID);
+	return {};
+}
+
+/**
+ * Credential id of the assertion posted to a passkey login, either the `AuthenticationResponseJSON`
+ * itself or wrapped in a `response` field.
+ */
+export function getAssertionCredentialID(body: unknown): string | null {
+	if (typeof body !== "object" || body === null) return null;
+	const { id, response } = body as { id?: unknown; response?: unknown };
+	if (typeof id === "string" && id) return id;
+	return response === body ? null : getAssertionCredentialID(response);
+}
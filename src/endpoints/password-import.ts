@@ -0,0 +1,345 @@
+import { argon2idAsync } from "@noble/hashes/argon2.js";
+import { sha1 } from "@noble/hashes/legacy.js";
+import { pbkdf2Async } from "@noble/hashes/pbkdf2.js";
+import { scryptAsync } from "@noble/hashes/scrypt.js";
+import { sha256, sha512 } from "@noble/hashes/sha2.js";
+import bcrypt from "bcryptjs";
+import {
+	check,
+	email,
+	type InferOutput,
+	integer,
+	is,
+	literal,
+	maxValue,
+	minLength,
+	minValue,
+	number,
+	object,
+	optional,
+	picklist,
+	pipe,
+	record,
+	regex,
+	string,
+	toLowerCase,
+	trim,
+	unknown,
+	variant,
+} from "valibot";
+
+const requiredString = () => pipe(string(), minLength(1));
+const positiveInteger = (max: number) =>
+	pipe(number(), integer(), minValue(1), maxValue(max));
+const encoding = optional(picklist(["base64", "hex"]), "base64");
+
+/**
+ * Highest costs of the imported hashes, a hash is checked on each login of its user until it is replaced
+ * by the native one.
+ */
+export const PASSWORD_IMPORT_LIMITS = {
+	bcryptCost: 15,
+	/** memory of scrypt, `128 * N * r` bytes */
+	scryptMemory: 64 * 1024 * 1024,
+	scryptParallelism: 16,
+	pbkdf2Iterations: 1_000_000,
+	/** KiB */
+	argon2Memory: 64 * 1024,
+	argon2Iterations: 10,
+	argon2Parallelism: 16,
+};
+
+const isPowerOfTwo = (value: number) => Number.isInteger(Math.log2(value));
+
+const scryptMemory = (N: number, r: number) => 128 * N * r;
+
+/**
+ * Parameters of an argon2id PHC string, `null` when it is malformed or above the limits.
+ */
+export function getArgon2Params(phc: string) {
+	const [, , version, params, salt, hash] = phc.split("$");
+	const options = Object.fromEntries(
+		(params ?? "").split(",").map((param) => {
+			const [key, value] = param.split("=");
+			return [key, Number(value)];
+		}),
+	);
+	const { m, t, p } = options;
+	if (!salt || !hash || ![m, t, p].every((n) => Number.isInteger(n) && n > 0))
+		return null;
+	if (
+		m > PASSWORD_IMPORT_LIMITS.argon2Memory ||
+		t > PASSWORD_IMPORT_LIMITS.argon2Iterations ||
+		p > PASSWORD_IMPORT_LIMITS.argon2Parallelism
+	)
+		return null;
+	return {
+		m,
+		t,
+		p,
+		version: Number(version?.replace("v=", "")) || 0x13,
+		salt,
+		hash,
+	};
+}
+
+/**
+ * Password hash exported by another identity provider.
+ */
+export const ImportedPasswordHashSchema = variant("algorithm", [
+	object({
+		algorithm: literal("bcrypt"),
+		/** modular crypt format, `$2a$`, `$2b$` or `$2y$` */
+		hash: pipe(
+			string(),
+			regex(/^\$2[aby]\$\d{2}\$/),
+			check(
+				(hash) => Number(hash.slice(4, 6)) <= PASSWORD_IMPORT_LIMITS.bcryptCost,
+				`bcrypt cost must be at most ${PASSWORD_IMPORT_LIMITS.bcryptCost}`,
+			),
+		),
+	}),
+	pipe(
+		object({
+			algorithm: literal("scrypt"),
+			hash: requiredString(),
+			salt: requiredString(),
+			/** encoding of `hash` and `salt` */
+			encoding,
+			N: pipe(
+				positiveInteger(2 ** 30),
+				check(isPowerOfTwo, "N must be a power of two"),
+			),
+			r: positiveInteger(2 ** 30),
+			p: positiveInteger(PASSWORD_IMPORT_LIMITS.scryptParallelism),
+		}),
+		check(
+			({ N, r }) => scryptMemory(N, r) <= PASSWORD_IMPORT_LIMITS.scryptMemory,
+			"scrypt N and r use too much memory",
+		),
+	),
+	pipe(
+		object({
+			/** Firebase modified scrypt, with the parameters of the project hash config */
+			algorithm: literal("firebase_scrypt"),
+			hash: requiredString(),
+			salt: requiredString(),
+			signerKey: requiredString(),
+			saltSeparator: requiredString(),
+			rounds: positiveInteger(2 ** 30),
+			/** log2 of the scrypt N */
+			memCost: positiveInteger(30),
+		}),
+		check(
+			({ memCost, rounds }) =>
+				scryptMemory(2 ** memCost, rounds) <=
+				PASSWORD_IMPORT_LIMITS.scryptMemory,
+			"firebase_scrypt memCost and rounds use too much memory",
+		),
+	),
+	object({
+		algorithm: literal("argon2id"),
+		/** PHC string, `$argon2id$v=19$m=65536,t=3,p=4$<salt>$<hash>` */
+		hash: pipe(
+			string(),
+			regex(/^\$argon2id\$/),
+			check(
+				(hash) => getArgon2Params(hash) !== null,
+				"argon2id parameters are malformed or too high",
+			),
+		),
+	}),
+	object({
+		algorithm: literal("pbkdf2"),
+		hash: requiredString(),
+		salt: requiredString(),
+		encoding,
+		iterations: positiveInteger(PASSWORD_IMPORT_LIMITS.pbkdf2Iterations),
+		digest: optional(picklist(["sha1", "sha256", "sha512"]), "sha256"),
+	}),
+]);
+
+export type ImportedPasswordHash = InferOutput<
+	typeof ImportedPasswordHashSchema
+>;
+
+/**
+ * Users sent at once to `POST /admin/users/import`.
+ */
+export const MAX_PASSWORD_IMPORT_USERS = 500;
+
+/**
+ * User of `POST /admin/users/import`.
+ */
+export const PasswordImportUserSchema = object({
+	email: pipe(string(), trim(), toLowerCase(), email()),
+	password_hash: ImportedPasswordHashSchema,
+	/** extra user data, stored with the user */
+	data: optional(record(string(), unknown())),
+});
+
+export type PasswordImportUser = InferOutput<typeof PasswordImportUserSchema>;
+
+/**
+ * Password of the issuer storage still in the format of the provider it was imported from, replaced by
+ * the native hash on the next successful login.
+ */
+export type StoredImportedPassword = {
+	imported: ImportedPasswordHash;
+	/** email of the storage key, to save the native hash */
+	email: string;
+};
+
+export function isStoredImportedPassword(
+	value: unknown,
+): value is StoredImportedPassword {
+	return (
+		typeof value === "object" &&
+		value !== null &&
+		"imported" in value &&
+		is(ImportedPasswordHashSchema, value.imported) &&
+		"email" in value &&
+		typeof value.email === "string"
+	);
+}
+
+const encoder = new TextEncoder();
+
+function decode(value: string, encoding: "base64" | "hex" = "base64") {
+	return encoding === "hex"
+		? Uint8Array.fromHex(value)
+		: Uint8Array.fromBase64(value.replaceAll("-", "+").replaceAll("_", "/"));
+}
+
+/** Base64 of the PHC strings, without padding. */
+function decodePHC(value: string) {
+	return Uint8Array.fromBase64(value, { lastChunkHandling: "loose" });
+}
+
+function timingSafeEqual(a: Uint8Array, b: Uint8Array) {
+	if (a.length !== b.length) return false;
+	let diff = 0;
+	for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+	return diff === 0;
+}
+
+async function verifyArgon2id(password: string, phc: string) {
+	const params = getArgon2Params(phc);
+	if (!params) return false;
+	const expected = decodePHC(params.hash);
+	return timingSafeEqual(
+		await argon2idAsync(password, decodePHC(params.salt), {
+			m: params.m,
+			t: params.t,
+			p: params.p,
+			version: params.version,
+			dkLen: expected.length,
+		}),
+		expected,
+	);
+}
+
+async function verifyFirebaseScrypt(
+	password: string,
+	imported: Extract<ImportedPasswordHash, { algorithm: "firebase_scrypt" }>,
+) {
+	// the derived key encrypts the project signer key, the result is the stored hash
+	const key = new Uint8Array(
+		await scryptAsync(
+			password,
+			new Uint8Array([
+				...decode(imported.salt),
+				...decode(imported.saltSeparator),
+			]),
+			{ N: 2 ** imported.memCost, r: imported.rounds, p: 1, dkLen: 32 },
+		),
+	);
+	const cipher = await crypto.subtle.encrypt(
+		{ name: "AES-CTR", counter: new Uint8Array(16), length: 128 },
+		await crypto.subtle.importKey("raw", key, "AES-CTR", false, ["encrypt"]),
+		decode(imported.signerKey),
+	);
+	return timingSafeEqual(new Uint8Array(cipher), decode(imported.hash));
+}
+
+/**
+ * Highest PBKDF2 iterations of WebCrypto on Workers, higher ones are derived in JS.
+ */
+export const WEBCRYPTO_PBKDF2_MAX_ITERATIONS = 100_000;
+
+async function verifyPBKDF2(
+	password: string,
+	imported: Extract<ImportedPasswordHash, { algorithm: "pbkdf2" }>,
+) {
+	const expected = decode(imported.hash, imported.encoding);
+	const salt = decode(imported.salt, imported.encoding);
+	if (imported.iterations > WEBCRYPTO_PBKDF2_MAX_ITERATIONS)
+		return timingSafeEqual(
+			await pbkdf2Async(
+				{ sha1, sha256, sha512 }[imported.digest],
+				password,
+				salt,
+				{ c: imported.iterations, dkLen: expected.length },
+			),
+			expected,
+		);
+	const bits = await crypto.subtle.deriveBits(
+		{
+			name: "PBKDF2",
+			hash: { sha1: "SHA-1", sha256: "SHA-256", sha512: "SHA-512" }[
+				imported.digest
+			],
+			salt,
+			iterations: imported.iterations,
+		},
+		await crypto.subtle.importKey(
+			"raw",
+			encoder.encode(password),
+			"PBKDF2",
+			false,
+			["deriveBits"],
+		),
+		expected.length * 8,
+	);
+	return timingSafeEqual(new Uint8Array(bits), expected);
+}
+
+/**
+ * Check a password against a hash imported from another identity provider, `false` when the hash can
+ * not be derived, e.g. malformed encodings.
+ */
+export async function verifyImportedPassword(
+	password: string,
+	imported: ImportedPasswordHash,
+): Promise<boolean> {
+	try {
+		switch (imported.algorithm) {
+			case "bcrypt":
+				return await bcrypt.compare(password, imported.hash);
+			case "scrypt": {
+				const expected = decode(imported.hash, imported.encoding);
+				return timingSafeEqual(
+					await scryptAsync(
+						password,
+						decode(imported.salt, imported.encoding),
+						{
+							N: imported.N,
+							r: imported.r,
+							p: imported.p,
+							dkLen: expected.length,
+						},
+					),
+					expected,
+				);
+			}
+			case "firebase_scrypt":
+				return await verifyFirebaseScrypt(password, imported);
+			case "argon2id":
+				return await verifyArgon2id(password, imported.hash);
+			case "pbkdf2":
+				return await verifyPBKDF2(password, imported);
+		}
+	} catch {
+		return false;
+	}
+}
@@ -0,0 +1,250 @@
+import {
+	boolean,
+	fallback,
+	type InferOutput,
+	integer,
+	maxValue,
+	minValue,
+	number,
+	object,
+	optional,
+	parse,
+	pipe,
+} from "valibot";
+
+const optionalLength = () =>
+	fallback(optional(pipe(number(), integer(), minValue(1))), undefined);
+
+/**
+ * Password rules of the `password` provider `data`, invalid or missing values fall back to the defaults.
+ */
+export const PasswordPolicySchema = object({
+	minLength: optionalLength(),
+	maxLength: optionalLength(),
+	requireUppercase: fallback(optional(boolean(), false), false),
+	requireNumber: fallback(optional(boolean(), false), false),
+	requireSpecialChar: fallback(optional(boolean(), false), false),
+	/** refuse passwords containing the email or its local part */
+	disallowIdentifier: fallback(optional(boolean(), false), false),
+	/** minimum `estimatePasswordStrength` score, 0 to 4 */
+	minStrength: fallback(
+		optional(pipe(number(), integer(), minValue(0), maxValue(4)), 0),
+		0,
+	),
+	/** refuse passwords found in the Have I Been Pwned breaches */
+	breachCheck: fallback(optional(boolean(), false), false),
+});
+
+export type PasswordPolicy = InferOutput<typeof PasswordPolicySchema>;
+
+/**
+ * Read the password rules of a `password` provider from its `data`.
+ */
+export function getPasswordPolicy(data: unknown): PasswordPolicy {
+	return parse(
+		PasswordPolicySchema,
+		typeof data === "object" && data !== null ? data : {},
+	);
+}
+
+export type PasswordPolicyViolation =
+	| "too_short"
+	| "too_long"
+	| "missing_uppercase"
+	| "missing_number"
+	| "missing_special_char"
+	| "contains_identifier"
+	| "too_weak"
+	| "breached";
+
+/** Passwords and patterns tried first by attackers, matched in place of brute force. */
+const COMMON_WORDS = [
+	"password",
+	"passw0rd",
+	"letmein",
+	"welcome",
+	"admin",
+	"login",
+	"master",
+	"monkey",
+	"dragon",
+	"football",
+	"baseball",
+	"sunshine",
+	"iloveyou",
+	"princess",
+	"shadow",
+	"superman",
+	"trustno1",
+	"secret",
+	"qwerty",
+	"azerty",
+	"asdfgh",
+	"zxcvbn",
+	"qwertyuiop",
+	"asdfghjkl",
+	"zxcvbnm",
+	"1qaz2wsx",
+	"abc123",
+	"123qwe",
+	"000000",
+	"111111",
+	"123123",
+	"654321",
+	"123456789",
+];
+
+function charsetSize(password: string) {
+	let size = 0;
+	if (/[a-z]/.test(password)) size += 26;
+	if (/[A-Z]/.test(password)) size += 26;
+	if (/\d/.test(password)) size += 10;
+	if (/[^a-zA-Z\d]/.test(password)) size += 33;
+	return size || 1;
+}
+
+/**
+ * `log10` of the guesses needed for the pattern starting at `start`, and its length, or `null` when
+ * none starts there: a dictionary word (common passwords and the user inputs), a repeated character or
+ * a sequence such as `abc` or `987`.
+ */
+function matchPattern(
+	lower: string,
+	start: number,
+	words: string[],
+): { length: number; log10: number } | null {
+	let best: { length: number; log10: number } | null = null;
+	const consider = (length: number, log10: number) => {
+		if (length >= 3 && (!best || length > best.length))
+			best = { length, log10 };
+	};
+
+	for (const [rank, word] of words.entries())
+		if (lower.startsWith(word, start))
+			consider(word.length, Math.log10(rank + 2));
+
+	let repeat = 1;
+	while (lower[start + repeat] === lower[start]) repeat++;
+	consider(repeat, Math.log10(charsetSize(lower[start]) * repeat));
+
+	const step = lower.charCodeAt(start + 1) - lower.charCodeAt(start);
+	if (step === 1 || step === -1) {
+		let length = 2;
+		while (
+			lower.charCodeAt(start + length) -
+				lower.charCodeAt(start + length - 1) ===
+			step
+		)
+			length++;
+		consider(length, Math.log10(26 * length));
+	}
+	return best;
+}
+
+/**
+ * Estimate of how hard a password is to guess, in the spirit of zxcvbn: common words, the user inputs,
+ * repeats and sequences count as a few guesses, the other characters as brute force.
+ * @param userInputs words of the user (email, name) that make a password weaker
+ * @returns the `score` from 0 (guessable) to 4 (very unguessable) and the `log10` of the guesses.
+ */
+export function estimatePasswordStrength(
+	password: string,
+	userInputs: string[] = [],
+): { score: number; guessesLog10: number } {
+	const lower = password.toLowerCase();
+	const words = [
+		...userInputs.map((input) => input.toLowerCase()).filter(Boolean),
+		...COMMON_WORDS,
+	];
+	const bruteForce = Math.log10(charsetSize(password));
+
+	let guessesLog10 = 0;
+	let position = 0;
+	while (position < lower.length) {
+		const match = matchPattern(lower, position, words);
+		guessesLog10 += match ? match.log10 : bruteForce;
+		position += match ? match.length : 1;
+	}
+
+	const thresholds = [3, 6, 8, 10];
+	const score = thresholds.filter(
+		(threshold) => guessesLog10 > threshold,
+	).length;
+	return { score, guessesLog10 };
+}
+
+/**
+ * Words of an email a password must not contain: the address and its local part.
+ */
+export function getIdentifierInputs(email: string | null | undefined) {
+	if (!email) return [];
+	const local = email.split("@")[0];
+	return [email, ...(local.length >= 3 ? [local] : [])];
+}
+
+/**
+ * First rule of the policy the password breaks, except the breach check.
+ * @param email email of the account, for `disallowIdentifier` and the strength estimate
+ */
+export function checkPasswordPolicy(
+	password: string,
+	policy: PasswordPolicy,
+	email?: string | null,
+): PasswordPolicyViolation | null {
+	const identifierInputs = getIdentifierInputs(email);
+	if (policy.minLength && password.length < policy.minLength)
+		return "too_short";
+	if (policy.maxLength && password.length > policy.maxLength) return "too_long";
+	if (policy.requireUppercase && password === password.toLocaleLowerCase())
+		return "missing_uppercase";
+	if (policy.requireNumber && !/\d/.test(password)) return "missing_number";
+	if (policy.requireSpecialChar && !/[^\p{L}\p{N}\s]/u.test(password))
+		return "missing_special_char";
+	if (
+		policy.disallowIdentifier &&
+		identifierInputs.some((input) =>
+			password.toLowerCase().includes(input.toLowerCase()),
+		)
+	)
+		return "contains_identifier";
+	if (
+		policy.minStrength &&
+		estimatePasswordStrength(password, identifierInputs).score <
+			policy.minStrength
+	)
+		return "too_weak";
+	return null;
+}
+
+/**
+ * Fetch the Have I Been Pwned range of a SHA-1 prefix: `<suffix>:<count>` lines.
+ */
+export async function fetchPwnedPasswordsRange(prefix: string) {
+	const res = await fetch(`https://api.pwnedpasswords.com/range/${prefix}`, {
+		headers: { "Add-Padding": "true" },
+		signal: AbortSignal.timeout(3000),
+	});
+	if (!res.ok) throw new Error(`Pwned Passwords error ${res.status}`);
+	return res.text();
+}
+
+/**
+ * Whether the password appears in a breach, with the k-anonymity range API: only the first 5 characters
+ * of its SHA-1 are sent.
+ */
+export async function isPasswordBreached(
+	password: string,
+	fetchRange: (prefix: string) => Promise<string> = fetchPwnedPasswordsRange,
+) {
+	const hash = new Uint8Array(
+		await crypto.subtle.digest("SHA-1", new TextEncoder().encode(password)),
+	)
+		.toHex()
+		.toUpperCase();
+	const suffix = hash.slice(5);
+	return (await fetchRange(hash.slice(0, 5))).split("\n").some((line) => {
+		const [candidate, count] = line.trim().split(":");
+		// padding entries have a count of 0
+		return candidate === suffix && Number(count) > 0;
+	});
+}
@@ -0,0 +1,189 @@
+import type { Project } from "openauth-webui-shared-types";
+import {
+	boolean,
+	fallback,
+	type InferOutput,
+	integer,
+	minValue,
+	number,
+	object,
+	optional,
+	parse,
+	pipe,
+} from "valibot";
+
+/**
+ * At most `limit` requests per window of `windowSeconds`.
+ */
+export type RateLimitRule = {
+	limit: number;
+	windowSeconds: number;
+};
+
+/** Routes sharing the same limits. */
+export type RateLimitGroup = "code" | "password" | "management" | "session";
+
+export const DEFAULT_RATE_LIMITS: Record<RateLimitGroup, RateLimitRule> = {
+	/** code sending and verification of the code and magic link providers */
+	code: { limit: 10, windowSeconds: 600 },
+	/** password login, registration and change */
+	password: { limit: 10, windowSeconds: 300 },
+	/** `/user*` and `/users*` management endpoints */
+	management: { limit: 300, windowSeconds: 60 },
+	/** `/session/*` endpoints */
+	session: { limit: 120, windowSeconds: 60 },
+};
+
+const RateLimitRuleSchema = (rule: RateLimitRule) =>
+	fallback(
+		optional(
+			object({
+				limit: pipe(number(), integer(), minValue(1)),
+				windowSeconds: pipe(number(), integer(), minValue(1)),
+			}),
+			rule,
+		),
+		rule,
+	);
+
+/**
+ * `projectData.rateLimit` settings, invalid or missing values fall back to the defaults.
+ */
+export const RateLimitSettingsSchema = object({
+	enabled: fallback(optional(boolean(), true), true),
+	code: RateLimitRuleSchema(DEFAULT_RATE_LIMITS.code),
+	password: RateLimitRuleSchema(DEFAULT_RATE_LIMITS.password),
+	management: RateLimitRuleSchema(DEFAULT_RATE_LIMITS.management),
+	session: RateLimitRuleSchema(DEFAULT_RATE_LIMITS.session),
+});
+
+export type RateLimitSettings = InferOutput<typeof RateLimitSettingsSchema>;
+
+/**
+ * Read the project rate limits from `projectData.rateLimit`.
+ */
+export function getRateLimitSettings(
+	project: Pick<Project, "projectData">,
+): RateLimitSettings {
+	const { rateLimit } = (project.projectData ?? {}) as { rateLimit?: unknown };
+	return parse(
+		RateLimitSettingsSchema,
+		typeof rateLimit === "object" && rateLimit !== null ? rateLimit : {},
+	);
+}
+
+/**
+ * Requests counted in the current window of a key.
+ */
+export type RateLimitState = {
+	count: number;
+	/** requests refused in the current window */
+	blocked?: number;
+	/** end of the window, in milliseconds since the epoch */
+	resetAt: number;
+};
+
+export type RateLimitResult = {
+	allowed: boolean;
+	limit: number;
+	remaining: number;
+	/** seconds until the window resets */
+	reset: number;
+	/** set on a refused request, `true` for the first one refused in the window */
+	firstBlocked?: boolean;
+};
+
+/**
+ * Count a request in a fixed window.
+ * @returns the state to store and the result of the request.
+ */
+export function consumeRateLimit(
+	state: RateLimitState | undefined,
+	rule: RateLimitRule,
+	now = Date.now(),
+): { state: RateLimitState; result: RateLimitResult } {
+	const current =
+		state && state.resetAt > now
+			? state
+			: { count: 0, resetAt: now + rule.windowSeconds * 1000 };
+	const allowed = current.count < rule.limit;
+	const next = allowed
+		? { ...current, count: current.count + 1 }
+		: { ...current, blocked: (current.blocked ?? 0) + 1 };
+	return {
+		state: next,
+		result: {
+			allowed,
+			limit: rule.limit,
+			remaining: Math.max(0, rule.limit - next.count),
+			reset: Math.ceil((next.resetAt - now) / 1000),
+			...(allowed ? {} : { firstBlocked: next.blocked === 1 }),
+		},
+	};
+}
+
+/**
+ * Backend keeping the rate limit counters.
+ */
+export interface RateLimitStore {
+	hit(key: string, rule: RateLimitRule): Promise<RateLimitResult>;
+}
+
+/**
+ * Counters kept in memory, for tests and local development: they are not shared between isolates.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+	private states = new Map<string, RateLimitState>();
+
+	constructor(private now: () => number = Date.now) {}
+
+	async hit(key: string, rule: RateLimitRule): Promise<RateLimitResult> {
+		const { state, result } = consumeRateLimit(
+			this.states.get(key),
+			rule,
+			this.now(),
+		);
+		this.states.set(key, state);
+		return result;
+	}
+}
+
+/**
+ * Count a request for every key (at least one), the most restrictive result wins:
+ * a blocked key over an allowed one, then the longest wait or the fewest remaining requests.
+ * `firstBlocked` is set when any key refuses its first request of the window.
+ */
+export async function hitRateLimits(
+	store: RateLimitStore,
+	keys: string[],
+	rule: RateLimitRule,
+): Promise<RateLimitResult> {
+	const results = await Promise.all(keys.map((key) => store.hit(key, rule)));
+	const strictest = results.reduce((strictest, result) => {
+		if (result.allowed !== strictest.allowed)
+			return result.allowed ? strictest : result;
+		if (!result.allowed)
+			return result.reset > strictest.reset ? result : strictest;
+		return result.remaining < strictest.remaining ? result : strictest;
+	});
+	return strictest.allowed
+		? strictest
+		: {
+				...strictest,
+				firstBlocked: results.some((result) => result.firstBlocked),
+			};
+}
+
+/**
+ * `RateLimit-*` headers (IETF draft) and `Retry-After` once the limit is reached.
+ */
+export function getRateLimitHeaders(
+	result: RateLimitResult,
+): Record<string, string> {
+	return {
+		"RateLimit-Limit": String(result.limit),
+		"RateLimit-Remaining": String(result.remaining),
+		"RateLimit-Reset": String(result.reset),
+		...(result.allowed ? {} : { "Retry-After": String(result.reset) }),
+	};
+}
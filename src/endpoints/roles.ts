@@ -0,0 +1,72 @@
+import type { Project } from "openauth-webui-shared-types";
+import {
+	array,
+	fallback,
+	type InferOutput,
+	minLength,
+	object,
+	optional,
+	parse,
+	pipe,
+	record,
+	string,
+} from "valibot";
+
+/**
+ * `projectData.roles` settings, invalid or missing values fall back to the defaults.
+ */
+export const RoleSettingsSchema = object({
+	/** role assigned to the users on registration */
+	defaultRole: fallback(optional(pipe(string(), minLength(1)), "user"), "user"),
+	/** permissions granted by each role */
+	permissions: fallback(optional(record(string(), array(string())), {}), {}),
+});
+
+export type RoleSettings = InferOutput<typeof RoleSettingsSchema>;
+
+/**
+ * Read the project role settings from `projectData.roles`.
+ */
+export function getRoleSettings(
+	project: Pick<Project, "projectData">,
+): RoleSettings {
+	const { roles } = (project.projectData ?? {}) as { roles?: unknown };
+	return parse(
+		RoleSettingsSchema,
+		typeof roles === "object" && roles !== null ? roles : {},
+	);
+}
+
+/**
+ * Roles and permissions carried by the user subject.
+ */
+export type UserAuthorization = {
+	/** primary role, stored in the users table */
+	role: string;
+	/** primary role followed by the additional ones */
+	roles: string[];
+	/** permissions of every role and the ones granted to the user directly */
+	permissions: string[];
+};
+
+/**
+ * Combine the user's stored roles and permissions with the permissions the project grants to these roles.
+ */
+export function resolveUserAuthorization(
+	settings: RoleSettings,
+	user: {
+		role?: string | null;
+		roles?: string[] | null;
+		permissions?: string[] | null;
+	},
+): UserAuthorization {
+	const role = user.role || settings.defaultRole;
+	const roles = [...new Set([role, ...(user.roles ?? [])])];
+	const permissions = [
+		...new Set([
+			...roles.flatMap((name) => settings.permissions[name] ?? []),
+			...(user.permissions ?? []),
+		]),
+	];
+	return { role, roles, permissions };
+}
@@ -7,3 +7,181 @@ export async function encryptData(data: string): Promise<string> {
 export async function verifyData(data: string, hash: string): Promise<boolean> {
 	return bcrypt.compare(data, hash);
 }
+
+/**
+ * Key encryption keys (KEK) used to envelope-encrypt secrets at rest.
+ * Parsed from `"<keyID>:<base64 AES-256 key>,..."`.
+ */
+export type EncryptionKeyring = {
+	/** Key used to encrypt new secrets. */
+	currentKeyID: string;
+	keys: Map<string, Uint8Array<ArrayBuffer>>;
+};
+
+const ENVELOPE_VERSION = "v1";
+const AES_GCM_IV_LENGTH = 12;
+
+/**
+ * Parse the keyring from the env, returns `null` when encryption is not configured.
+ * When `currentKeyID` is not set, the first key of the list is used.
+ */
+export function parseEncryptionKeyring(
+	keys: string | undefined,
+	currentKeyID?: string,
+): EncryptionKeyring | null {
+	if (!keys?.trim()) return null;
+
+	const keyring = new Map<string, Uint8Array<ArrayBuffer>>();
+	for (const entry of keys.split(",")) {
+		const separator = entry.indexOf(":");
+		const keyID = entry.slice(0, separator).trim();
+		const key = Uint8Array.fromBase64(entry.slice(separator + 1).trim());
+		if (separator <= 0 || key.length !== 32)
+			throw new Error(
+				`Invalid encryption key "${keyID || entry}": expected "<keyID>:<base64 32 bytes key>"`,
+			);
+		keyring.set(keyID, key);
+	}
+
+	const current = currentKeyID?.trim() || keyring.keys().next().value;
+	if (!current || !keyring.has(current))
+		throw new Error(`Encryption key "${current}" is not in the keyring`);
+
+	return { currentKeyID: current, keys: keyring };
+}
+
+function getKey(keyring: EncryptionKeyring, keyID: string) {
+	const key = keyring.keys.get(keyID);
+	if (!key) throw new Error(`Encryption key "${keyID}" is not in the keyring`);
+	return key;
+}
+
+async function aesGcmEncrypt(
+	key: Uint8Array<ArrayBuffer>,
+	data: Uint8Array<ArrayBuffer>,
+	additionalData?: Uint8Array<ArrayBuffer>,
+) {
+	const iv = crypto.getRandomValues(new Uint8Array(AES_GCM_IV_LENGTH));
+	const cryptoKey = await crypto.subtle.importKey(
+		"raw",
+		key,
+		"AES-GCM",
+		false,
+		["encrypt"],
+	);
+	const ciphertext = await crypto.subtle.encrypt(
+		{ name: "AES-GCM", iv, additionalData },
+		cryptoKey,
+		data,
+	);
+	return `${iv.toBase64()}:${new Uint8Array(ciphertext).toBase64()}`;
+}
+
+async function aesGcmDecrypt(
+	key: Uint8Array<ArrayBuffer>,
+	payload: string,
+	additionalData?: Uint8Array<ArrayBuffer>,
+) {
+	const [iv, ciphertext] = payload.split(":");
+	const cryptoKey = await crypto.subtle.importKey(
+		"raw",
+		key,
+		"AES-GCM",
+		false,
+		["decrypt"],
+	);
+	const data = await crypto.subtle.decrypt(
+		{ name: "AES-GCM", iv: Uint8Array.fromBase64(iv), additionalData },
+		cryptoKey,
+		Uint8Array.fromBase64(ciphertext),
+	);
+	return new Uint8Array(data);
+}
+
+/**
+ * Envelope-encrypt a secret: the secret is encrypted with a random data key, and the data key
+ * is encrypted (wrapped) with the current key of the keyring.
+ * @returns the encrypted secret and the id of the key needed to decrypt it.
+ */
+export async function encryptSecret(
+	secret: string,
+	keyring: EncryptionKeyring,
+): Promise<{ secret: string; keyID: string }> {
+	const dataKey = crypto.getRandomValues(new Uint8Array(32));
+	const encryptedSecret = await aesGcmEncrypt(
+		dataKey,
+		new TextEncoder().encode(secret),
+	);
+	return {
+		secret: [
+			ENVELOPE_VERSION,
+			await wrapDataKey(dataKey, keyring.currentKeyID, keyring),
+			encryptedSecret,
+		].join("."),
+		keyID: keyring.currentKeyID,
+	};
+}
+
+/**
+ * Decrypt a secret produced by `encryptSecret` with the key it was encrypted with.
+ */
+export async function decryptSecret(
+	secret: string,
+	keyID: string,
+	keyring: EncryptionKeyring,
+): Promise<string> {
+	const { wrappedKey, encryptedSecret } = parseEnvelope(secret);
+	const dataKey = await aesGcmDecrypt(
+		getKey(keyring, keyID),
+		wrappedKey,
+		new TextEncoder().encode(keyID),
+	);
+	return new TextDecoder().decode(
+		await aesGcmDecrypt(dataKey, encryptedSecret),
+	);
+}
+
+/**
+ * Re-wrap the data key of an encrypted secret with the current key of the keyring.
+ * The secret itself is not re-encrypted.
+ */
+export async function rewrapSecret(
+	secret: string,
+	keyID: string,
+	keyring: EncryptionKeyring,
+): Promise<{ secret: string; keyID: string }> {
+	const { wrappedKey, encryptedSecret } = parseEnvelope(secret);
+	const dataKey = await aesGcmDecrypt(
+		getKey(keyring, keyID),
+		wrappedKey,
+		new TextEncoder().encode(keyID),
+	);
+	return {
+		secret: [
+			ENVELOPE_VERSION,
+			await wrapDataKey(dataKey, keyring.currentKeyID, keyring),
+			encryptedSecret,
+		].join("."),
+		keyID: keyring.currentKeyID,
+	};
+}
+
+function wrapDataKey(
+	dataKey: Uint8Array<ArrayBuffer>,
+	keyID: string,
+	keyring: EncryptionKeyring,
+) {
+	// the key id is authenticated so a wrapped key cannot be swapped to another key id
+	return aesGcmEncrypt(
+		getKey(keyring, keyID),
+		dataKey,
+		new TextEncoder().encode(keyID),
+	);
+}
+
+function parseEnvelope(secret: string) {
+	const [version, wrappedKey, encryptedSecret] = secret.split(".");
+	if (version !== ENVELOPE_VERSION || !wrappedKey || !encryptedSecret)
+		throw new Error("Invalid encrypted secret");
+	return { wrappedKey, encryptedSecret };
+}
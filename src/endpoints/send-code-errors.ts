@@ -0,0 +1,48 @@
+import { DeliveryFailoverError } from "../transports/delivery";
+import { CodeSendThrottledError } from "./code-throttle";
+
+/**
+ * Errors of `sendCode` a user can act on, shown on the page the code was asked from: too many codes,
+ * or no provider delivered it.
+ */
+export type SendCodeError = CodeSendThrottledError | DeliveryFailoverError;
+
+export function isSendCodeError(err: unknown): err is SendCodeError {
+	return (
+		err instanceof CodeSendThrottledError ||
+		err instanceof DeliveryFailoverError
+	);
+}
+
+type Handler<C> = (c: C, ...rest: never[]) => Response | Promise<Response>;
+
+/**
+ * Routes passed to the `init` of a provider, `post` handlers of the `paths` rendering the errors of
+ * `sendCode` with `render` rather than throwing them to the issuer error page. For providers that only
+ * await `sendCode`, such as `password`, which cannot return an error from it.
+ */
+export function catchSendCodeErrors<
+	C,
+	Routes extends { post(path: string, handler: Handler<C>): unknown },
+>(
+	routes: Routes,
+	paths: string[],
+	render: (c: C, path: string, error: SendCodeError) => Promise<Response>,
+): Routes {
+	return Object.assign(Object.create(routes), {
+		post: (path: string, handler: Handler<C>) =>
+			routes.post(
+				path,
+				paths.includes(path)
+					? async (c: C, ...rest: never[]) => {
+							try {
+								return await handler(c, ...rest);
+							} catch (err) {
+								if (isSendCodeError(err)) return render(c, path, err);
+								throw err;
+							}
+						}
+					: handler,
+			),
+	});
+}
@@ -0,0 +1,99 @@
+import type { StorageAdapter } from "@kagii/openauth/storage/storage";
+
+/**
+ * Storage key prefix of the refresh tokens issued by OpenAuth: `["oauth:refresh", subject, token]`.
+ */
+export const REFRESH_TOKEN_PREFIX = "oauth:refresh";
+
+/**
+ * Seconds a refresh token can still be used after it was exchanged for new tokens.
+ */
+export const REFRESH_TOKEN_REUSE_SECONDS = 60;
+
+/**
+ * Refresh token as saved by the issuer.
+ */
+export type StoredRefreshToken = {
+	type: string;
+	subject: string;
+	clientID: string;
+	properties: { id: string; sid?: string } & Record<string, unknown>;
+	/** when the token was exchanged, in milliseconds since the epoch */
+	timeUsed?: number;
+	nextToken?: string;
+};
+
+/**
+ * Split a refresh token (`<subject>:<token>`) into its storage key,
+ * returns `null` for anything else, such as an access token.
+ */
+export function parseRefreshToken(token: string): string[] | null {
+	const separator = token.lastIndexOf(":");
+	if (separator <= 0 || separator === token.length - 1) return null;
+	return [
+		REFRESH_TOKEN_PREFIX,
+		token.slice(0, separator),
+		token.slice(separator + 1),
+	];
+}
+
+/**
+ * Revoke a single refresh token (RFC 7009).
+ * @returns the revoked token, `null` if there is no such token issued to `clientID`.
+ */
+export async function revokeRefreshToken(
+	storage: StorageAdapter,
+	token: string,
+	clientID: string,
+): Promise<StoredRefreshToken | null> {
+	const key = parseRefreshToken(token);
+	if (!key) return null;
+
+	const stored = (await storage.get(key)) as StoredRefreshToken | undefined;
+	if (!stored || stored.clientID !== clientID) return null;
+
+	await storage.remove(key);
+	return stored;
+}
+
+/**
+ * Revoke every refresh token of a user, whatever the subject they were issued for.
+ * @returns the number of revoked tokens.
+ */
+export function revokeUserRefreshTokens(
+	storage: StorageAdapter,
+	userID: string,
+): Promise<number> {
+	return revokeMatchingRefreshTokens(
+		storage,
+		(properties) => properties.id === userID,
+	);
+}
+
+/**
+ * Revoke the refresh tokens of a single session (refresh token family) of a user.
+ * @returns the number of revoked tokens.
+ */
+export function revokeSessionRefreshTokens(
+	storage: StorageAdapter,
+	userID: string,
+	sessionID: string,
+): Promise<number> {
+	return revokeMatchingRefreshTokens(
+		storage,
+		(properties) => properties.id === userID && properties.sid === sessionID,
+	);
+}
+
+async function revokeMatchingRefreshTokens(
+	storage: StorageAdapter,
+	match: (properties: StoredRefreshToken["properties"]) => boolean,
+) {
+	const keys: string[][] = [];
+	for await (const [key, value] of storage.scan([REFRESH_TOKEN_PREFIX])) {
+		const { properties } = value as StoredRefreshToken;
+		if (properties && match(properties)) keys.push(key);
+	}
+	for (const key of keys) await storage.remove(key);
+	return keys.length;
+}
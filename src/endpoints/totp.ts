@@ -0,0 +1,164 @@
+import type { Project } from "openauth-webui-shared-types";
+import type { TotpError } from "openauth-webui-shared-types/client/errors";
+import type { TOTP } from "otpauth";
+import {
+	fallback,
+	type InferOutput,
+	integer,
+	maxValue,
+	minValue,
+	number,
+	object,
+	optional,
+	parse,
+	picklist,
+	pipe,
+} from "valibot";
+import { encryptData } from "./security";
+
+/**
+ * Parameters of the codes generated by the authenticator app, fixed for a user once enrolled.
+ */
+export type TOTPParams = {
+	algorithm: "SHA1" | "SHA256" | "SHA512";
+	digits: number;
+	period: number;
+};
+
+/**
+ * TOTP parameters used by users enrolled before the parameters were configurable.
+ */
+export const DEFAULT_TOTP_PARAMS: TOTPParams = {
+	algorithm: "SHA1",
+	digits: 6,
+	period: 30,
+};
+
+const boundedInteger = (min: number, max: number, defaultValue: number) =>
+	fallback(
+		optional(
+			pipe(number(), integer(), minValue(min), maxValue(max)),
+			defaultValue,
+		),
+		defaultValue,
+	);
+
+/**
+ * `projectData.totp` settings, invalid or missing values fall back to the defaults.
+ */
+export const TOTPSettingsSchema = object({
+	algorithm: fallback(
+		optional(picklist(["SHA1", "SHA256", "SHA512"]), "SHA1"),
+		"SHA1",
+	),
+	digits: boundedInteger(6, 8, DEFAULT_TOTP_PARAMS.digits),
+	period: boundedInteger(15, 120, DEFAULT_TOTP_PARAMS.period),
+	/** secret size in bytes */
+	secretSize: boundedInteger(16, 64, 20),
+	backupCodesCount: boundedInteger(1, 20, 5),
+	/** backup code length in hex characters */
+	backupCodesLength: boundedInteger(8, 32, 10),
+});
+
+export type TOTPSettings = InferOutput<typeof TOTPSettingsSchema>;
+
+/**
+ * Read the project TOTP settings from `projectData.totp`.
+ */
+export function getTOTPSettings(
+	project: Pick<Project, "projectData">,
+): TOTPSettings {
+	const { totp } = (project.projectData ?? {}) as { totp?: unknown };
+	return parse(
+		TOTPSettingsSchema,
+		typeof totp === "object" && totp !== null ? totp : {},
+	);
+}
+
+/**
+ * Validate a TOTP code and return the time step (counter) it was generated for,
+ * or `null` if the code is invalid or its step is not newer than `lastStep`.
+ *
+ * Rejecting steps at or below the last accepted one makes every code single-use,
+ * including the older codes still accepted by the validation window.
+ */
+export function getAcceptedTOTPStep({
+	totp,
+	token,
+	window,
+	lastStep,
+	timestamp = Date.now(),
+}: {
+	totp: TOTP;
+	token: string;
+	window: number;
+	lastStep?: number | null;
+	timestamp?: number;
+}): number | null {
+	const delta = totp.validate({ token, window, timestamp });
+	if (delta === null) return null;
+
+	const step = totp.counter({ timestamp }) + delta;
+	if (lastStep != null && step <= lastStep) return null;
+	return step;
+}
+
+/**
+ * Generate a new set of backup codes following the project settings.
+ * @returns the plaintext codes (to show once to the user) and their hashes (to store).
+ */
+export async function generateBackupCodes(
+	settings: Pick<TOTPSettings, "backupCodesCount" | "backupCodesLength">,
+) {
+	const backupCodes = Array.from({ length: settings.backupCodesCount }).map(
+		() =>
+			crypto
+				.randomUUID()
+				.replaceAll("-", "")
+				.slice(0, settings.backupCodesLength),
+	);
+	return {
+		backupCodes,
+		encryptedBackupCodes: await Promise.all(backupCodes.map(encryptData)),
+	};
+}
+
+/**
+ * Replace every backup code of a user, the previous ones stop working. Requires the elevated
+ * token of a recent step-up verification; the plaintext codes are only in the result.
+ */
+export async function regenerateBackupCodes({
+	elevatedToken,
+	settings,
+	isElevatedTokenValid,
+	replaceBackupCodes,
+}: {
+	elevatedToken: string | null;
+	settings: Pick<TOTPSettings, "backupCodesCount" | "backupCodesLength">;
+	isElevatedTokenValid: (
+		token: string,
+	) => Promise<{ valid: boolean; error?: TotpError["type"] }>;
+	/** store the hashes, `false` when the user has no verified TOTP */
+	replaceBackupCodes: (hashes: string[]) => Promise<boolean>;
+}): Promise<
+	| { success: true; backupCodes: string[] }
+	| { success: false; error: TotpError["type"]; status: 400 | 401 | 404 }
+> {
+	if (!elevatedToken)
+		return { success: false, error: "totp_token_not_found", status: 401 };
+
+	const tokenValid = await isElevatedTokenValid(elevatedToken);
+	if (!tokenValid.valid)
+		return {
+			success: false,
+			error: tokenValid.error || "request_failed",
+			status: 400,
+		};
+
+	const { backupCodes, encryptedBackupCodes } =
+		await generateBackupCodes(settings);
+	if (!(await replaceBackupCodes(encryptedBackupCodes)))
+		return { success: false, error: "totp_not_setup", status: 404 };
+
+	return { success: true, backupCodes };
+}
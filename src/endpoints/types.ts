@@ -19,5 +19,20 @@ export type Params = {
 	clientID: string | null;
 	copyID: string | null;
 	inviteID: string | null;
+	/** account link completed by the provider flow, `link_id` authorize param */
+	linkID: string | null;
+	/** `ui_locales` authorize param, space-separated */
+	uiLocales: string | null;
 	url: URL;
 };
+
+/**
+ * Returned by the TOTP endpoints while attempts are locked after too many failures.
+ */
+export type TOTPLockedResponse = {
+	success: false;
+	error: "too_many_attempts";
+	error_description?: string;
+	/** seconds to wait before the next attempt */
+	retry_after: number;
+};
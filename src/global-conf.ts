@@ -1,6 +1,10 @@
 import type { OnSuccessResponder } from "@kagii/openauth/issuer";
 import type { Prettify } from "@kagii/openauth/util";
 import type { authCodeType } from "openauth-webui-shared-types";
+import type { AWSCredentials } from "./transports/aws";
+import type { DeliveryRetryOptions } from "./transports/delivery";
+import type { EmailMessage } from "./transports/email";
+import type { SMSSenderOptions } from "./transports/sms";
 
 export function createExternalGlobalProjectConfig<CTXProperties = unknown>(
 	config: ExternalGlobalProjectConfig<CTXProperties>,
@@ -31,10 +35,17 @@ export type ExternalGlobalProjectConfig<CTXProperties = unknown> = {
 			request: Request,
 			type: "register" | "login",
 		) => Promise<OnSuccessResponseType> | OnSuccessResponseType;
+		/**
+		 * Providers of the verification codes, a list is used in order: the next provider is used when one fails.
+		 */
 		strategy: Partial<{
-			email: EGPCEmail;
-			phone: EGPCPhone;
+			email: EGPCEmail | EGPCEmail[];
+			phone: EGPCPhone | EGPCPhone[];
 		}>;
+		/**
+		 * Retries of a provider on transient errors (unavailable, rate limited, network error) before the next one is used.
+		 */
+		delivery?: DeliveryRetryOptions;
 	};
 };
 
@@ -67,18 +78,83 @@ export type EGPCEmail =
 			apiKey: string;
 			emailFrom: string;
 	  }
+	| {
+			provider: "smtp";
+			host: string;
+			/** default 465 with `tls`, 587 otherwise */
+			port?: number;
+			/** `tls` on connect, `starttls` upgrade (default) or `none` */
+			secure?: "tls" | "starttls" | "none";
+			username?: string;
+			password?: string;
+			emailFrom: string;
+	  }
+	| ({
+			provider: "ses";
+			region: string;
+			emailFrom: string;
+			configurationSetName?: string;
+	  } & AWSCredentials)
+	| {
+			provider: "postmark";
+			serverToken: string;
+			emailFrom: string;
+			/** default `outbound` */
+			messageStream?: string;
+	  }
+	| {
+			provider: "mailgun";
+			apiKey: string;
+			domain: string;
+			/** region of the Mailgun account, default `us` */
+			region?: "us" | "eu";
+			emailFrom: string;
+	  }
+	| {
+			provider: "sendgrid";
+			apiKey: string;
+			emailFrom: string;
+	  }
+	| {
+			/**
+			 * Captures the emails instead of sending them, for tests and local development.
+			 */
+			provider: "fake";
+			/** receives the captured emails, default `fakeEmailOutbox` */
+			messages?: EmailMessage[];
+	  }
 	| {
 			provider: "custom";
 			sendEmailFunction: (props: CustomEGCPCProps) => Promise<void> | void;
 	  };
 
 export type EGPCPhone =
-	| {
+	| ({
 			provider: "twilio";
 			accountSID: string;
 			authToken: string;
-			fromNumber: string;
-	  }
+	  } & SMSSenderOptions)
+	| ({
+			provider: "vonage";
+			apiKey: string;
+			apiSecret: string;
+	  } & SMSSenderOptions)
+	| ({
+			provider: "messagebird";
+			accessKey: string;
+	  } & SMSSenderOptions)
+	| ({
+			provider: "sns";
+			region: string;
+			/** SMS sender ID, where the destination country supports it */
+			fromNumber?: string;
+			senders?: SMSSenderOptions["senders"];
+	  } & AWSCredentials)
+	| ({
+			provider: "telnyx";
+			apiKey: string;
+			messagingProfileID?: string;
+	  } & SMSSenderOptions)
 	| {
 			provider: "custom";
 			sendSMSFunction: (props: CustomEGCPCProps) => Promise<void> | void;
@@ -4,6 +4,7 @@ import { PartialRequestError, RequestError } from "./endpoints/error";
 import { log } from "./share";
 
 export { QRHandshake } from "openauth-webui-shared-types/providers/custom/DurableObject.ts";
+export { RateLimiter } from "./rate-limiter";
 
 declare global {
 	var isLog: boolean;
@@ -0,0 +1,336 @@
+import type { Provider } from "@kagii/openauth/provider/provider";
+import { Layout } from "@kagii/openauth/ui/base";
+import { FormAlert } from "@kagii/openauth/ui/form";
+import { email, pipe, safeParse, string } from "valibot";
+import {
+	isMagicLinkCode,
+	MAX_MAGIC_LINK_CODE_ATTEMPTS,
+	type MagicLinkError,
+} from "./endpoints/magic-link";
+
+/**
+ * Name under which the magic link provider is mounted (`/magiclink/authorize`).
+ */
+export const MAGIC_LINK_PROVIDER_NAME = "magiclink";
+
+export type MagicLinkProviderSuccess = {
+	email: string;
+};
+
+/**
+ * Why the link was not sent, shown on the email page.
+ */
+export type MagicLinkSendError = "throttled" | "send_failed";
+
+export type MagicLinkCopy = {
+	title: string;
+	description: string;
+	input_email: string;
+	button_send: string;
+	sent_title: string;
+	sent_description: string;
+	input_code: string;
+	button_continue: string;
+	button_resend: string;
+	confirm_title: string;
+	confirm_description: string;
+	button_confirm: string;
+	error_email_invalid: string;
+	error_throttled: string;
+	error_send_failed: string;
+	error_code_invalid: string;
+	error_code_attempts: string;
+	error_link_invalid: string;
+	error_link_expired: string;
+	error_link_used: string;
+	error_link_other_browser: string;
+};
+
+const DEFAULT_COPY: MagicLinkCopy = {
+	title: "Sign in with a link",
+	description: "We will email you a link to sign in.",
+	input_email: "Email",
+	button_send: "Send link",
+	sent_title: "Check your email",
+	sent_description: "We sent a sign in link to {email}.",
+	input_code: "Or enter the code from the email",
+	button_continue: "Continue",
+	button_resend: "Send a new link",
+	confirm_title: "Sign in",
+	confirm_description: "Continue to sign in with the link from your email.",
+	button_confirm: "Sign in",
+	error_email_invalid: "Invalid email address.",
+	error_throttled: "Too many links were requested, please try again later.",
+	error_send_failed: "Could not send the email, please try again later.",
+	error_code_invalid: "Invalid code.",
+	error_code_attempts: "Too many invalid codes, please request a new link.",
+	error_link_invalid: "This link is invalid, please request a new one.",
+	error_link_expired: "This link has expired, please request a new one.",
+	error_link_used: "This link was already used, please request a new one.",
+	error_link_other_browser:
+		"Open this link in the browser where you requested it.",
+};
+
+/**
+ * State kept in the provider cookie between the email and the link or code.
+ */
+type MagicLinkState = {
+	email: string;
+	/** id of the link, revoked when the code is used */
+	linkID: string;
+	code?: string;
+	/** random value the link is bound to */
+	binding?: string;
+};
+
+/**
+ * Passwordless login with a single-use link sent by email, and optionally a code to type when the link
+ * is opened on another device.
+ */
+export function MagicLinkProvider(config: {
+	copy?: Partial<MagicLinkCopy>;
+	/** seconds the link and code can be used */
+	ttlSeconds: number;
+	/** bind the link to the browser that asked for it */
+	sameBrowser: boolean;
+	/** send a code with the link */
+	fallbackCode: boolean;
+	/** create a single-use link token for the email */
+	createToken: (
+		email: string,
+		binding: string | undefined,
+	) => Promise<{ id: string; token: string }>;
+	/** check and consume a link token */
+	redeemToken: (
+		token: string,
+		binding: string | undefined,
+	) => Promise<{ email: string } | { error: MagicLinkError }>;
+	/** revoke a link, whether it could still be used: not expired, used nor locked */
+	revokeToken: (id: string) => Promise<boolean>;
+	/** count a wrong code for a link, the wrong codes so far or `undefined` when the link is gone */
+	recordCodeFailure: (id: string) => Promise<number | undefined>;
+	send: (
+		email: string,
+		props: { link: string; code?: string },
+	) => Promise<{ error: MagicLinkSendError } | undefined>;
+}): Provider<MagicLinkProviderSuccess> {
+	const copy = { ...DEFAULT_COPY, ...config.copy };
+
+	function render(
+		page:
+			| { type: "start"; email?: string; error?: string }
+			| { type: "sent"; email: string; error?: string }
+			| { type: "confirm"; token: string; error?: string },
+	) {
+		const jsx =
+			page.type === "confirm" ? (
+				<Layout>
+					<form data-component="form" method="post">
+						<h1>{copy.confirm_title}</h1>
+						<p>{copy.confirm_description}</p>
+						<input type="hidden" name="token" value={page.token} />
+						<button data-component="button" autofocus>
+							{copy.button_confirm}
+						</button>
+					</form>
+				</Layout>
+			) : page.type === "start" ? (
+				<Layout>
+					<form data-component="form" method="post">
+						<h1>{copy.title}</h1>
+						{page.error && <FormAlert message={page.error} />}
+						<p>{copy.description}</p>
+						<input type="hidden" name="action" value="request" />
+						<input
+							data-component="input"
+							autofocus
+							type="email"
+							name="email"
+							required
+							value={page.email}
+							placeholder={copy.input_email}
+							autocomplete="email"
+						/>
+						<button data-component="button">{copy.button_send}</button>
+					</form>
+				</Layout>
+			) : (
+				<Layout>
+					<form data-component="form" method="post">
+						<h1>{copy.sent_title}</h1>
+						{page.error && <FormAlert message={page.error} />}
+						<p>{copy.sent_description.replace("{email}", page.email)}</p>
+						{config.fallbackCode && (
+							<>
+								<input type="hidden" name="action" value="verify" />
+								<input
+									data-component="input"
+									autofocus
+									name="code"
+									required
+									inputmode="numeric"
+									placeholder={copy.input_code}
+									autocomplete="one-time-code"
+								/>
+								<button data-component="button">{copy.button_continue}</button>
+							</>
+						)}
+					</form>
+					<form data-component="form" method="post">
+						<input type="hidden" name="action" value="request" />
+						<input type="hidden" name="email" value={page.email} />
+						<button data-component="button" data-color="ghost">
+							{copy.button_resend}
+						</button>
+					</form>
+				</Layout>
+			);
+		return new Response(jsx.toString(), {
+			status: page.error ? 400 : 200,
+			headers: { "Content-Type": "text/html" },
+		});
+	}
+
+	const linkErrors: Record<MagicLinkError, string> = {
+		invalid: copy.error_link_invalid,
+		expired: copy.error_link_expired,
+		used: copy.error_link_used,
+		other_browser: copy.error_link_other_browser,
+	};
+
+	return {
+		type: MAGIC_LINK_PROVIDER_NAME,
+		init(routes, ctx) {
+			routes.get("/authorize", async (c) =>
+				ctx.forward(c, render({ type: "start" })),
+			);
+
+			routes.post("/authorize", async (c) => {
+				const form = await c.req.formData();
+				const action = form.get("action")?.toString();
+				const state: MagicLinkState | undefined = await ctx.get(c, "provider");
+
+				if (action === "verify") {
+					if (!state?.code) return ctx.forward(c, render({ type: "start" }));
+					if (
+						!isMagicLinkCode(state.code, form.get("code")?.toString() ?? "")
+					) {
+						const attempts = await config.recordCodeFailure(state.linkID);
+						if (
+							attempts !== undefined &&
+							attempts < MAX_MAGIC_LINK_CODE_ATTEMPTS
+						)
+							return ctx.forward(
+								c,
+								render({
+									type: "sent",
+									email: state.email,
+									error: copy.error_code_invalid,
+								}),
+							);
+						await config.revokeToken(state.linkID);
+						ctx.unset(c, "provider");
+						return ctx.forward(
+							c,
+							render({
+								type: "start",
+								email: state.email,
+								error:
+									attempts === undefined
+										? copy.error_link_used
+										: copy.error_code_attempts,
+							}),
+						);
+					}
+					// the link and its code are used once between them
+					const active = await config.revokeToken(state.linkID);
+					ctx.unset(c, "provider");
+					if (!active)
+						return ctx.forward(
+							c,
+							render({
+								type: "start",
+								email: state.email,
+								error: copy.error_link_used,
+							}),
+						);
+					return ctx.success(c, { email: state.email });
+				}
+
+				const emailAddress = form.get("email")?.toString().trim() ?? "";
+				if (!safeParse(pipe(string(), email()), emailAddress).success)
+					return ctx.forward(
+						c,
+						render({
+							type: "start",
+							email: emailAddress,
+							error: copy.error_email_invalid,
+						}),
+					);
+
+				if (state?.linkID) await config.revokeToken(state.linkID);
+				const binding = config.sameBrowser ? crypto.randomUUID() : undefined;
+				const { id, token } = await config.createToken(emailAddress, binding);
+				const link = new URL("callback", c.req.url);
+				link.searchParams.set("token", token);
+				const code = config.fallbackCode
+					? (crypto.getRandomValues(new Uint32Array(1))[0] % 1_000_000)
+							.toString()
+							.padStart(6, "0")
+					: undefined;
+
+				const sent = await config.send(emailAddress, {
+					link: link.toString(),
+					code,
+				});
+				if (sent?.error) {
+					await config.revokeToken(id);
+					return ctx.forward(
+						c,
+						render({
+							type: "start",
+							email: emailAddress,
+							error:
+								sent.error === "throttled"
+									? copy.error_throttled
+									: copy.error_send_failed,
+						}),
+					);
+				}
+
+				const next: MagicLinkState = {
+					email: emailAddress,
+					linkID: id,
+					code,
+					binding,
+				};
+				await ctx.set(c, "provider", config.ttlSeconds, next);
+				return ctx.forward(c, render({ type: "sent", email: emailAddress }));
+			});
+
+			// opening the link only asks to confirm, so that mail scanners following it do not use it
+			routes.get("/callback", async (c) =>
+				ctx.forward(
+					c,
+					render({ type: "confirm", token: c.req.query("token") ?? "" }),
+				),
+			);
+
+			routes.post("/callback", async (c) => {
+				const form = await c.req.formData();
+				const state: MagicLinkState | undefined = await ctx.get(c, "provider");
+				const result = await config.redeemToken(
+					form.get("token")?.toString() ?? "",
+					state?.binding,
+				);
+				if ("error" in result)
+					return ctx.forward(
+						c,
+						render({ type: "start", error: linkErrors[result.error] }),
+					);
+				ctx.unset(c, "provider");
+				return ctx.success(c, { email: result.email });
+			});
+		},
+	};
+}
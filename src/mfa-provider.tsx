@@ -0,0 +1,204 @@
+import type { Provider } from "@kagii/openauth/provider/provider";
+import { Layout } from "@kagii/openauth/ui/base";
+import { FormAlert } from "@kagii/openauth/ui/form";
+import type {
+	AuthenticationResponseJSON,
+	PublicKeyCredentialRequestOptionsJSON,
+} from "@simplewebauthn/server";
+import { getCookie } from "hono/cookie";
+import type { LoginMFAMethod } from "./endpoints/mfa-login";
+
+/**
+ * Name under which the MFA provider is mounted (`/mfa/authorize`).
+ */
+export const MFA_PROVIDER_NAME = "mfa";
+
+/**
+ * Cookie holding the id of the login waiting for its second factor.
+ */
+export const MFA_PENDING_COOKIE = "openauth.mfa";
+
+export type MFAChallenge = {
+	totp: boolean;
+	/** assertion options, when the user has registered passkeys */
+	passkey?: {
+		challengeId: string;
+		options: PublicKeyCredentialRequestOptionsJSON;
+	};
+};
+
+export type MFAVerifyInput =
+	| { code: string }
+	| { passkey: { challengeId: string; response: AuthenticationResponseJSON } };
+
+export type MFAVerifyResult =
+	| { method: LoginMFAMethod }
+	| { error: "invalid_code" | "expired" | "too_many_attempts" };
+
+export type MFAProviderSuccess = {
+	pendingID: string;
+	method: LoginMFAMethod;
+};
+
+export type MFACopy = {
+	title: string;
+	description: string;
+	input_code: string;
+	button_continue: string;
+	button_passkey: string;
+	error_invalid_code: string;
+	error_expired: string;
+	error_too_many_attempts: string;
+};
+
+const DEFAULT_COPY: MFACopy = {
+	title: "Two-factor authentication",
+	description:
+		"Enter the code from your authenticator app or one of your backup codes.",
+	input_code: "Code",
+	button_continue: "Continue",
+	button_passkey: "Use a passkey",
+	error_invalid_code: "Invalid code.",
+	error_expired: "This sign in has expired, please sign in again.",
+	error_too_many_attempts: "Too many attempts, please try again later.",
+};
+
+/**
+ * Second step of the hosted login: challenges the user for a TOTP, backup code or passkey
+ * before the tokens are issued. The login itself is identified by the `MFA_PENDING_COOKIE` cookie.
+ */
+export function MFAProvider(config: {
+	copy?: Partial<MFACopy>;
+	challenge: (
+		pendingID: string,
+		request: Request,
+	) => Promise<MFAChallenge | undefined>;
+	verify: (
+		pendingID: string,
+		input: MFAVerifyInput,
+		request: Request,
+	) => Promise<MFAVerifyResult>;
+}): Provider<MFAProviderSuccess> {
+	const copy = { ...DEFAULT_COPY, ...config.copy };
+
+	async function render(
+		pendingID: string | undefined,
+		request: Request,
+		error?: Extract<MFAVerifyResult, { error: string }>,
+	) {
+		const challenge = pendingID
+			? await config.challenge(pendingID, request)
+			: undefined;
+		const message = !challenge
+			? copy.error_expired
+			: error?.error === "too_many_attempts"
+				? copy.error_too_many_attempts
+				: error
+					? copy.error_invalid_code
+					: undefined;
+
+		const jsx = (
+			<Layout>
+				<form data-component="form" method="post">
+					<h1>{copy.title}</h1>
+					{message && <FormAlert message={message} />}
+					{challenge?.totp && (
+						<>
+							<p>{copy.description}</p>
+							<input
+								data-component="input"
+								autofocus
+								name="code"
+								required
+								placeholder={copy.input_code}
+								autocomplete="one-time-code"
+							/>
+							<button data-component="button">{copy.button_continue}</button>
+						</>
+					)}
+				</form>
+				{challenge?.passkey && (
+					<form data-component="form" method="post" id="mfa-passkey">
+						<input type="hidden" name="passkey" />
+						<button data-component="button" type="submit">
+							{copy.button_passkey}
+						</button>
+						<script
+							// biome-ignore lint/security/noDangerouslySetInnerHtml: serialized assertion options
+							dangerouslySetInnerHTML={{
+								__html: passkeyScript(challenge.passkey),
+							}}
+						/>
+					</form>
+				)}
+			</Layout>
+		);
+		return new Response(jsx.toString(), {
+			status: challenge ? (error ? 400 : 200) : 410,
+			headers: { "Content-Type": "text/html" },
+		});
+	}
+
+	return {
+		type: MFA_PROVIDER_NAME,
+		init(routes, ctx) {
+			routes.get("/authorize", async (c) =>
+				ctx.forward(
+					c,
+					await render(getCookie(c, MFA_PENDING_COOKIE), c.req.raw),
+				),
+			);
+
+			routes.post("/authorize", async (c) => {
+				const pendingID = getCookie(c, MFA_PENDING_COOKIE);
+				if (!pendingID)
+					return ctx.forward(c, await render(undefined, c.req.raw));
+
+				const form = await c.req.formData();
+				const code = form.get("code")?.toString().trim();
+				const passkey = form.get("passkey")?.toString();
+
+				let input: MFAVerifyInput;
+				try {
+					input = passkey
+						? { passkey: JSON.parse(passkey) }
+						: { code: code ?? "" };
+				} catch {
+					return ctx.forward(
+						c,
+						await render(pendingID, c.req.raw, { error: "invalid_code" }),
+					);
+				}
+
+				const result = await config.verify(pendingID, input, c.req.raw);
+				if ("error" in result)
+					return ctx.forward(c, await render(pendingID, c.req.raw, result));
+
+				return ctx.success(c, { pendingID, method: result.method });
+			});
+		},
+	};
+}
+
+/**
+ * Browser side of the passkey assertion: get the credential and post it back as JSON.
+ */
+function passkeyScript(passkey: NonNullable<MFAChallenge["passkey"]>) {
+	const data = JSON.stringify(passkey).replaceAll("<", "\\u003c");
+	return `(() => {
+	const passkey = ${data};
+	const form = document.getElementById("mfa-passkey");
+	form.addEventListener("submit", async (event) => {
+		if (form.elements.passkey.value) return;
+		event.preventDefault();
+		const credential = await navigator.credentials.get({
+			publicKey: PublicKeyCredential.parseRequestOptionsFromJSON(passkey.options),
+		});
+		form.elements.passkey.value = JSON.stringify({
+			challengeId: passkey.challengeId,
+			response: credential.toJSON(),
+		});
+		form.submit();
+	});
+})();`;
+}
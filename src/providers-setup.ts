@@ -1,7 +1,11 @@
 import { initWasm, inline as inlineCss } from "@css-inline/css-inline-wasm";
 import cssInlineWasm from "@css-inline/css-inline-wasm/index_bg.wasm";
 import type { Provider } from "@kagii/openauth/provider/provider";
+import { D1Storage } from "@kagii/openauth/storage/d1";
 import { PasswordUI } from "@kagii/openauth/ui/password";
+import { sql } from "drizzle-orm";
+import type { Context } from "hono";
+import { getCookie, setCookie } from "hono/cookie";
 import type { JWTPayload } from "jose";
 import type {
 	AppleOAuthProviderConfig,
@@ -41,17 +45,81 @@ import type {
 } from "openauth-webui-shared-types/client/user";
 import {
 	emailTemplatesTable,
+	insertLog,
 	WebUiCopyTemplateTable,
 } from "openauth-webui-shared-types/database";
-import { and, drizzle, eq } from "openauth-webui-shared-types/drizzle";
+import { and, drizzle, eq, lt } from "openauth-webui-shared-types/drizzle";
 import type { QRProviderOnSuccessData } from "openauth-webui-shared-types/providers/custom/qr/index.ts";
 import { WebHook } from "openauth-webui-shared-types/webhook";
+import { parse } from "valibot";
 import getGlobalConfig from "../openauth.config";
-import DefaultEmailTemplateBody from "./defaults/email";
+import { getPasskeyStore } from "./db/passkeys";
+import {
+	codeSendsTable,
+	emailTemplateLocalesTable,
+	magicLinksTable,
+	projectDeliveryTable,
+} from "./db/schema";
+import DefaultEmailTemplateBody, {
+	MagicLinkEmailTemplateBody,
+} from "./defaults/email";
+import {
+	type CodeSendState,
+	CodeSendThrottledError,
+	checkCodeSend,
+	getCodeSendCooldownStart,
+	getCodeSendRetryAfter,
+	getCodeThrottleSettings,
+} from "./endpoints/code-throttle";
+import {
+	applyProjectDelivery,
+	getDeliveryKeyring,
+	type ProjectDelivery,
+	ProjectDeliverySchema,
+} from "./endpoints/delivery";
+import {
+	getDefaultLocale,
+	getRequestedLocales,
+	selectLocale,
+} from "./endpoints/locales";
+import {
+	getMagicLinkSettings,
+	hashMagicLinkBinding,
+	isMagicLinkActive,
+	MAX_MAGIC_LINK_CODE_ATTEMPTS,
+	signMagicLinkToken,
+	verifyMagicLinkToken,
+} from "./endpoints/magic-link";
+import { getAssertionCredentialID } from "./endpoints/passkey";
+import {
+	isStoredImportedPassword,
+	verifyImportedPassword,
+} from "./endpoints/password-import";
+import {
+	checkPasswordPolicy,
+	getPasswordPolicy,
+	isPasswordBreached,
+	type PasswordPolicyViolation,
+} from "./endpoints/password-policy";
+import { decryptSecret } from "./endpoints/security";
+import { catchSendCodeErrors } from "./endpoints/send-code-errors";
 import type { EndpointCtx } from "./endpoints/types.ts";
 import type { ExternalGlobalProjectConfig } from "./global-conf.ts";
+import {
+	MAGIC_LINK_PROVIDER_NAME,
+	type MagicLinkCopy,
+	MagicLinkProvider,
+	type MagicLinkProviderSuccess,
+} from "./magiclink-provider";
 import { SandBox } from "./sandbox.mts";
 import { toAuthorizeOrigin } from "./share.ts";
+import {
+	DeliveryFailoverError,
+	type DeliveryResult,
+	deliverWithFailover,
+} from "./transports/delivery";
+import { createEmailTransport } from "./transports/email";
+import { createSMSTransport } from "./transports/sms";
 
 let _cssInlineReady: Promise<void> | null = null;
 function ensureCssInline() {
@@ -111,18 +179,42 @@ const defaultEmailTemplateProps: EmailTemplateProps = {
 	name: "default",
 };
 
+/**
+ * Email template with the locale of its content, `null` for the template itself.
+ */
+type LocalizedEmailTemplateProps = EmailTemplateProps & {
+	locale: string | null;
+};
+
+/**
+ * Locales asked by the user, from the `ui_locales` authorize param and `Accept-Language`.
+ */
+function getEmailLocales(ctx: EndpointCtx) {
+	return getRequestedLocales({
+		uiLocales: ctx.get("params")?.uiLocales,
+		acceptLanguage: ctx.req.header("accept-language"),
+	});
+}
+
 async function getEmailTemplate({
 	env,
 	id,
 	project,
+	locales = [],
+	fallback = defaultEmailTemplateProps,
 }: {
 	env: Env;
 	id?: number | null;
 	project: Project;
-}): Promise<EmailTemplateProps> {
-	if (!id) return defaultEmailTemplateProps;
-
-	return drizzle(env.AUTH_DB)
+	/** requested locales, by preference */
+	locales?: string[];
+	/** template used without `id`, and body of a template without one */
+	fallback?: EmailTemplateProps;
+}): Promise<LocalizedEmailTemplateProps> {
+	if (!id) return { ...fallback, locale: null };
+
+	const db = drizzle(env.AUTH_DB);
+	const template = await db
 		.select({
 			name: emailTemplatesTable.name,
 			subject: emailTemplatesTable.subject,
@@ -136,18 +228,159 @@ async function getEmailTemplate({
 			),
 		)
 		.limit(1)
-		.get()
-		.then((el) =>
-			el
-				? {
-						...el,
-						body: el?.body || DefaultEmailTemplateBody,
-					}
-				: defaultEmailTemplateProps,
+		.get();
+	if (!template) return { ...fallback, locale: null };
+
+	const variants = await db
+		.select({
+			locale: emailTemplateLocalesTable.locale,
+			subject: emailTemplateLocalesTable.subject,
+			body: emailTemplateLocalesTable.body,
+		})
+		.from(emailTemplateLocalesTable)
+		.where(eq(emailTemplateLocalesTable.template_id, id))
+		.all();
+	const locale = selectLocale(
+		locales,
+		variants.map((variant) => variant.locale),
+		getDefaultLocale(project),
+	);
+	const variant = variants.find((variant) => variant.locale === locale);
+	return {
+		name: template.name,
+		subject: variant?.subject || template.subject,
+		body: variant?.body || template.body || fallback.body,
+		locale: variant ? variant.locale : null,
+	};
+}
+
+function getCodeSendKey(project: Project, to: string) {
+	return `${project.clientID}:${to.trim().toLowerCase()}`;
+}
+
+async function getCodeSendState({
+	env,
+	project,
+	to,
+}: {
+	env: Env;
+	project: Project;
+	to: string;
+}): Promise<CodeSendState | undefined> {
+	return drizzle(env.AUTH_DB)
+		.select({
+			last_sent_at: codeSendsTable.last_sent_at,
+			day: codeSendsTable.day,
+			day_count: codeSendsTable.day_count,
+		})
+		.from(codeSendsTable)
+		.where(eq(codeSendsTable.key, getCodeSendKey(project, to)))
+		.get();
+}
+
+/**
+ * Count a code sent to `to`, or throw a `CodeSendThrottledError` when the project limits are reached.
+ */
+async function throttleCodeSend({
+	env,
+	project,
+	to,
+	provider,
+	ctx,
+}: {
+	env: Env;
+	project: Project;
+	to: string;
+	provider: "code" | "password" | "magiclink";
+	ctx: EndpointCtx;
+}) {
+	const settings = getCodeThrottleSettings(project);
+	const now = Date.now();
+	let check = checkCodeSend(
+		await getCodeSendState({ env, project, to }),
+		settings,
+		now,
+	);
+	if (check.allowed) {
+		// the limits are checked again by the upsert, so that concurrent sends can not all pass them
+		const { day } = check.state;
+		const counted = await drizzle(env.AUTH_DB)
+			.insert(codeSendsTable)
+			.values({
+				key: getCodeSendKey(project, to),
+				clientID: project.clientID,
+				...check.state,
+			})
+			.onConflictDoUpdate({
+				target: codeSendsTable.key,
+				set: {
+					last_sent_at: check.state.last_sent_at,
+					day,
+					day_count: sql`CASE WHEN ${codeSendsTable.day} = ${day} THEN ${codeSendsTable.day_count} + 1 ELSE 1 END`,
+				},
+				setWhere: sql`${codeSendsTable.last_sent_at} <= ${getCodeSendCooldownStart(settings, now)} AND (${codeSendsTable.day} <> ${day} OR ${codeSendsTable.day_count} < ${settings.dailyLimit})`,
+			})
+			.returning({ key: codeSendsTable.key })
+			.get();
+		if (!counted)
+			check = {
+				allowed: false,
+				...(getCodeSendRetryAfter(
+					await getCodeSendState({ env, project, to }),
+					settings,
+				) ?? { reason: "cooldown", retryAfter: settings.cooldownSeconds }),
+			};
+	}
+	if (!check.allowed) {
+		await new WebHook({ db: env.AUTH_DB }).trigger({
+			clientID: project.clientID,
+			event: "code_send_throttled",
+			secret: project.secret,
+			data: {
+				send_to: to,
+				provider,
+				reason: check.reason,
+				retry_after: check.retryAfter,
+			},
+			request: ctx.req.raw,
+		});
+		throw new CodeSendThrottledError(check.reason, check.retryAfter);
+	}
+}
+
+/**
+ * Email/SMS providers of the project, `null` when it uses the global strategy.
+ */
+async function getProjectDelivery({
+	env,
+	project,
+}: {
+	env: Env;
+	project: Project;
+}): Promise<ProjectDelivery | null> {
+	const row = await drizzle(env.AUTH_DB)
+		.select({
+			config: projectDeliveryTable.config,
+			key_id: projectDeliveryTable.key_id,
+		})
+		.from(projectDeliveryTable)
+		.where(eq(projectDeliveryTable.clientID, project.clientID))
+		.get();
+	if (!row) return null;
+
+	const keyring = getDeliveryKeyring(env);
+	if (!keyring)
+		throw new Error(
+			"Project delivery configuration is encrypted but DELIVERY_ENCRYPTION_KEYS is not configured",
 		);
+	return parse(
+		ProjectDeliverySchema,
+		JSON.parse(await decryptSecret(row.config, row.key_id, keyring)),
+	);
 }
 
 async function sendCode({
+	env,
 	code,
 	project,
 	to,
@@ -155,52 +388,104 @@ async function sendCode({
 	emailTemplate,
 	type,
 	send_type,
+	provider,
+	link,
 	ctx,
 }: {
+	env: Env;
 	code: string;
 	project: Project;
 	to: string;
 	globalConfig: ExternalGlobalProjectConfig;
-	emailTemplate: EmailTemplateProps;
+	emailTemplate: LocalizedEmailTemplateProps;
 	type: authCodeType;
 	send_type: "email" | "phone";
+	provider: "code" | "password" | "magiclink";
+	/** sign in link of the magic link provider */
+	link?: string;
 	ctx: EndpointCtx;
 }) {
+	await throttleCodeSend({ env, project, to, provider, ctx });
+	const deliveryConfig = applyProjectDelivery(
+		globalConfig,
+		await getProjectDelivery({ env, project }),
+	);
+
 	const mustache = (await import("mustache")).default;
 	const body = mustache.render(
 		emailTemplate.body,
 		await parseEmailTemplateProps({
 			...project.projectData,
 			code,
+			link,
 			type,
 			AcceptLanguage: ctx.req.raw.headers.get("accept-language") || "",
+			locale: emailTemplate.locale ?? undefined,
 			to,
 		}),
 	);
 
-	if (send_type === "email") {
-		await ensureCssInline();
-		await sendCodeWithEmail({
-			code,
-			project,
-			to,
-			globalConfig,
-			emailTemplate,
-			emailBody: inlineCss(body),
-			type,
-		});
-	} else if (send_type === "phone") {
-		await sendCodeWithSMS({
-			code,
-			project,
-			to,
-			globalConfig,
-			smsBody: body,
-			type,
-		});
+	let delivery: DeliveryResult | null = null;
+	try {
+		if (send_type === "email") {
+			await ensureCssInline();
+			delivery = await sendCodeWithEmail({
+				code,
+				project,
+				to,
+				globalConfig: deliveryConfig,
+				emailTemplate,
+				emailBody: inlineCss(body),
+				type,
+			});
+		} else if (send_type === "phone") {
+			delivery = await sendCodeWithSMS({
+				code,
+				project,
+				to,
+				globalConfig: deliveryConfig,
+				smsBody: body,
+				type,
+			});
+		}
+	} catch (err) {
+		if (err instanceof DeliveryFailoverError)
+			await insertLog({
+				type: "error",
+				message: `Failed to send the code to ${to}: ${err.message}`,
+				clientID: project.clientID,
+				context: {
+					event: "code_delivery_failed",
+					send_type,
+					attempts: err.attempts,
+				},
+				database: env.AUTH_DB,
+				endpoint: ctx.req.path,
+			});
+		throw err;
 	}
+	if (delivery)
+		await insertLog({
+			// a warning when the first provider failed
+			type: delivery.attempts.length > 1 ? "warning" : "info",
+			message: `Code sent to ${to} with ${delivery.provider}`,
+			clientID: project.clientID,
+			context: {
+				event: "code_delivered",
+				send_type,
+				transport: delivery.provider,
+				attempts: delivery.attempts,
+			},
+			database: env.AUTH_DB,
+			endpoint: ctx.req.path,
+		});
+	return delivery;
 }
 
+/**
+ * Send the email with the providers of the strategy, in order.
+ * @returns the provider that delivered it, `null` without email strategy.
+ */
 async function sendCodeWithEmail({
 	code,
 	project,
@@ -217,44 +502,44 @@ async function sendCodeWithEmail({
 	emailTemplate: EmailTemplateProps;
 	emailBody: string;
 	type: authCodeType;
-}) {
-	switch (globalConfig.register.strategy.email?.provider) {
-		case "resend": {
-			const apiKey = globalConfig.register.strategy.email.apiKey;
-			const result = await new (await import("resend")).Resend(
-				apiKey,
-			).emails.send({
-				from: `${project.projectData?.companyName || "Acme"} <${project.projectData?.emailFrom ?? globalConfig.register.strategy?.email?.emailFrom ?? globalConfig.register.fallbackEmailFrom}>`,
-				to: [to],
-				subject: emailTemplate.subject || "Your verification code",
-				html: emailBody,
-			});
-			if (result.error) {
-				console.error(`Failed to send email to ${to}:`, result.error);
-				throw new Error(`Failed to send email: ${result.error.message}`);
-			} else {
-				console.log("resend success:", {
-					data: result.data,
-					headers: result.headers,
-				});
-			}
-
-			break;
-		}
-		case "custom":
-			await globalConfig.register.strategy.email.sendEmailFunction({
-				to,
-				code,
-				body: emailBody,
-				subject: emailTemplate.subject || "Your verification code",
-				type,
-			});
-			break;
-		// Add other strategies as needed
-		default:
-			console.log(`Sending code ${code} to ${to} via default method`);
+}): Promise<DeliveryResult | null> {
+	const strategy = globalConfig.register.strategy.email;
+	if (!strategy) {
+		console.log(`Sending code ${code} to ${to} via default method`);
+		return null;
 	}
+	const subject = emailTemplate.subject || "Your verification code";
+	return deliverWithFailover(
+		(Array.isArray(strategy) ? strategy : [strategy]).map((email) => ({
+			provider: email.provider,
+			send: async () => {
+				if (email.provider === "custom") {
+					await email.sendEmailFunction({
+						to,
+						code,
+						body: emailBody,
+						subject,
+						type,
+					});
+					return;
+				}
+				const transport = await createEmailTransport(email);
+				await transport.send({
+					from: `${project.projectData?.companyName || "Acme"} <${project.projectData?.emailFrom ?? ("emailFrom" in email ? email.emailFrom : undefined) ?? globalConfig.register.fallbackEmailFrom}>`,
+					to,
+					subject,
+					html: emailBody,
+				});
+			},
+		})),
+		globalConfig.register.delivery,
+	);
 }
+
+/**
+ * Send the SMS with the providers of the strategy, in order.
+ * @returns the provider that delivered it, `null` without phone strategy.
+ */
 async function sendCodeWithSMS({
 	code,
 	to,
@@ -268,33 +553,26 @@ async function sendCodeWithSMS({
 	smsBody: string;
 	project: Project;
 	type: authCodeType;
-}) {
-	switch (globalConfig.register.strategy.phone?.provider) {
-		case "twilio": {
-			const twilioConfig = globalConfig.register.strategy.phone;
-			const res = await sendTwilioSMS({
-				accountSid: twilioConfig.accountSID,
-				authToken: twilioConfig.authToken,
-				to,
-				from: twilioConfig.fromNumber,
-				body: smsBody,
-			});
-			console.log("Twilio SMS log:", res);
-			break;
-		}
-		case "custom":
-			await globalConfig.register.strategy.phone.sendSMSFunction({
-				to,
-				code,
-				type,
-				body: smsBody,
-				subject: "",
-			});
-			break;
-		default:
-			console.log(`Sending code ${code} to ${to} via default SMS method`);
-			break;
+}): Promise<DeliveryResult | null> {
+	const strategy = globalConfig.register.strategy.phone;
+	if (!strategy) {
+		console.log(`Sending code ${code} to ${to} via default SMS method`);
+		return null;
 	}
+	return deliverWithFailover(
+		(Array.isArray(strategy) ? strategy : [strategy]).map((phone) => ({
+			provider: phone.provider,
+			send: () =>
+				createSMSTransport(phone).send({
+					to,
+					code,
+					type,
+					body: smsBody,
+					subject: "",
+				}),
+		})),
+		globalConfig.register.delivery,
+	);
 }
 
 export async function parseEmailTemplateProps(
@@ -321,48 +599,6 @@ export async function parseEmailTemplateProps(
 	);
 }
 
-type TwilioSMSParams = {
-	accountSid: string;
-	authToken: string;
-	to: string;
-	from: string;
-	body: string;
-};
-
-export async function sendTwilioSMS({
-	accountSid,
-	authToken,
-	to,
-	from,
-	body,
-}: TwilioSMSParams) {
-	const url = `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`;
-
-	const form = new URLSearchParams({
-		To: to,
-		From: from,
-		Body: body,
-	});
-
-	const auth = btoa(`${accountSid}:${authToken}`);
-
-	const res = await fetch(url, {
-		method: "POST",
-		headers: {
-			Authorization: `Basic ${auth}`,
-			"Content-Type": "application/x-www-form-urlencoded",
-		},
-		body: form.toString(),
-	});
-
-	if (!res.ok) {
-		const err = await res.text();
-		throw new Error(`Twilio error ${res.status}: ${err}`);
-	}
-
-	return res.json();
-}
-
 async function getCopyTemplateFromName({
 	name,
 	env,
@@ -455,89 +691,216 @@ function ensureRequiredScopes(
 
 // Password Provider ///////////////////////
 
+/**
+ * Cookie keeping the email of the password forms, the new password step of a reset does not post it.
+ */
+const COOKIE_PASSWORD_EMAIL = "oauth_password_email";
+
+/**
+ * Email of the account a password form is for: posted by the register and reset forms, then kept for
+ * the new password step.
+ */
+async function getPasswordFormEmail(ctx: EndpointCtx) {
+	if (ctx.req.method !== "POST" || !ctx.req.path.startsWith("/password/"))
+		return null;
+	const form = await ctx.req.raw
+		.clone()
+		.formData()
+		.catch(() => undefined);
+	const email = form?.get("email");
+	if (typeof email !== "string" || !email)
+		return getCookie(ctx, COOKIE_PASSWORD_EMAIL) ?? null;
+	setCookie(ctx, COOKIE_PASSWORD_EMAIL, email, {
+		httpOnly: true,
+		secure: true,
+		sameSite: "Lax",
+		maxAge: 60 * 60, // 1 hour
+	});
+	return email;
+}
+
 const passwordConfigBuilder: ConfigType<
 	PasswordProviderConfig,
 	{ provider: "password"; email: string },
 	{ email: string }
 > = {
-	provider: ({
+	provider: async ({
 		globalConfig,
 		providerConfig,
 		env,
 		project,
 		copyTemplate,
 		ctx,
-	}) =>
-		import("@kagii/openauth/provider/password").then(async (mod) =>
-			mod.PasswordProvider(
-				PasswordUI({
-					sendCode: async (email, code, type) => {
-						await sendCode({
-							to: email,
-							code,
-							globalConfig,
+	}) => {
+		const policy = getPasswordPolicy(providerConfig.data);
+		const accountEmail = await getPasswordFormEmail(ctx);
+		const isBreached = (password: string) =>
+			isPasswordBreached(password).catch(async (err) => {
+				// the breach check must not block the sign ups while the API is down
+				await insertLog({
+					type: "warning",
+					message: `Password breach check failed: ${err instanceof Error ? err.message : String(err)}`,
+					clientID: project.clientID,
+					database: env.AUTH_DB,
+					endpoint: ctx.req.path,
+				});
+				return false;
+			});
+		const copy = copyTemplate?.copyData.password as
+			| (NonNullable<typeof copyTemplate>["copyData"]["password"] & {
+					longPasswordMsg?: string;
+					containsIdentifierMsg?: string;
+					weakPasswordMsg?: string;
+					breachedPasswordMsg?: string;
+					codeSendThrottledMsg?: string;
+					emailSendFailedMsg?: string;
+			  })
+			| undefined;
+		const passwordMessages: Record<PasswordPolicyViolation, string> = {
+			too_short: (
+				copy?.shortPasswordMsg || "Password must be at least {min} characters."
+			).replace("{min}", String(policy.minLength)),
+			too_long: (
+				copy?.longPasswordMsg || "Password must be at most {max} characters."
+			).replace("{max}", String(policy.maxLength)),
+			missing_uppercase:
+				copy?.requireUppercaseMsg ||
+				"Password must contain an uppercase letter.",
+			missing_number:
+				copy?.requireNumberMsg || "Password must contain a number.",
+			missing_special_char:
+				copy?.requireSpecialCharMsg ||
+				"Password must contain a special character.",
+			contains_identifier:
+				copy?.containsIdentifierMsg ||
+				"Password must not contain your email address.",
+			too_weak:
+				copy?.weakPasswordMsg ||
+				"Password is too easy to guess, try a longer one.",
+			breached:
+				copy?.breachedPasswordMsg ||
+				"This password appeared in a data breach, please choose another one.",
+		};
+		return import("@kagii/openauth/provider/password").then(async (mod) => {
+			const nativeHasher = mod.ScryptHasher();
+			const storage = D1Storage({
+				database: env.AUTH_DB,
+				table: project.clientID,
+			});
+			const passwordUI = PasswordUI({
+				sendCode: async (email, code, type) => {
+					await sendCode({
+						env,
+						to: email,
+						code,
+						globalConfig,
+						project,
+						type: type === "change" ? "change_password" : type,
+						emailTemplate: await getEmailTemplate({
+							env,
+							id:
+								type === "register"
+									? providerConfig.data.registerTemplateId
+									: providerConfig.data.resetPasswordTemplateId,
 							project,
-							type: type === "change" ? "change_password" : type,
-							emailTemplate: await getEmailTemplate({
-								env,
-								id:
-									type === "register"
-										? providerConfig.data.registerTemplateId
-										: providerConfig.data.resetPasswordTemplateId,
-								project,
-							}),
-							send_type: "email",
-							ctx,
-						}).then(() => {
-							// Trigger webhooks for code_sent event
-							return new WebHook({ db: env.AUTH_DB }).trigger({
-								clientID: project.clientID,
-								event: "code_sent",
-								secret: project.secret,
-								data: {
-									code,
-									method: "email",
-									send_to: email,
-									provider: "password",
-								},
-								request: ctx.req.raw,
-							});
+							locales: getEmailLocales(ctx),
+						}),
+						send_type: "email",
+						provider: "password",
+						ctx,
+					}).then((delivery) => {
+						// Trigger webhooks for code_sent event
+						return new WebHook({ db: env.AUTH_DB }).trigger({
+							clientID: project.clientID,
+							event: "code_sent",
+							secret: project.secret,
+							data: {
+								code,
+								method: "email",
+								send_to: email,
+								provider: "password",
+								transport: delivery?.provider ?? null,
+							},
+							request: ctx.req.raw,
 						});
+					});
+				},
+				copy,
+				async validatePassword(password) {
+					const violation =
+						checkPasswordPolicy(password, policy, accountEmail) ??
+						(policy.breachCheck && (await isBreached(password))
+							? "breached"
+							: null);
+					if (violation) return passwordMessages[violation];
+				},
+			});
+			const provider = mod.PasswordProvider({
+				...passwordUI,
+				hasher: {
+					hash: (password: string) => nativeHasher.hash(password),
+					async verify(password: string, stored: unknown) {
+						if (!isStoredImportedPassword(stored))
+							return nativeHasher.verify(password, stored);
+						if (!(await verifyImportedPassword(password, stored.imported)))
+							return false;
+						// replace the imported hash by the native one now that the password is known
+						await storage.set(
+							["email", stored.email, "password"],
+							await nativeHasher.hash(password),
+						);
+						await insertLog({
+							type: "info",
+							message: `Password of ${stored.email} rehashed from ${stored.imported.algorithm}`,
+							clientID: project.clientID,
+							database: env.AUTH_DB,
+							endpoint: ctx.req.path,
+						});
+						return true;
 					},
-					copy: copyTemplate?.copyData.password,
-					validatePassword(password) {
-						const {
-							minLength,
-							requireUppercase,
-							requireNumber,
-							requireSpecialChar,
-						} = providerConfig.data;
-						const {
-							shortPasswordMsg = `Password must be at least ${minLength} characters.`,
-							requireUppercaseMsg = "Password must contain an uppercase letter.",
-							requireNumberMsg = "Password must contain a number.",
-							requireSpecialCharMsg = "Password must contain a special character.",
-						} = copyTemplate?.copyData.password || {};
-						if (minLength) {
-							if (password.length < minLength)
-								return shortPasswordMsg.replace("{min}", minLength.toString());
-							else if (
-								requireUppercase &&
-								password === password.toLocaleLowerCase()
-							)
-								return requireUppercaseMsg;
-							else if (requireNumber && !/\d/.test(password))
-								return requireNumberMsg;
-							else if (
-								requireSpecialChar &&
-								!/[!@#$%^&*(),.?":{}|<>]/.test(password)
-							)
-								return requireSpecialCharMsg;
-						}
-					},
-				}),
-			),
-		),
+				},
+			});
+			const sendCodeMessages = {
+				throttled:
+					copy?.codeSendThrottledMsg ||
+					"Too many codes were requested, please try again later.",
+				failed:
+					copy?.emailSendFailedMsg ||
+					"Could not send the email, please try again later.",
+			};
+			return {
+				...provider,
+				init(routes, providerCtx) {
+					// the provider only awaits `sendCode`, its errors are shown on the register or reset page
+					return provider.init(
+						catchSendCodeErrors(
+							routes,
+							["/register", "/change"],
+							async (c: Context, path, error) =>
+								providerCtx.forward(
+									c,
+									await (path === "/register"
+										? passwordUI.register
+										: passwordUI.change)(
+										c.req.raw,
+										(await providerCtx.get(c, "provider")) ?? { type: "start" },
+										await c.req.formData(),
+										{
+											type: "validation_error",
+											message:
+												error instanceof CodeSendThrottledError
+													? sendCodeMessages.throttled
+													: sendCodeMessages.failed,
+										},
+									),
+								),
+						),
+						providerCtx,
+					);
+				},
+			} satisfies Provider;
+		});
+	},
 	parser: (data) => {
 		return {
 			identifier: data.email,
@@ -574,6 +937,38 @@ const oidcConfigBuilder: ConfigType<
 };
 
 // Code Provider /////////////////////////////
+
+/** `invalid_claim` value of a code that was not sent because of the project limits */
+const CODE_SEND_THROTTLED = "code_send_throttled";
+/** `invalid_claim` values of a code no provider delivered */
+const CODE_EMAIL_FAILED = "email_send_failed";
+const CODE_SMS_FAILED = "sms_send_failed";
+
+/**
+ * Disable the resend button of the code page until the cooldown is over.
+ */
+function resendCountdownScript(seconds: number, text: string) {
+	const label = JSON.stringify(text).replaceAll("<", "\\u003c");
+	return `(() => {
+	const action = document.querySelector('input[name="action"][value="resend"]');
+	const button = action?.form?.querySelector("button");
+	if (!button) return;
+	const original = button.textContent;
+	let seconds = ${seconds};
+	const tick = () => {
+		if (seconds <= 0) {
+			button.disabled = false;
+			button.textContent = original;
+			return;
+		}
+		button.disabled = true;
+		button.textContent = ${label}.replace("{seconds}", seconds);
+		seconds--;
+		setTimeout(tick, 1000);
+	};
+	tick();
+})();`;
+}
 const codeConfigBuilder: ConfigType<
 	CodeProviderConfig,
 	{
@@ -589,44 +984,124 @@ const codeConfigBuilder: ConfigType<
 		ctx,
 		providerConfig,
 	}) => {
-		const codeUI = (await import("@kagii/openauth/ui/code")).CodeUI({
-			copy: copyTemplate?.copyData.code,
+		const { CodeUI } = await import("@kagii/openauth/ui/code");
+		const copy = copyTemplate?.copyData.code as
+			| (NonNullable<typeof copyTemplate>["copyData"]["code"] & {
+					code_send_throttled?: string;
+					code_resend_countdown?: string;
+					email_send_failed?: string;
+					sms_send_failed?: string;
+			  })
+			| undefined;
+		const codeUI = CodeUI({
+			copy,
 			mode: providerConfig.data.codeMode,
 			sendCode: async (claim, code) => {
-				await sendCode({
-					code,
-					project,
-					to: claim.email || claim.phone,
-					globalConfig,
-					emailTemplate: await getEmailTemplate({
+				const to = claim.email || claim.phone;
+				let delivery: DeliveryResult | null;
+				try {
+					delivery = await sendCode({
 						env,
-						id: providerConfig.data.registerTemplateId,
+						code,
 						project,
-					}),
-					type: "login",
-					send_type: claim.email ? "email" : "phone",
-					ctx,
-				}).then(() => {
-					// Trigger webhooks for code_sent event
-					return new WebHook({ db: env.AUTH_DB }).trigger({
-						clientID: project.clientID,
-						event: "code_sent",
-						secret: project.secret,
-						data: {
-							code,
-							method: providerConfig.data.codeMode,
-							send_to: claim.email || claim.phone,
-							provider: "code",
-						},
-						request: ctx.req.raw,
+						to,
+						globalConfig,
+						emailTemplate: await getEmailTemplate({
+							env,
+							id: providerConfig.data.registerTemplateId,
+							project,
+							locales: getEmailLocales(ctx),
+						}),
+						type: "login",
+						send_type: claim.email ? "email" : "phone",
+						provider: "code",
+						ctx,
 					});
+				} catch (err) {
+					if (err instanceof CodeSendThrottledError)
+						return {
+							type: "invalid_claim",
+							key: claim.email ? "email" : "phone",
+							value: CODE_SEND_THROTTLED,
+						};
+					if (err instanceof DeliveryFailoverError)
+						return {
+							type: "invalid_claim",
+							key: claim.email ? "email" : "phone",
+							value: claim.email ? CODE_EMAIL_FAILED : CODE_SMS_FAILED,
+						};
+					throw err;
+				}
+				// Trigger webhooks for code_sent event
+				await new WebHook({ db: env.AUTH_DB }).trigger({
+					clientID: project.clientID,
+					event: "code_sent",
+					secret: project.secret,
+					data: {
+						code,
+						method: providerConfig.data.codeMode,
+						send_to: to,
+						provider: "code",
+						transport: delivery?.provider ?? null,
+					},
+					request: ctx.req.raw,
 				});
 			},
 		});
+		// same UI, showing why the code was not sent in place of the invalid email/phone message
+		const sendErrorUIs: Record<string, typeof codeUI> = Object.fromEntries(
+			Object.entries({
+				[CODE_SEND_THROTTLED]:
+					copy?.code_send_throttled ||
+					"Too many codes were requested, please try again later.",
+				[CODE_EMAIL_FAILED]:
+					copy?.email_send_failed ||
+					"Could not send the email, please try again later.",
+				[CODE_SMS_FAILED]:
+					copy?.sms_send_failed ||
+					"Could not send the SMS, please try again later.",
+			}).map(([value, message]) => [
+				value,
+				CodeUI({
+					copy: { ...copy, email_invalid: message, phone_invalid: message },
+					mode: providerConfig.data.codeMode,
+					sendCode: codeUI.sendCode,
+				}),
+			]),
+		);
 		const codeProvider = (await import("@kagii/openauth/provider/code"))
 			.CodeProvider;
 		return codeProvider({
 			...codeUI,
+			request: async (req, state, form, error) => {
+				const sendErrorUI =
+					error?.type === "invalid_claim"
+						? sendErrorUIs[error.value]
+						: undefined;
+				if (sendErrorUI) return sendErrorUI.request(req, state, form, error);
+
+				const response = await codeUI.request(req, state, form, error);
+				if (state.type !== "code") return response;
+
+				const throttled = getCodeSendRetryAfter(
+					await getCodeSendState({
+						env,
+						project,
+						to: state.claims.email || state.claims.phone,
+					}),
+					getCodeThrottleSettings(project),
+				);
+				if (throttled?.reason !== "cooldown") return response;
+
+				const html = (await response.text()).replace(
+					"</body>",
+					`<script>${resendCountdownScript(
+						throttled.retryAfter,
+						copy?.code_resend_countdown || "Resend code in {seconds}s",
+					)}</script></body>`,
+				);
+				return new Response(html, response);
+			},
 		});
 	},
 	parser: (data) => {
@@ -637,6 +1112,184 @@ const codeConfigBuilder: ConfigType<
 	},
 };
 
+// Magic Link Provider /////////////////////////////
+
+const magicLinkEmailTemplateProps: EmailTemplateProps = {
+	subject: "Sign in link",
+	body: MagicLinkEmailTemplateBody,
+	name: "default",
+};
+
+const magicLinkBuilder: ConfigType<
+	ProviderConfig,
+	MagicLinkProviderSuccess,
+	{ email: string }
+> = {
+	provider: async ({
+		env,
+		globalConfig,
+		project,
+		copyTemplate,
+		ctx,
+		providerConfig,
+	}) => {
+		const settings = getMagicLinkSettings(providerConfig.data);
+		const db = drizzle(env.AUTH_DB);
+		const copy = (copyTemplate?.copyData as Record<string, unknown> | undefined)
+			?.magiclink as Partial<MagicLinkCopy> | undefined;
+		return MagicLinkProvider({
+			copy,
+			ttlSeconds: settings.ttlSeconds,
+			sameBrowser: settings.sameBrowser,
+			fallbackCode: settings.fallbackCode,
+			createToken: async (email, binding) => {
+				const now = Date.now();
+				const id = crypto.randomUUID();
+				const exp = Math.floor(now / 1000) + settings.ttlSeconds;
+				await db
+					.delete(magicLinksTable)
+					.where(
+						and(
+							eq(magicLinksTable.clientID, project.clientID),
+							lt(magicLinksTable.expires_at, new Date(now).toISOString()),
+						),
+					)
+					.run();
+				await db
+					.insert(magicLinksTable)
+					.values({
+						id,
+						clientID: project.clientID,
+						email,
+						expires_at: new Date(exp * 1000).toISOString(),
+					})
+					.run();
+				return {
+					id,
+					token: await signMagicLinkToken(
+						{
+							id,
+							email,
+							exp,
+							...(binding ? { bnd: await hashMagicLinkBinding(binding) } : {}),
+						},
+						project.secret,
+					),
+				};
+			},
+			redeemToken: async (token, binding) => {
+				const result = await verifyMagicLinkToken(token, project.secret, {
+					binding,
+				});
+				if ("error" in result) return result;
+				// single use: the first request deleting the link wins
+				const deleted = await db
+					.delete(magicLinksTable)
+					.where(
+						and(
+							eq(magicLinksTable.id, result.payload.id),
+							eq(magicLinksTable.clientID, project.clientID),
+						),
+					)
+					.returning({ email: magicLinksTable.email })
+					.all();
+				if (!deleted.length) return { error: "used" };
+				return { email: result.payload.email };
+			},
+			revokeToken: async (id) => {
+				const deleted = await db
+					.delete(magicLinksTable)
+					.where(
+						and(
+							eq(magicLinksTable.id, id),
+							eq(magicLinksTable.clientID, project.clientID),
+						),
+					)
+					.returning({
+						expires_at: magicLinksTable.expires_at,
+						code_attempts: magicLinksTable.code_attempts,
+					})
+					.all();
+				return deleted.some(
+					(link: { expires_at: string; code_attempts: number }) =>
+						isMagicLinkActive(link),
+				);
+			},
+			recordCodeFailure: async (id) => {
+				const where = and(
+					eq(magicLinksTable.id, id),
+					eq(magicLinksTable.clientID, project.clientID),
+				);
+				const link = await db
+					.select({ code_attempts: magicLinksTable.code_attempts })
+					.from(magicLinksTable)
+					.where(where)
+					.get();
+				if (!link) return undefined;
+				// a concurrent wrong code counts as the last one allowed
+				const updated = await db
+					.update(magicLinksTable)
+					.set({ code_attempts: link.code_attempts + 1 })
+					.where(
+						and(where, eq(magicLinksTable.code_attempts, link.code_attempts)),
+					)
+					.returning({ code_attempts: magicLinksTable.code_attempts })
+					.all();
+				return updated[0]?.code_attempts ?? MAX_MAGIC_LINK_CODE_ATTEMPTS;
+			},
+			send: async (email, { link, code }) => {
+				let delivery: DeliveryResult | null;
+				try {
+					delivery = await sendCode({
+						env,
+						code: code ?? "",
+						link,
+						project,
+						to: email,
+						globalConfig,
+						emailTemplate: await getEmailTemplate({
+							env,
+							id: settings.templateId,
+							project,
+							locales: getEmailLocales(ctx),
+							fallback: magicLinkEmailTemplateProps,
+						}),
+						type: "login",
+						send_type: "email",
+						provider: "magiclink",
+						ctx,
+					});
+				} catch (err) {
+					if (err instanceof CodeSendThrottledError)
+						return { error: "throttled" };
+					if (err instanceof DeliveryFailoverError)
+						return { error: "send_failed" };
+					throw err;
+				}
+				await new WebHook({ db: env.AUTH_DB }).trigger({
+					clientID: project.clientID,
+					event: "code_sent",
+					secret: project.secret,
+					data: {
+						code: code ?? null,
+						method: "link",
+						send_to: email,
+						provider: "magiclink",
+						transport: delivery?.provider ?? null,
+					},
+					request: ctx.req.raw,
+				});
+			},
+		});
+	},
+	parser: (data) => {
+		return {
+			identifier: data.email,
+			data: { email: data.email },
+		};
+	},
+};
+
 // Apple Providers /////////////////////////////
 
 type AppleSuccessValues =
@@ -1182,7 +1835,7 @@ const passkeyBuilder: ConfigType<
 			defaultOrigin: env.WEBUI_ORIGIN_URL,
 		});
 
-		return mod.WebAuthnProvider({
+		const provider = mod.WebAuthnProvider({
 			UI: mod.PassKeyUI({
 				copy: copyTemplate?.copyData.passkey,
 			}),
@@ -1190,6 +1843,24 @@ const passkeyBuilder: ConfigType<
 			origin: autorizedOrigin,
 			rpID: new URL(autorizedOrigin).hostname,
 		});
+		const store = getPasskeyStore(env.AUTH_DB, project.clientID);
+		return {
+			...provider,
+			init(routes, providerCtx) {
+				return provider.init(routes, {
+					...providerCtx,
+					// the provider updates the credential counter, the last use is issuer-side metadata
+					async success(c, properties, options) {
+						const credentialID = getAssertionCredentialID(
+							await c.req.json().catch(() => null),
+						);
+						if (credentialID)
+							await store.touch(credentialID, new Date().toISOString());
+						return providerCtx.success(c, properties, options);
+					},
+				});
+			},
+		} satisfies Provider;
 	},
 	parser: async (data) => {
 		return {
@@ -1201,8 +1872,12 @@ const passkeyBuilder: ConfigType<
 
 // Provider Map /////////////////////////////
 
-const providerConfigMap: Record<ProviderType, ConfigType<any, any, any>> = {
+const providerConfigMap: Record<
+	ProviderType | typeof MAGIC_LINK_PROVIDER_NAME,
+	ConfigType<any, any, any>
+> = {
 	code: codeConfigBuilder,
+	[MAGIC_LINK_PROVIDER_NAME]: magicLinkBuilder,
 	oidc: oidcConfigBuilder,
 	password: passwordConfigBuilder,
 	appleoauth: appleBuilder,
@@ -1272,4 +1947,9 @@ async function generateProvidersFromConfig({
 	return providers;
 }
 
-export { generateProvidersFromConfig, providerConfigMap };
+export {
+	generateProvidersFromConfig,
+	getCopyTemplateFromName,
+	getProjectDelivery,
+	providerConfigMap,
+};
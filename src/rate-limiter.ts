@@ -0,0 +1,39 @@
+import { DurableObject } from "cloudflare:workers";
+import {
+	consumeRateLimit,
+	type RateLimitResult,
+	type RateLimitRule,
+	type RateLimitState,
+	type RateLimitStore,
+} from "./endpoints/rate-limit";
+
+/**
+ * Counter of a single rate limit key, one instance per key.
+ * The state is removed by an alarm once its window is over.
+ */
+export class RateLimiter extends DurableObject<Env> {
+	async hit(rule: RateLimitRule): Promise<RateLimitResult> {
+		const { state, result } = consumeRateLimit(
+			await this.ctx.storage.get<RateLimitState>("state"),
+			rule,
+		);
+		await this.ctx.storage.put("state", state);
+		if (state.count === 1) await this.ctx.storage.setAlarm(state.resetAt);
+		return result;
+	}
+
+	async alarm() {
+		await this.ctx.storage.deleteAll();
+	}
+}
+
+/**
+ * Counters shared by every isolate, kept by the `RateLimiter` Durable Object.
+ */
+export class DurableObjectRateLimitStore implements RateLimitStore {
+	constructor(private namespace: DurableObjectNamespace<RateLimiter>) {}
+
+	hit(key: string, rule: RateLimitRule): Promise<RateLimitResult> {
+		return this.namespace.get(this.namespace.idFromName(key)).hit(rule);
+	}
+}
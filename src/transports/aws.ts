@@ -0,0 +1,102 @@
+/**
+ * IAM credentials of the AWS transports.
+ */
+export type AWSCredentials = {
+	accessKeyId: string;
+	secretAccessKey: string;
+	/** for temporary credentials */
+	sessionToken?: string;
+};
+
+const encoder = new TextEncoder();
+
+async function sha256(data: string) {
+	return new Uint8Array(
+		await crypto.subtle.digest("SHA-256", encoder.encode(data)),
+	);
+}
+
+async function hmac(key: Uint8Array<ArrayBuffer> | string, data: string) {
+	const cryptoKey = await crypto.subtle.importKey(
+		"raw",
+		typeof key === "string" ? encoder.encode(key) : key,
+		{ name: "HMAC", hash: "SHA-256" },
+		false,
+		["sign"],
+	);
+	return new Uint8Array(
+		await crypto.subtle.sign("HMAC", cryptoKey, encoder.encode(data)),
+	);
+}
+
+/** RFC 3986 encoding required by the canonical query string */
+function encodeRFC3986(value: string) {
+	return encodeURIComponent(value).replace(
+		/[!'()*]/g,
+		(char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+	);
+}
+
+/**
+ * Sign a request with AWS Signature Version 4.
+ * @returns the request headers with the `authorization` and `x-amz-*` headers added.
+ */
+export async function signAWSRequest(
+	request: {
+		method: string;
+		url: string;
+		headers?: Record<string, string>;
+		body?: string;
+	},
+	options: AWSCredentials & { service: string; region: string },
+	now = Date.now(),
+): Promise<Record<string, string>> {
+	const url = new URL(request.url);
+	const amzDate = new Date(now).toISOString().replace(/[:-]|\.\d{3}/g, "");
+	const date = amzDate.slice(0, 8);
+
+	const headers: Record<string, string> = {
+		...Object.fromEntries(
+			Object.entries(request.headers ?? {}).map(([name, value]) => [
+				name.toLowerCase(),
+				value.trim().replace(/\s+/g, " "),
+			]),
+		),
+		host: url.host,
+		"x-amz-date": amzDate,
+		...(options.sessionToken
+			? { "x-amz-security-token": options.sessionToken }
+			: {}),
+	};
+	const signedHeaders = Object.keys(headers).sort();
+
+	const canonicalRequest = [
+		request.method.toUpperCase(),
+		url.pathname || "/",
+		[...url.searchParams]
+			.map(([key, value]) => `${encodeRFC3986(key)}=${encodeRFC3986(value)}`)
+			.sort()
+			.join("&"),
+		signedHeaders.map((name) => `${name}:${headers[name]}\n`).join(""),
+		signedHeaders.join(";"),
+		(await sha256(request.body ?? "")).toHex(),
+	].join("\n");
+
+	const scope = `${date}/${options.region}/${options.service}/aws4_request`;
+	const stringToSign = [
+		"AWS4-HMAC-SHA256",
+		amzDate,
+		scope,
+		(await sha256(canonicalRequest)).toHex(),
+	].join("\n");
+
+	let signingKey = await hmac(`AWS4${options.secretAccessKey}`, date);
+	for (const part of [options.region, options.service, "aws4_request"])
+		signingKey = await hmac(signingKey, part);
+	const signature = (await hmac(signingKey, stringToSign)).toHex();
+
+	return {
+		...headers,
+		authorization: `AWS4-HMAC-SHA256 Credential=${options.accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(";")}, Signature=${signature}`,
+	};
+}
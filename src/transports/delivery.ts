@@ -0,0 +1,127 @@
+export type DeliveryErrorReason =
+	| "invalid_recipient"
+	| "rejected"
+	| "unauthorized"
+	| "rate_limited"
+	| "unavailable";
+
+/**
+ * Thrown by the transports when the provider did not accept the message.
+ */
+export class DeliveryError extends Error {
+	provider: string;
+	reason: DeliveryErrorReason;
+	/** HTTP status of the provider response */
+	status?: number;
+	constructor({
+		provider,
+		reason,
+		status,
+		detail,
+		cause,
+	}: {
+		provider: string;
+		reason: DeliveryErrorReason;
+		status?: number;
+		detail?: string;
+		cause?: unknown;
+	}) {
+		super(
+			`${provider} error${status ? ` ${status}` : ""}: ${detail || reason}`,
+			{ cause },
+		);
+		this.provider = provider;
+		this.reason = reason;
+		this.status = status;
+	}
+}
+
+/**
+ * Reason of a failed provider response, from its HTTP status.
+ */
+export function getDeliveryErrorReason(status: number): DeliveryErrorReason {
+	if (status === 401 || status === 403) return "unauthorized";
+	if (status === 429) return "rate_limited";
+	if (status >= 500) return "unavailable";
+	return "rejected";
+}
+
+/**
+ * Whether sending again may succeed: the provider is unavailable or rate limited, or the request failed
+ * before reaching it (network error, `custom` function error).
+ */
+export function isTransientDeliveryError(err: unknown) {
+	return (
+		!(err instanceof DeliveryError) ||
+		err.reason === "unavailable" ||
+		err.reason === "rate_limited"
+	);
+}
+
+/**
+ * `register.delivery` of `openauth.config.ts`.
+ */
+export type DeliveryRetryOptions = {
+	/** retries of a transport on transient errors before failing over to the next one, default `2` */
+	retries?: number;
+	/** wait before the first retry, doubled on every retry, default `250` */
+	backoffMs?: number;
+};
+
+export type DeliveryAttempt = {
+	provider: string;
+	/** error of the attempt, missing for the one that delivered the message */
+	error?: string;
+};
+
+export type DeliveryResult = {
+	/** provider that delivered the message */
+	provider: string;
+	attempts: DeliveryAttempt[];
+};
+
+/**
+ * Thrown when no transport delivered the message, `cause` is the error of the last attempt.
+ */
+export class DeliveryFailoverError extends Error {
+	attempts: DeliveryAttempt[];
+	constructor(attempts: DeliveryAttempt[], cause: unknown) {
+		super(
+			`No transport delivered the message: ${attempts.map((attempt) => `${attempt.provider}: ${attempt.error}`).join(", ")}`,
+			{ cause },
+		);
+		this.attempts = attempts;
+	}
+}
+
+/**
+ * Send with the transports in order: a transport is retried with an exponential backoff on transient
+ * errors, then the next one is used.
+ */
+export async function deliverWithFailover(
+	transports: { provider: string; send: () => Promise<void> }[],
+	{ retries = 2, backoffMs = 250 }: DeliveryRetryOptions = {},
+	sleep = (ms: number) =>
+		new Promise<void>((resolve) => setTimeout(resolve, ms)),
+): Promise<DeliveryResult> {
+	const attempts: DeliveryAttempt[] = [];
+	let lastError: unknown;
+	for (const transport of transports) {
+		for (let retry = 0; retry <= retries; retry++) {
+			if (retry > 0) await sleep(backoffMs * 2 ** (retry - 1));
+			try {
+				await transport.send();
+				attempts.push({ provider: transport.provider });
+				return { provider: transport.provider, attempts };
+			} catch (err) {
+				lastError = err;
+				attempts.push({
+					provider: transport.provider,
+					error: err instanceof Error ? err.message : String(err),
+				});
+				if (!isTransientDeliveryError(err)) break;
+			}
+		}
+	}
+	throw new DeliveryFailoverError(attempts, lastError);
+}
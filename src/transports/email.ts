@@ -0,0 +1,242 @@
+import type { EGPCEmail } from "../global-conf";
+import { signAWSRequest } from "./aws";
+import { DeliveryError, getDeliveryErrorReason } from "./delivery";
+
+/**
+ * Email sent by a transport.
+ */
+export type EmailMessage = {
+	/** `address` or `Name <address>` */
+	from: string;
+	to: string;
+	subject: string;
+	html: string;
+};
+
+/**
+ * Delivers the emails of a provider configured in `openauth.config.ts`.
+ */
+export interface EmailTransport {
+	send(message: EmailMessage): Promise<void>;
+}
+
+/**
+ * Split `Name <address>` into its parts, `name` is missing for a bare address.
+ */
+export function parseEmailAddress(value: string): {
+	name?: string;
+	address: string;
+} {
+	const match = value.match(/^\s*(.*?)\s*<([^>]+)>\s*$/);
+	if (!match) return { address: value.trim() };
+	const name = match[1].replace(/^"|"$/g, "");
+	return name ? { name, address: match[2] } : { address: match[2] };
+}
+
+/**
+ * Thrown by the email transports when the provider did not accept the message.
+ */
+export class EmailDeliveryError extends DeliveryError {}
+
+async function ensureResponseOk(provider: string, res: Response) {
+	if (!res.ok) {
+		throw new EmailDeliveryError({
+			provider,
+			reason: getDeliveryErrorReason(res.status),
+			status: res.status,
+			detail: await res.text(),
+		});
+	}
+}
+
+export class ResendEmailTransport implements EmailTransport {
+	constructor(private apiKey: string) {}
+
+	async send(message: EmailMessage) {
+		const result = await new (await import("resend")).Resend(
+			this.apiKey,
+		).emails.send({
+			from: message.from,
+			to: [message.to],
+			subject: message.subject,
+			html: message.html,
+		});
+		if (result.error) {
+			console.error(`Failed to send email to ${message.to}:`, result.error);
+			throw new EmailDeliveryError({
+				provider: "Resend",
+				reason: getDeliveryErrorReason(result.error.statusCode ?? 500),
+				status: result.error.statusCode ?? undefined,
+				detail: result.error.message,
+			});
+		}
+		console.log("resend success:", {
+			data: result.data,
+			headers: result.headers,
+		});
+	}
+}
+
+/**
+ * AWS SES v2 `SendEmail` API.
+ */
+export class SESEmailTransport implements EmailTransport {
+	constructor(
+		private config: Extract<EGPCEmail, { provider: "ses" }>,
+		private now: () => number = Date.now,
+	) {}
+
+	async send(message: EmailMessage) {
+		const url = `https://email.${this.config.region}.amazonaws.com/v2/email/outbound-emails`;
+		const body = JSON.stringify({
+			FromEmailAddress: message.from,
+			Destination: { ToAddresses: [message.to] },
+			Content: {
+				Simple: {
+					Subject: { Data: message.subject, Charset: "UTF-8" },
+					Body: { Html: { Data: message.html, Charset: "UTF-8" } },
+				},
+			},
+			...(this.config.configurationSetName
+				? { ConfigurationSetName: this.config.configurationSetName }
+				: {}),
+		});
+		const headers = await signAWSRequest(
+			{
+				method: "POST",
+				url,
+				headers: { "Content-Type": "application/json" },
+				body,
+			},
+			{ ...this.config, service: "ses" },
+			this.now(),
+		);
+		await ensureResponseOk(
+			"SES",
+			await fetch(url, { method: "POST", headers, body }),
+		);
+	}
+}
+
+export class PostmarkEmailTransport implements EmailTransport {
+	constructor(private config: Extract<EGPCEmail, { provider: "postmark" }>) {}
+
+	async send(message: EmailMessage) {
+		const res = await fetch("https://api.postmarkapp.com/email", {
+			method: "POST",
+			headers: {
+				Accept: "application/json",
+				"Content-Type": "application/json",
+				"X-Postmark-Server-Token": this.config.serverToken,
+			},
+			body: JSON.stringify({
+				From: message.from,
+				To: message.to,
+				Subject: message.subject,
+				HtmlBody: message.html,
+				MessageStream: this.config.messageStream ?? "outbound",
+			}),
+		});
+		await ensureResponseOk("Postmark", res);
+	}
+}
+
+export class MailgunEmailTransport implements EmailTransport {
+	constructor(private config: Extract<EGPCEmail, { provider: "mailgun" }>) {}
+
+	async send(message: EmailMessage) {
+		const host =
+			this.config.region === "eu" ? "api.eu.mailgun.net" : "api.mailgun.net";
+		const res = await fetch(
+			`https://${host}/v3/${encodeURIComponent(this.config.domain)}/messages`,
+			{
+				method: "POST",
+				headers: {
+					Authorization: `Basic ${btoa(`api:${this.config.apiKey}`)}`,
+					"Content-Type": "application/x-www-form-urlencoded",
+				},
+				body: new URLSearchParams({
+					from: message.from,
+					to: message.to,
+					subject: message.subject,
+					html: message.html,
+				}).toString(),
+			},
+		);
+		await ensureResponseOk("Mailgun", res);
+	}
+}
+
+export class SendGridEmailTransport implements EmailTransport {
+	constructor(private apiKey: string) {}
+
+	async send(message: EmailMessage) {
+		const res = await fetch("https://api.sendgrid.com/v3/mail/send", {
+			method: "POST",
+			headers: {
+				Authorization: `Bearer ${this.apiKey}`,
+				"Content-Type": "application/json",
+			},
+			body: JSON.stringify({
+				personalizations: [{ to: [{ email: message.to }] }],
+				from: (({ name, address }) => ({ email: address, name }))(
+					parseEmailAddress(message.from),
+				),
+				subject: message.subject,
+				content: [{ type: "text/html", value: message.html }],
+			}),
+		});
+		await ensureResponseOk("SendGrid", res);
+	}
+}
+
+/**
+ * Emails kept in `fakeEmailOutbox`, the oldest are dropped.
+ */
+export const FAKE_EMAIL_OUTBOX_SIZE = 100;
+
+/**
+ * Emails captured by the `fake` transports configured without their own `messages`, for tests and local
+ * development only: it lives as long as the isolate, so only the last `FAKE_EMAIL_OUTBOX_SIZE` are kept.
+ */
+export const fakeEmailOutbox: EmailMessage[] = [];
+
+/**
+ * Captures the emails instead of sending them, for tests and local development.
+ */
+export class FakeEmailTransport implements EmailTransport {
+	constructor(readonly messages: EmailMessage[] = fakeEmailOutbox) {}
+
+	async send(message: EmailMessage) {
+		this.messages.push(message);
+		if (this.messages === fakeEmailOutbox)
+			fakeEmailOutbox.splice(
+				0,
+				Math.max(0, fakeEmailOutbox.length - FAKE_EMAIL_OUTBOX_SIZE),
+			);
+	}
+}
+
+/**
+ * Transport of a built-in email provider.
+ */
+export async function createEmailTransport(
+	config: Exclude<EGPCEmail, { provider: "custom" }>,
+): Promise<EmailTransport> {
+	switch (config.provider) {
+		case "resend":
+			return new ResendEmailTransport(config.apiKey);
+		case "smtp":
+			return new (await import("./smtp")).SMTPEmailTransport(config);
+		case "ses":
+			return new SESEmailTransport(config);
+		case "postmark":
+			return new PostmarkEmailTransport(config);
+		case "mailgun":
+			return new MailgunEmailTransport(config);
+		case "sendgrid":
+			return new SendGridEmailTransport(config.apiKey);
+		case "fake":
+			return new FakeEmailTransport(config.messages);
+	}
+}
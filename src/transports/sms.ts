@@ -0,0 +1,277 @@
+import type { CustomEGCPCProps, EGPCPhone } from "../global-conf";
+import { signAWSRequest } from "./aws";
+import { DeliveryError, getDeliveryErrorReason } from "./delivery";
+
+/**
+ * Delivers the SMS of a provider configured in `openauth.config.ts`.
+ */
+export interface SMSTransport {
+	send(props: CustomEGCPCProps): Promise<void>;
+}
+
+/**
+ * Sender of the SMS: `fromNumber`, or the one of the longest calling code prefix of `senders` matching the destination.
+ */
+export type SMSSenderOptions = {
+	fromNumber: string;
+	/** senders per calling code prefix, e.g. `{ "+1": "+15550100", "+44": "Acme" }` */
+	senders?: Record<string, string>;
+};
+
+export function selectSMSSender<T extends string | undefined>(
+	to: string,
+	{ fromNumber, senders }: { fromNumber: T; senders?: Record<string, string> },
+): string | T {
+	const prefix = Object.keys(senders ?? {})
+		.filter((prefix) => to.startsWith(prefix))
+		.sort((a, b) => b.length - a.length)[0];
+	return prefix ? (senders as Record<string, string>)[prefix] : fromNumber;
+}
+
+/**
+ * Thrown by the SMS transports when the provider did not accept the message.
+ */
+export class SMSDeliveryError extends DeliveryError {}
+
+async function ensureResponseOk(provider: string, res: Response) {
+	if (!res.ok) {
+		throw new SMSDeliveryError({
+			provider,
+			reason: getDeliveryErrorReason(res.status),
+			status: res.status,
+			detail: await res.text(),
+		});
+	}
+}
+
+type TwilioSMSParams = {
+	accountSid: string;
+	authToken: string;
+	to: string;
+	from: string;
+	body: string;
+};
+
+export async function sendTwilioSMS({
+	accountSid,
+	authToken,
+	to,
+	from,
+	body,
+}: TwilioSMSParams) {
+	const url = `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`;
+
+	const form = new URLSearchParams({
+		To: to,
+		From: from,
+		Body: body,
+	});
+
+	const auth = btoa(`${accountSid}:${authToken}`);
+
+	const res = await fetch(url, {
+		method: "POST",
+		headers: {
+			Authorization: `Basic ${auth}`,
+			"Content-Type": "application/x-www-form-urlencoded",
+		},
+		body: form.toString(),
+	});
+
+	if (!res.ok) {
+		const err = await res.text();
+		throw new SMSDeliveryError({
+			provider: "Twilio",
+			// 21211: invalid "To" phone number, 21614: not a mobile number
+			reason: /"code":\s*(21211|21614)\b/.test(err)
+				? "invalid_recipient"
+				: getDeliveryErrorReason(res.status),
+			status: res.status,
+			detail: err,
+		});
+	}
+
+	return res.json();
+}
+
+export class TwilioSMSTransport implements SMSTransport {
+	constructor(private config: Extract<EGPCPhone, { provider: "twilio" }>) {}
+
+	async send({ to, body }: CustomEGCPCProps) {
+		const res = await sendTwilioSMS({
+			accountSid: this.config.accountSID,
+			authToken: this.config.authToken,
+			to,
+			from: selectSMSSender(to, this.config),
+			body,
+		});
+		console.log("Twilio SMS log:", res);
+	}
+}
+
+/**
+ * Vonage (Nexmo) SMS API, failures are reported in the body of a `200` response.
+ */
+export class VonageSMSTransport implements SMSTransport {
+	constructor(private config: Extract<EGPCPhone, { provider: "vonage" }>) {}
+
+	async send({ to, body }: CustomEGCPCProps) {
+		const res = await fetch("https://rest.nexmo.com/sms/json", {
+			method: "POST",
+			headers: { "Content-Type": "application/x-www-form-urlencoded" },
+			body: new URLSearchParams({
+				api_key: this.config.apiKey,
+				api_secret: this.config.apiSecret,
+				from: selectSMSSender(to, this.config).replace(/^\+/, ""),
+				to: to.replace(/^\+/, ""),
+				text: body,
+			}).toString(),
+		});
+		await ensureResponseOk("Vonage", res);
+		const { messages } = (await res.json()) as {
+			messages: { status: string; "error-text"?: string }[];
+		};
+		const failed = messages.find((message) => message.status !== "0");
+		if (failed) {
+			throw new SMSDeliveryError({
+				provider: "Vonage",
+				reason:
+					failed.status === "1"
+						? "rate_limited"
+						: failed.status === "4"
+							? "unauthorized"
+							: failed.status === "5"
+								? "unavailable"
+								: failed.status === "3" || failed.status === "6"
+									? "invalid_recipient"
+									: "rejected",
+				detail: failed["error-text"],
+			});
+		}
+	}
+}
+
+export class MessageBirdSMSTransport implements SMSTransport {
+	constructor(
+		private config: Extract<EGPCPhone, { provider: "messagebird" }>,
+	) {}
+
+	async send({ to, body }: CustomEGCPCProps) {
+		const res = await fetch("https://rest.messagebird.com/messages", {
+			method: "POST",
+			headers: {
+				Authorization: `AccessKey ${this.config.accessKey}`,
+				"Content-Type": "application/json",
+			},
+			body: JSON.stringify({
+				originator: selectSMSSender(to, this.config),
+				recipients: [to],
+				body,
+			}),
+		});
+		await ensureResponseOk("MessageBird", res);
+	}
+}
+
+/**
+ * AWS SNS `Publish` to a phone number, the sender is sent as the SMS sender ID.
+ */
+export class SNSSMSTransport implements SMSTransport {
+	constructor(
+		private config: Extract<EGPCPhone, { provider: "sns" }>,
+		private now: () => number = Date.now,
+	) {}
+
+	async send({ to, body }: CustomEGCPCProps) {
+		const url = `https://sns.${this.config.region}.amazonaws.com/`;
+		const senderID = selectSMSSender(to, {
+			fromNumber: this.config.fromNumber,
+			senders: this.config.senders,
+		});
+		const form = new URLSearchParams({
+			Action: "Publish",
+			Version: "2010-03-31",
+			PhoneNumber: to,
+			Message: body,
+			"MessageAttributes.entry.1.Name": "AWS.SNS.SMS.SMSType",
+			"MessageAttributes.entry.1.Value.DataType": "String",
+			"MessageAttributes.entry.1.Value.StringValue": "Transactional",
+			...(senderID
+				? {
+						"MessageAttributes.entry.2.Name": "AWS.SNS.SMS.SenderID",
+						"MessageAttributes.entry.2.Value.DataType": "String",
+						"MessageAttributes.entry.2.Value.StringValue": senderID,
+					}
+				: {}),
+		}).toString();
+		const headers = await signAWSRequest(
+			{
+				method: "POST",
+				url,
+				headers: { "Content-Type": "application/x-www-form-urlencoded" },
+				body: form,
+			},
+			{ ...this.config, service: "sns" },
+			this.now(),
+		);
+		const res = await fetch(url, { method: "POST", headers, body: form });
+		if (!res.ok) {
+			const err = await res.text();
+			throw new SMSDeliveryError({
+				provider: "SNS",
+				reason: err.includes("InvalidParameter")
+					? "invalid_recipient"
+					: getDeliveryErrorReason(res.status),
+				status: res.status,
+				detail: err,
+			});
+		}
+	}
+}
+
+export class TelnyxSMSTransport implements SMSTransport {
+	constructor(private config: Extract<EGPCPhone, { provider: "telnyx" }>) {}
+
+	async send({ to, body }: CustomEGCPCProps) {
+		const res = await fetch("https://api.telnyx.com/v2/messages", {
+			method: "POST",
+			headers: {
+				Authorization: `Bearer ${this.config.apiKey}`,
+				"Content-Type": "application/json",
+			},
+			body: JSON.stringify({
+				from: selectSMSSender(to, this.config),
+				to,
+				text: body,
+				...(this.config.messagingProfileID
+					? { messaging_profile_id: this.config.messagingProfileID }
+					: {}),
+			}),
+		});
+		await ensureResponseOk("Telnyx", res);
+	}
+}
+
+/**
+ * Transport of an SMS provider, the `custom` function is called as is.
+ */
+export function createSMSTransport(config: EGPCPhone): SMSTransport {
+	switch (config.provider) {
+		case "twilio":
+			return new TwilioSMSTransport(config);
+		case "vonage":
+			return new VonageSMSTransport(config);
+		case "messagebird":
+			return new MessageBirdSMSTransport(config);
+		case "sns":
+			return new SNSSMSTransport(config);
+		case "telnyx":
+			return new TelnyxSMSTransport(config);
+		case "custom":
+			return {
+				send: async (props) => {
+					await config.sendSMSFunction(props);
+				},
+			};
+	}
+}
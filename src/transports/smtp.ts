@@ -0,0 +1,262 @@
+import type { EGPCEmail } from "../global-conf";
+import {
+	EmailDeliveryError,
+	type EmailMessage,
+	type EmailTransport,
+	parseEmailAddress,
+} from "./email";
+
+type SMTPConfig = Extract<EGPCEmail, { provider: "smtp" }>;
+
+/** `connect` of `cloudflare:sockets` */
+export type SocketConnect = (
+	address: SocketAddress,
+	options: SocketOptions,
+) => Socket;
+
+/** Limit of the connection and of each server reply, a stalled server would hold the request */
+export const SMTP_TIMEOUT_MS = 10_000;
+
+const encoder = new TextEncoder();
+
+/** RFC 2047 encoded-word for the non-ASCII header values */
+function encodeHeader(value: string) {
+	return /^[\x20-\x7e]*$/.test(value)
+		? value
+		: `=?UTF-8?B?${encoder.encode(value).toBase64()}?=`;
+}
+
+/** a single address, without the characters that end it in a command or a header */
+const ADDRESS_PATTERN = /^[^\s@<>()[\]\\,;:"]+@[^\s@<>()[\]\\,;:"]+$/;
+
+/**
+ * Address of a `from` or `to` value, `null` when it is not a single valid address. The recipient is
+ * typed by the user: a CR or LF in it would inject SMTP commands (more recipients) or headers.
+ */
+export function getSMTPAddress(value: string): string | null {
+	if (/[\r\n]/.test(value)) return null;
+	const { address } = parseEmailAddress(value);
+	return ADDRESS_PATTERN.test(address) ? address : null;
+}
+
+function invalidAddressError(field: "from" | "to", value: string) {
+	return new EmailDeliveryError({
+		provider: "SMTP",
+		reason: field === "to" ? "invalid_recipient" : "rejected",
+		detail: `Invalid ${field} address ${JSON.stringify(value)}`,
+	});
+}
+
+function formatAddress(field: "from" | "to", value: string) {
+	const address = getSMTPAddress(value);
+	if (!address) throw invalidAddressError(field, value);
+	const { name } = parseEmailAddress(value);
+	return name ? `${encodeHeader(name)} <${address}>` : address;
+}
+
+/**
+ * Build the DATA of an HTML email, the body is base64 encoded so no line needs dot-stuffing.
+ */
+export function buildMIMEMessage(
+	message: EmailMessage,
+	{ messageID, date }: { messageID: string; date: Date },
+) {
+	const body = encoder.encode(message.html).toBase64();
+	return [
+		`From: ${formatAddress("from", message.from)}`,
+		`To: ${formatAddress("to", message.to)}`,
+		`Subject: ${encodeHeader(message.subject)}`,
+		`Date: ${date.toUTCString()}`,
+		`Message-ID: <${messageID}>`,
+		"MIME-Version: 1.0",
+		"Content-Type: text/html; charset=UTF-8",
+		"Content-Transfer-Encoding: base64",
+		"",
+		...(body.match(/.{1,76}/g) ?? []),
+	].join("\r\n");
+}
+
+/**
+ * `promise`, or an `unavailable` error when it does not settle within `timeout` ms.
+ */
+function withTimeout<T>(promise: Promise<T>, timeout: number, step: string) {
+	const signal = AbortSignal.timeout(timeout);
+	return Promise.race([
+		promise,
+		new Promise<never>((_, reject) =>
+			signal.addEventListener(
+				"abort",
+				() =>
+					reject(
+						new EmailDeliveryError({
+							provider: "SMTP",
+							reason: "unavailable",
+							detail: `No ${step} within ${timeout} ms`,
+						}),
+					),
+				{ once: true },
+			),
+		),
+	]);
+}
+
+/**
+ * SMTP session over a Worker TCP socket.
+ */
+class SMTPConnection {
+	private reader!: ReadableStreamDefaultReader<Uint8Array>;
+	private writer!: WritableStreamDefaultWriter<Uint8Array>;
+	private buffer = "";
+	private decoder = new TextDecoder();
+
+	constructor(
+		private socket: Socket,
+		private timeout: number,
+	) {
+		this.attach(socket);
+	}
+
+	private attach(socket: Socket) {
+		this.socket = socket;
+		this.reader =
+			socket.readable.getReader() as ReadableStreamDefaultReader<Uint8Array>;
+		this.writer = socket.writable.getWriter();
+		this.buffer = "";
+	}
+
+	private async readLine() {
+		let end = this.buffer.indexOf("\n");
+		while (end === -1) {
+			const { value, done } = await withTimeout(
+				this.reader.read(),
+				this.timeout,
+				"reply from the server",
+			);
+			if (done) throw new Error("SMTP error: connection closed by the server");
+			this.buffer += this.decoder.decode(value, { stream: true });
+			end = this.buffer.indexOf("\n");
+		}
+		const line = this.buffer.slice(0, end).replace(/\r$/, "");
+		this.buffer = this.buffer.slice(end + 1);
+		return line;
+	}
+
+	/**
+	 * Read a (multiline) reply and check its code.
+	 */
+	async expect(codes: number[]) {
+		const lines: string[] = [];
+		let line: string;
+		do {
+			line = await this.readLine();
+			lines.push(line.slice(4));
+		} while (line[3] === "-");
+		const code = Number(line.slice(0, 3));
+		if (!codes.includes(code))
+			throw new EmailDeliveryError({
+				provider: "SMTP",
+				// 4xx replies are temporary failures
+				reason:
+					code === 535
+						? "unauthorized"
+						: code >= 400 && code < 500
+							? "unavailable"
+							: code === 550 || code === 553
+								? "invalid_recipient"
+								: "rejected",
+				detail: `${code} ${lines.join(" ")}`,
+			});
+		return lines;
+	}
+
+	async command(line: string, codes: number[]) {
+		await this.writer.write(encoder.encode(`${line}\r\n`));
+		return this.expect(codes);
+	}
+
+	startTls(hostname: string) {
+		this.reader.releaseLock();
+		this.writer.releaseLock();
+		this.attach(this.socket.startTls({ expectedServerHostname: hostname }));
+	}
+
+	opened() {
+		return withTimeout(this.socket.opened, this.timeout, "connection");
+	}
+
+	close() {
+		return this.socket.close();
+	}
+}
+
+/**
+ * SMTP submission with `cloudflare:sockets`, authenticated with `AUTH PLAIN`.
+ */
+export class SMTPEmailTransport implements EmailTransport {
+	constructor(
+		private config: SMTPConfig,
+		private connect?: SocketConnect,
+		private timeout = SMTP_TIMEOUT_MS,
+	) {}
+
+	async send(message: EmailMessage) {
+		// checked before connecting, the addresses are written as is in the commands
+		const from = getSMTPAddress(message.from);
+		if (!from) throw invalidAddressError("from", message.from);
+		const to = getSMTPAddress(message.to);
+		if (!to) throw invalidAddressError("to", message.to);
+
+		const secure = this.config.secure ?? "starttls";
+		const connect =
+			this.connect ?? (await import("cloudflare:sockets")).connect;
+		const connection = new SMTPConnection(
+			connect(
+				{
+					hostname: this.config.host,
+					port: this.config.port ?? (secure === "tls" ? 465 : 587),
+				},
+				{
+					secureTransport:
+						secure === "tls"
+							? "on"
+							: secure === "starttls"
+								? "starttls"
+								: "off",
+					allowHalfOpen: false,
+				},
+			),
+			this.timeout,
+		);
+		const domain = from.split("@")[1] || "localhost";
+
+		try {
+			await connection.opened();
+			await connection.expect([220]);
+			await connection.command(`EHLO ${domain}`, [250]);
+			if (secure === "starttls") {
+				await connection.command("STARTTLS", [220]);
+				connection.startTls(this.config.host);
+				await connection.command(`EHLO ${domain}`, [250]);
+			}
+			if (this.config.username) {
+				const credentials = encoder
+					.encode(`\0${this.config.username}\0${this.config.password ?? ""}`)
+					.toBase64();
+				await connection.command(`AUTH PLAIN ${credentials}`, [235]);
+			}
+			await connection.command(`MAIL FROM:<${from}>`, [250]);
+			await connection.command(`RCPT TO:<${to}>`, [250, 251]);
+			await connection.command("DATA", [354]);
+			await connection.command(
+				`${buildMIMEMessage(message, {
+					messageID: `${crypto.randomUUID()}@${domain}`,
+					date: new Date(),
+				})}\r\n.`,
+				[250],
+			);
+			await connection.command("QUIT", [221]).catch(() => undefined);
+		} finally {
+			await connection.close().catch(() => undefined);
+		}
+	}
+}
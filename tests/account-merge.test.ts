@@ -0,0 +1,117 @@
+import { describe, expect, it } from "bun:test";
+import {
+	getAccountMergeBlockReason,
+	getAccountMergeSettings,
+	isEmailVerified,
+	isLegacyProviderLink,
+} from "../src/endpoints/account-merge";
+
+describe("getAccountMergeSettings", () => {
+	it("defaults to merging verified emails", () => {
+		expect(getAccountMergeSettings({ projectData: {} })).toEqual({
+			policy: "verified",
+			trustedProviders: [],
+		});
+		expect(
+			getAccountMergeSettings({
+				projectData: { accountMerge: { policy: "always" } },
+			}).policy,
+		).toBe("verified");
+	});
+});
+
+describe("isEmailVerified", () => {
+	it("reads the verification claims", () => {
+		expect(isEmailVerified("google", { email_verified: true })).toBe(true);
+		expect(isEmailVerified("oidc", { email_verified: "true" })).toBe(true);
+		expect(isEmailVerified("microsoft", { xms_edov: true })).toBe(true);
+		expect(isEmailVerified("oidc", { email_verified: false })).toBe(false);
+		expect(isEmailVerified("oauth", { email: "user@example.com" })).toBe(
+			false,
+		);
+	});
+
+	it("trusts the providers proving the email ownership", () => {
+		expect(isEmailVerified("password", {})).toBe(true);
+		expect(isEmailVerified("magiclink", undefined)).toBe(true);
+	});
+});
+
+describe("getAccountMergeBlockReason", () => {
+	const unverified = { email: "user@example.com", email_verified: false };
+
+	it("applies the verified policy", () => {
+		const settings = getAccountMergeSettings({ projectData: {} });
+		expect(getAccountMergeBlockReason(settings, "keycloak", unverified)).toBe(
+			"email_not_verified",
+		);
+		expect(
+			getAccountMergeBlockReason(settings, "google", {
+				...unverified,
+				email_verified: true,
+			}),
+		).toBeNull();
+	});
+
+	it("applies the trusted provider list", () => {
+		const settings = getAccountMergeSettings({
+			projectData: {
+				accountMerge: { policy: "trusted", trustedProviders: ["keycloak"] },
+			},
+		});
+		expect(
+			getAccountMergeBlockReason(settings, "keycloak", unverified),
+		).toBeNull();
+		expect(getAccountMergeBlockReason(settings, "password", {})).toBe(
+			"provider_not_trusted",
+		);
+	});
+
+	it("never merges with the never policy", () => {
+		const settings = getAccountMergeSettings({
+			projectData: { accountMerge: { policy: "never" } },
+		});
+		expect(getAccountMergeBlockReason(settings, "password", {})).toBe(
+			"merge_disabled",
+		);
+	});
+});
+
+describe("isLegacyProviderLink", () => {
+	const upgraded = {
+		email: "user@example.com",
+		provider: "password",
+		password: { email: "user@example.com" },
+		github: { email: "user@example.com", login: "octocat" },
+	};
+
+	it("links a provider merged by email before identities were stored", () => {
+		expect(
+			isLegacyProviderLink(upgraded, "github", [
+				{ provider: "password" },
+			]),
+		).toBe(true);
+		// GitHub sends no verified claim, which the merge policy would refuse
+		expect(
+			getAccountMergeBlockReason(
+				getAccountMergeSettings({ projectData: {} }),
+				"github",
+				upgraded.github,
+			),
+		).toBe("email_not_verified");
+	});
+
+	it("leaves the providers the user never signed in with to the merge policy", () => {
+		expect(isLegacyProviderLink(upgraded, "google", [])).toBe(false);
+		expect(isLegacyProviderLink({ ...upgraded, google: "x" }, "google", [])).toBe(
+			false,
+		);
+		expect(isLegacyProviderLink(null, "github", [])).toBe(false);
+	});
+
+	it("only links the first identity of the provider", () => {
+		expect(
+			isLegacyProviderLink(upgraded, "github", [{ provider: "github" }]),
+		).toBe(false);
+	});
+});
@@ -0,0 +1,116 @@
+import { describe, expect, it } from "bun:test";
+import {
+	type CodeSendState,
+	CodeSendThrottledError,
+	checkCodeSend,
+	getCodeSendCooldownStart,
+	getCodeSendRetryAfter,
+	getCodeThrottleSettings,
+} from "../src/endpoints/code-throttle";
+
+const settings = { cooldownSeconds: 60, dailyLimit: 3 };
+const now = Date.parse("2026-01-01T12:00:00.000Z");
+
+describe("getCodeThrottleSettings", () => {
+	it("uses the defaults", () => {
+		expect(getCodeThrottleSettings({ projectData: {} })).toEqual({
+			cooldownSeconds: 60,
+			dailyLimit: 10,
+		});
+	});
+
+	it("reads projectData.codeThrottle and ignores invalid values", () => {
+		expect(
+			getCodeThrottleSettings({
+				projectData: { codeThrottle: { cooldownSeconds: 30, dailyLimit: 0 } },
+			}),
+		).toEqual({ cooldownSeconds: 30, dailyLimit: 10 });
+	});
+});
+
+describe("checkCodeSend", () => {
+	it("allows the first code", () => {
+		expect(checkCodeSend(undefined, settings, now)).toEqual({
+			allowed: true,
+			state: {
+				last_sent_at: "2026-01-01T12:00:00.000Z",
+				day: "2026-01-01",
+				day_count: 1,
+			},
+		});
+	});
+
+	it("blocks during the cooldown", () => {
+		const state: CodeSendState = {
+			last_sent_at: new Date(now - 20_000).toISOString(),
+			day: "2026-01-01",
+			day_count: 1,
+		};
+		expect(checkCodeSend(state, settings, now)).toEqual({
+			allowed: false,
+			reason: "cooldown",
+			retryAfter: 40,
+		});
+	});
+
+	it("counts the codes of the day", () => {
+		const state: CodeSendState = {
+			last_sent_at: new Date(now - 120_000).toISOString(),
+			day: "2026-01-01",
+			day_count: 2,
+		};
+		const check = checkCodeSend(state, settings, now);
+		expect(check.allowed && check.state.day_count).toBe(3);
+	});
+
+	it("blocks until the next UTC day once the daily limit is reached", () => {
+		const state: CodeSendState = {
+			last_sent_at: new Date(now - 120_000).toISOString(),
+			day: "2026-01-01",
+			day_count: 3,
+		};
+		expect(getCodeSendRetryAfter(state, settings, now)).toEqual({
+			reason: "daily_limit",
+			retryAfter: 12 * 3600,
+		});
+	});
+
+	it("resets the count on a new day", () => {
+		const state: CodeSendState = {
+			last_sent_at: "2025-12-31T23:00:00.000Z",
+			day: "2025-12-31",
+			day_count: 3,
+		};
+		const check = checkCodeSend(state, settings, now);
+		expect(check.allowed && check.state.day_count).toBe(1);
+	});
+});
+
+describe("getCodeSendCooldownStart", () => {
+	it("agrees with the cooldown of getCodeSendRetryAfter", () => {
+		const start = getCodeSendCooldownStart(settings, now);
+		expect(start).toBe("2026-01-01T11:59:00.000Z");
+		const state = (last_sent_at: string) => ({
+			last_sent_at,
+			day: "2026-01-01",
+			day_count: 1,
+		});
+		expect(getCodeSendRetryAfter(state(start), settings, now)).toBeNull();
+		expect(
+			getCodeSendRetryAfter(
+				state(new Date(Date.parse(start) + 1).toISOString()),
+				settings,
+				now,
+			),
+		).toMatchObject({ reason: "cooldown" });
+	});
+});
+
+describe("CodeSendThrottledError", () => {
+	it("carries the reason and the wait", () => {
+		const err = new CodeSendThrottledError("cooldown", 40);
+		expect(err).toBeInstanceOf(Error);
+		expect(err.reason).toBe("cooldown");
+		expect(err.retryAfter).toBe(40);
+	});
+});
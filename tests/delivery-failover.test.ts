@@ -0,0 +1,92 @@
+import { describe, expect, it } from "bun:test";
+import {
+	DeliveryError,
+	DeliveryFailoverError,
+	deliverWithFailover,
+	isTransientDeliveryError,
+} from "../src/transports/delivery";
+
+const unavailable = new DeliveryError({
+	provider: "resend",
+	reason: "unavailable",
+	status: 503,
+});
+const unauthorized = new DeliveryError({
+	provider: "resend",
+	reason: "unauthorized",
+	status: 401,
+});
+
+/** Transport failing with `errors` in order, then succeeding. */
+function transport(provider: string, errors: unknown[]) {
+	const calls: number[] = [];
+	return {
+		calls,
+		provider,
+		send: async () => {
+			calls.push(calls.length);
+			const error = errors[calls.length - 1];
+			if (error) throw error;
+		},
+	};
+}
+
+describe("isTransientDeliveryError", () => {
+	it("retries unavailable, rate limited and unknown errors", () => {
+		expect(isTransientDeliveryError(unavailable)).toBe(true);
+		expect(isTransientDeliveryError(new TypeError("fetch failed"))).toBe(true);
+		expect(isTransientDeliveryError(unauthorized)).toBe(false);
+	});
+});
+
+describe("deliverWithFailover", () => {
+	it("retries a transient error with an exponential backoff", async () => {
+		const waits: number[] = [];
+		const first = transport("resend", [unavailable, unavailable]);
+		const result = await deliverWithFailover(
+			[first],
+			{ retries: 2, backoffMs: 100 },
+			async (ms) => {
+				waits.push(ms);
+			},
+		);
+		expect(waits).toEqual([100, 200]);
+		expect(result).toEqual({
+			provider: "resend",
+			attempts: [
+				{ provider: "resend", error: unavailable.message },
+				{ provider: "resend", error: unavailable.message },
+				{ provider: "resend" },
+			],
+		});
+	});
+
+	it("fails over to the next transport", async () => {
+		const first = transport("resend", [unauthorized]);
+		const second = transport("postmark", []);
+		const result = await deliverWithFailover([first, second], {}, async () => {});
+		expect(first.calls.length).toBe(1);
+		expect(result.provider).toBe("postmark");
+		expect(result.attempts.length).toBe(2);
+	});
+
+	it("throws the attempts when no transport delivered", async () => {
+		const failed = deliverWithFailover(
+			[
+				transport("resend", [unavailable, unavailable]),
+				transport("postmark", [unauthorized]),
+			],
+			{ retries: 1 },
+			async () => {},
+		);
+		await expect(failed).rejects.toBeInstanceOf(DeliveryFailoverError);
+		await expect(failed).rejects.toMatchObject({
+			attempts: [
+				{ provider: "resend" },
+				{ provider: "resend" },
+				{ provider: "postmark" },
+			],
+			cause: unauthorized,
+		});
+	});
+});
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "bun:test";
+import { safeParse } from "valibot";
+import {
+	applyProjectDelivery,
+	getDeliveryKeyring,
+	ProjectDeliverySchema,
+	redactProjectDelivery,
+} from "../src/endpoints/delivery";
+import type { ExternalGlobalProjectConfig } from "../src/global-conf";
+
+const globalConfig: ExternalGlobalProjectConfig = {
+	register: {
+		fallbackEmailFrom: "fallback@example.com",
+		strategy: {
+			email: { provider: "resend", apiKey: "global", emailFrom: "a@b.c" },
+			phone: {
+				provider: "twilio",
+				accountSID: "AC1",
+				authToken: "token",
+				fromNumber: "+15550100",
+			},
+		},
+	},
+};
+
+describe("ProjectDeliverySchema", () => {
+	it("accepts a provider and defaults the other one to the global strategy", () => {
+		const result = safeParse(ProjectDeliverySchema, {
+			email: {
+				provider: "postmark",
+				serverToken: "pm-token",
+				emailFrom: "no-reply@acme.test",
+			},
+		});
+		expect(result.success && result.output).toEqual({
+			email: {
+				provider: "postmark",
+				serverToken: "pm-token",
+				emailFrom: "no-reply@acme.test",
+			},
+			phone: null,
+		});
+	});
+
+	it("rejects unknown providers and missing credentials", () => {
+		expect(
+			safeParse(ProjectDeliverySchema, { email: { provider: "custom" } })
+				.success,
+		).toBe(false);
+		expect(
+			safeParse(ProjectDeliverySchema, {
+				phone: { provider: "telnyx", fromNumber: "+15550100" },
+			}).success,
+		).toBe(false);
+	});
+});
+
+describe("redactProjectDelivery", () => {
+	it("masks the credentials", () => {
+		expect(
+			redactProjectDelivery({
+				email: {
+					provider: "sendgrid",
+					apiKey: "SG.abcdefghijkl",
+					emailFrom: "no-reply@acme.test",
+				},
+				phone: {
+					provider: "vonage",
+					apiKey: "key",
+					apiSecret: "secret",
+					fromNumber: "Acme",
+				},
+			}),
+		).toEqual({
+			email: {
+				provider: "sendgrid",
+				apiKey: "****ijkl",
+				emailFrom: "no-reply@acme.test",
+			},
+			phone: {
+				provider: "vonage",
+				apiKey: "****",
+				apiSecret: "****",
+				fromNumber: "Acme",
+			},
+		});
+	});
+});
+
+describe("applyProjectDelivery", () => {
+	it("keeps the global strategy without project providers", () => {
+		expect(applyProjectDelivery(globalConfig, null)).toBe(globalConfig);
+	});
+
+	it("prefers the project providers", () => {
+		const email = {
+			provider: "mailgun" as const,
+			apiKey: "key",
+			domain: "mg.acme.test",
+			emailFrom: "no-reply@acme.test",
+		};
+		const config = applyProjectDelivery(globalConfig, { email, phone: null });
+		expect(config.register.strategy.email).toEqual(email);
+		expect(config.register.strategy.phone).toBe(
+			globalConfig.register.strategy.phone,
+		);
+	});
+});
+
+describe("getDeliveryKeyring", () => {
+	it("reads DELIVERY_ENCRYPTION_KEYS", () => {
+		const key = crypto.getRandomValues(new Uint8Array(32)).toBase64();
+		expect(getDeliveryKeyring({} as Env)).toBeNull();
+		expect(
+			getDeliveryKeyring({
+				DELIVERY_ENCRYPTION_KEYS: `k1:${key}`,
+			} as unknown as Env)?.currentKeyID,
+		).toBe("k1");
+	});
+});
@@ -0,0 +1,331 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { signAWSRequest } from "../src/transports/aws";
+import {
+	createEmailTransport,
+	type EmailMessage,
+	FAKE_EMAIL_OUTBOX_SIZE,
+	FakeEmailTransport,
+	fakeEmailOutbox,
+	parseEmailAddress,
+} from "../src/transports/email";
+import {
+	buildMIMEMessage,
+	getSMTPAddress,
+	SMTPEmailTransport,
+} from "../src/transports/smtp";
+
+const message: EmailMessage = {
+	from: "Acme <no-reply@acme.test>",
+	to: "user@example.com",
+	subject: "Your verification code",
+	html: "<p>123456</p>",
+};
+
+const realFetch = globalThis.fetch;
+afterEach(() => {
+	globalThis.fetch = realFetch;
+});
+
+/** Replace `fetch`, returning the captured requests. */
+function captureFetch(status = 200) {
+	const requests: Request[] = [];
+	globalThis.fetch = (async (input: string, init?: RequestInit) => {
+		requests.push(new Request(input, init));
+		return new Response("{}", { status });
+	}) as typeof fetch;
+	return requests;
+}
+
+describe("parseEmailAddress", () => {
+	it("splits the name and the address", () => {
+		expect(parseEmailAddress("Acme <no-reply@acme.test>")).toEqual({
+			name: "Acme",
+			address: "no-reply@acme.test",
+		});
+		expect(parseEmailAddress(" user@example.com ")).toEqual({
+			address: "user@example.com",
+		});
+	});
+});
+
+describe("signAWSRequest", () => {
+	it("matches the AWS Signature Version 4 test suite", async () => {
+		const headers = await signAWSRequest(
+			{ method: "GET", url: "https://example.amazonaws.com/" },
+			{
+				service: "service",
+				region: "us-east-1",
+				accessKeyId: "AKIDEXAMPLE",
+				secretAccessKey: "wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY",
+			},
+			Date.parse("2015-08-30T12:36:00Z"),
+		);
+		expect(headers.authorization).toBe(
+			"AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20150830/us-east-1/service/aws4_request, SignedHeaders=host;x-amz-date, Signature=5fa00fa31553b73ebf1942676e86291e8372ff2a2260956d9b8aae1d763fbf31",
+		);
+		expect(headers["x-amz-date"]).toBe("20150830T123600Z");
+	});
+});
+
+describe("HTTP transports", () => {
+	it("sends with Postmark", async () => {
+		const requests = captureFetch();
+		await (
+			await createEmailTransport({
+				provider: "postmark",
+				serverToken: "token",
+				emailFrom: "no-reply@acme.test",
+			})
+		).send(message);
+		expect(requests[0].url).toBe("https://api.postmarkapp.com/email");
+		expect(requests[0].headers.get("X-Postmark-Server-Token")).toBe("token");
+		expect(await requests[0].json()).toMatchObject({
+			From: message.from,
+			To: message.to,
+			HtmlBody: message.html,
+			MessageStream: "outbound",
+		});
+	});
+
+	it("sends with Mailgun in the EU region", async () => {
+		const requests = captureFetch();
+		await (
+			await createEmailTransport({
+				provider: "mailgun",
+				apiKey: "key",
+				domain: "mg.acme.test",
+				region: "eu",
+				emailFrom: "no-reply@acme.test",
+			})
+		).send(message);
+		expect(requests[0].url).toBe(
+			"https://api.eu.mailgun.net/v3/mg.acme.test/messages",
+		);
+		expect(requests[0].headers.get("Authorization")).toBe(
+			`Basic ${btoa("api:key")}`,
+		);
+		const form = new URLSearchParams(await requests[0].text());
+		expect(form.get("to")).toBe(message.to);
+	});
+
+	it("sends with SendGrid", async () => {
+		const requests = captureFetch();
+		await (
+			await createEmailTransport({
+				provider: "sendgrid",
+				apiKey: "key",
+				emailFrom: "no-reply@acme.test",
+			})
+		).send(message);
+		expect(await requests[0].json()).toMatchObject({
+			personalizations: [{ to: [{ email: message.to }] }],
+			from: { email: "no-reply@acme.test", name: "Acme" },
+		});
+	});
+
+	it("signs the SES requests", async () => {
+		const requests = captureFetch();
+		await (
+			await createEmailTransport({
+				provider: "ses",
+				region: "eu-west-1",
+				accessKeyId: "AKID",
+				secretAccessKey: "secret",
+				emailFrom: "no-reply@acme.test",
+			})
+		).send(message);
+		expect(requests[0].url).toBe(
+			"https://email.eu-west-1.amazonaws.com/v2/email/outbound-emails",
+		);
+		expect(requests[0].headers.get("authorization")).toStartWith(
+			"AWS4-HMAC-SHA256 Credential=AKID/",
+		);
+		expect(await requests[0].json()).toMatchObject({
+			FromEmailAddress: message.from,
+			Destination: { ToAddresses: [message.to] },
+		});
+	});
+
+	it("throws on a provider error", async () => {
+		captureFetch(401);
+		const transport = await createEmailTransport({
+			provider: "sendgrid",
+			apiKey: "key",
+			emailFrom: "no-reply@acme.test",
+		});
+		await expect(transport.send(message)).rejects.toThrow("SendGrid error 401");
+	});
+});
+
+describe("FakeEmailTransport", () => {
+	it("captures the messages", async () => {
+		const messages: EmailMessage[] = [];
+		await (await createEmailTransport({ provider: "fake", messages })).send(
+			message,
+		);
+		expect(messages).toEqual([message]);
+		expect(new FakeEmailTransport(messages).messages).toBe(messages);
+	});
+
+	it("keeps the last messages of the default outbox", async () => {
+		const transport = new FakeEmailTransport();
+		for (let i = 0; i <= FAKE_EMAIL_OUTBOX_SIZE; i++)
+			await transport.send({ ...message, subject: `#${i}` });
+		expect(fakeEmailOutbox).toHaveLength(FAKE_EMAIL_OUTBOX_SIZE);
+		expect(fakeEmailOutbox.at(-1)?.subject).toBe(`#${FAKE_EMAIL_OUTBOX_SIZE}`);
+		fakeEmailOutbox.length = 0;
+	});
+});
+
+describe("SMTP", () => {
+	it("builds a base64 encoded HTML message", () => {
+		const data = buildMIMEMessage(
+			{ ...message, subject: "Votre code de vérification" },
+			{ messageID: "id@acme.test", date: new Date(0) },
+		);
+		expect(data).toContain("From: Acme <no-reply@acme.test>\r\n");
+		expect(data).toContain(
+			`Subject: =?UTF-8?B?${new TextEncoder().encode("Votre code de vérification").toBase64()}?=`,
+		);
+		expect(data).toContain("Message-ID: <id@acme.test>");
+		expect(data.endsWith(`\r\n\r\n${btoa(message.html)}`)).toBe(true);
+	});
+
+	it("refuses addresses that would inject commands or headers", async () => {
+		const injected = [
+			"user@example.com>\r\nRCPT TO:<victim@example.com",
+			"user@example.com\r\nBcc: victim@example.com",
+			"Name\n <user@example.com>",
+			"user@example.com victim@example.com",
+			"not-an-address",
+		];
+		for (const to of injected) {
+			expect(getSMTPAddress(to)).toBeNull();
+			expect(() =>
+				buildMIMEMessage(
+					{ ...message, to },
+					{ messageID: "id@acme.test", date: new Date(0) },
+				),
+			).toThrow("Invalid to address");
+			await expect(
+				new SMTPEmailTransport(
+					{
+						provider: "smtp",
+						host: "smtp.acme.test",
+						emailFrom: "a@acme.test",
+					},
+					() => {
+						throw new Error("connected");
+					},
+				).send({ ...message, to }),
+			).rejects.toMatchObject({ reason: "invalid_recipient" });
+		}
+		expect(getSMTPAddress("Acme <no-reply@acme.test>")).toBe(
+			"no-reply@acme.test",
+		);
+	});
+
+	it("runs the submission dialog", async () => {
+		const commands: string[] = [];
+		const decoder = new TextDecoder();
+		let server!: ReadableStreamDefaultController<Uint8Array>;
+		const reply = (line: string) =>
+			server.enqueue(new TextEncoder().encode(`${line}\r\n`));
+		let data = false;
+		const socket = {
+			readable: new ReadableStream<Uint8Array>({
+				start(controller) {
+					server = controller;
+					reply("220 smtp.acme.test ready");
+				},
+			}),
+			writable: new WritableStream<Uint8Array>({
+				write(chunk) {
+					const line = decoder.decode(chunk).replace(/\r\n$/, "");
+					if (data) {
+						data = false;
+						commands.push("<data>");
+						return reply("250 queued");
+					}
+					commands.push(line.split(" ")[0]);
+					if (line.startsWith("EHLO"))
+						return reply("250-smtp.acme.test\r\n250 AUTH PLAIN");
+					if (line === "STARTTLS") return reply("220 go ahead");
+					if (line.startsWith("AUTH")) return reply("235 ok");
+					if (line === "DATA") {
+						data = true;
+						return reply("354 send data");
+					}
+					if (line === "QUIT") return reply("221 bye");
+					reply("250 ok");
+				},
+			}),
+			startTls() {
+				return socket;
+			},
+			close: async () => {},
+		} as unknown as Socket;
+
+		await new SMTPEmailTransport(
+			{
+				provider: "smtp",
+				host: "smtp.acme.test",
+				username: "user",
+				password: "pass",
+				emailFrom: "no-reply@acme.test",
+			},
+			() => socket,
+		).send(message);
+		expect(commands).toEqual([
+			"EHLO",
+			"STARTTLS",
+			"EHLO",
+			"AUTH",
+			"MAIL",
+			"RCPT",
+			"DATA",
+			"<data>",
+			"QUIT",
+		]);
+	});
+
+	it("gives up on a server that stops answering", async () => {
+		const config = {
+			provider: "smtp",
+			host: "smtp.acme.test",
+			emailFrom: "no-reply@acme.test",
+		} as const;
+		let closed = 0;
+		const stalled = (opened: Promise<unknown>) =>
+			({
+				opened,
+				readable: new ReadableStream<Uint8Array>(),
+				writable: new WritableStream<Uint8Array>(),
+				close: async () => {
+					closed++;
+				},
+			}) as unknown as Socket;
+
+		await expect(
+			new SMTPEmailTransport(
+				config,
+				() => stalled(new Promise(() => {})),
+				20,
+			).send(message),
+		).rejects.toMatchObject({
+			reason: "unavailable",
+			message: "SMTP error: No connection within 20 ms",
+		});
+		await expect(
+			new SMTPEmailTransport(
+				config,
+				() => stalled(Promise.resolve({})),
+				20,
+			).send(message),
+		).rejects.toMatchObject({
+			reason: "unavailable",
+			message: "SMTP error: No reply from the server within 20 ms",
+		});
+		expect(closed).toBe(2);
+	});
+});
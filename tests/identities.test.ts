@@ -0,0 +1,84 @@
+import { describe, expect, it } from "bun:test";
+import {
+	getAccountLinkStartError,
+	getIdentityID,
+	getUnlinkError,
+	hashAccountLinkNonce,
+} from "../src/endpoints/identities";
+
+describe("getIdentityID", () => {
+	it("is unique per project, provider and subject", () => {
+		expect(getIdentityID("client", "github", "42")).toBe("client:github:42");
+		expect(getIdentityID("client", "google", "42")).not.toBe(
+			getIdentityID("client", "github", "42"),
+		);
+	});
+});
+
+describe("getUnlinkError", () => {
+	const identities = [
+		{ provider: "password", provider_subject: "user@example.com" },
+		{ provider: "github", provider_subject: "github-42" },
+	];
+
+	it("allows unlinking a linked identity", () => {
+		expect(getUnlinkError(identities, "github", "user@example.com")).toBeNull();
+	});
+
+	it("refuses the identity the user registered with", () => {
+		expect(getUnlinkError(identities, "password", "user@example.com")).toBe(
+			"primary_identity",
+		);
+	});
+
+	it("reports providers that are not linked", () => {
+		expect(getUnlinkError(identities, "google", "user@example.com")).toBe(
+			"not_linked",
+		);
+	});
+});
+
+describe("getAccountLinkStartError", () => {
+	const now = Date.UTC(2026, 0, 1);
+	const request = {
+		user_id: "alice",
+		expires_at: new Date(now + 60_000).toISOString(),
+		nonce_hash: null,
+	};
+
+	it("lets the user who created the link start it", () => {
+		expect(getAccountLinkStartError(request, "alice", now)).toBeNull();
+	});
+
+	it("hides the links of other users", () => {
+		expect(getAccountLinkStartError(request, "mallory", now)).toBe("not_found");
+		expect(getAccountLinkStartError(undefined, "alice", now)).toBe(
+			"not_found",
+		);
+	});
+
+	it("refuses expired links and links started in a browser", () => {
+		expect(getAccountLinkStartError(request, "alice", now + 60_000)).toBe(
+			"expired",
+		);
+		expect(
+			getAccountLinkStartError(
+				{ ...request, nonce_hash: "started" },
+				"alice",
+				now,
+			),
+		).toBe("started");
+	});
+});
+
+describe("hashAccountLinkNonce", () => {
+	it("only matches the nonce of the browser", async () => {
+		expect(await hashAccountLinkNonce("nonce-1")).toBe(
+			await hashAccountLinkNonce("nonce-1"),
+		);
+		expect(await hashAccountLinkNonce("nonce-1")).not.toBe(
+			await hashAccountLinkNonce("nonce-2"),
+		);
+		expect(await hashAccountLinkNonce("nonce-1")).not.toContain("nonce-1");
+	});
+});
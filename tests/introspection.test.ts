@@ -0,0 +1,60 @@
+import { describe, expect, it } from "bun:test";
+import {
+	isRefreshTokenActive,
+	toIntrospectionResponse,
+} from "../src/endpoints/introspection";
+
+const now = Date.parse("2026-01-01T00:00:00.000Z");
+
+describe("isRefreshTokenActive", () => {
+	it("accepts unused tokens", () => {
+		expect(isRefreshTokenActive({}, now)).toBe(true);
+	});
+
+	it("accepts used tokens during the reuse interval only", () => {
+		expect(isRefreshTokenActive({ timeUsed: now - 30_000 }, now)).toBe(true);
+		expect(isRefreshTokenActive({ timeUsed: now - 60_000 }, now)).toBe(false);
+	});
+});
+
+describe("toIntrospectionResponse", () => {
+	it("exposes the subject, expiry and permissions as scope", () => {
+		const properties = {
+			id: "u1",
+			identifier: "jane@example.com",
+			permissions: ["posts:read", "posts:write"],
+		};
+		expect(
+			toIntrospectionResponse({
+				tokenType: "access_token",
+				clientID: "c1",
+				subject: "user:abc",
+				properties,
+				exp: 1700000900,
+				iat: 1700000000,
+				iss: "https://auth.example.com",
+			}),
+		).toEqual({
+			active: true,
+			token_type: "access_token",
+			client_id: "c1",
+			sub: "user:abc",
+			username: "jane@example.com",
+			scope: "posts:read posts:write",
+			exp: 1700000900,
+			iat: 1700000000,
+			iss: "https://auth.example.com",
+			properties,
+		});
+	});
+
+	it("returns an empty scope without permissions", () => {
+		const response = toIntrospectionResponse({
+			tokenType: "refresh_token",
+			clientID: "c1",
+			subject: "user:abc",
+			properties: { id: "u1" },
+		});
+		expect(response.active && response.scope).toBe("");
+	});
+});
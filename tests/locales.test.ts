@@ -0,0 +1,74 @@
+import { describe, expect, it } from "bun:test";
+import {
+	getDefaultLocale,
+	getRequestedLocales,
+	normalizeLocale,
+	parseAcceptLanguage,
+	selectLocale,
+} from "../src/endpoints/locales";
+
+describe("normalizeLocale", () => {
+	it("lowercases language tags", () => {
+		expect(normalizeLocale("pt-BR")).toBe("pt-br");
+		expect(normalizeLocale(" en_US ")).toBe("en-us");
+	});
+
+	it("rejects values that are not language tags", () => {
+		expect(normalizeLocale("*")).toBeNull();
+		expect(normalizeLocale("../fr")).toBeNull();
+		expect(normalizeLocale("")).toBeNull();
+	});
+});
+
+describe("parseAcceptLanguage", () => {
+	it("orders the locales by quality, then by position", () => {
+		expect(
+			parseAcceptLanguage("de;q=0.5, fr-CH, fr;q=0.9, en;q=0.9, *;q=0.1"),
+		).toEqual(["fr-ch", "fr", "en", "de"]);
+	});
+
+	it("drops the refused locales", () => {
+		expect(parseAcceptLanguage("es;q=0, it")).toEqual(["it"]);
+		expect(parseAcceptLanguage(null)).toEqual([]);
+	});
+});
+
+describe("getRequestedLocales", () => {
+	it("puts the ui_locales param before Accept-Language", () => {
+		expect(
+			getRequestedLocales({
+				uiLocales: "es fr",
+				acceptLanguage: "fr;q=0.8, en",
+			}),
+		).toEqual(["es", "fr", "en"]);
+	});
+});
+
+describe("selectLocale", () => {
+	const available = ["en", "fr-ca", "pt-br"];
+
+	it("matches the exact locale, then the language", () => {
+		expect(selectLocale(["pt-br"], available)).toBe("pt-br");
+		expect(selectLocale(["en-gb"], available)).toBe("en");
+		expect(selectLocale(["fr"], available)).toBe("fr-ca");
+	});
+
+	it("uses the first requested locale that is available", () => {
+		expect(selectLocale(["de", "pt"], available)).toBe("pt-br");
+	});
+
+	it("falls back to the default locale", () => {
+		expect(selectLocale(["de"], available, "EN")).toBe("en");
+		expect(selectLocale(["de"], available, "it")).toBeNull();
+		expect(selectLocale([], available)).toBeNull();
+	});
+});
+
+describe("getDefaultLocale", () => {
+	it("reads projectData.defaultLocale", () => {
+		expect(getDefaultLocale({ projectData: { defaultLocale: "fr-FR" } })).toBe(
+			"fr-fr",
+		);
+		expect(getDefaultLocale({ projectData: {} })).toBeNull();
+	});
+});
@@ -0,0 +1,126 @@
+import { describe, expect, it } from "bun:test";
+import {
+	getMagicLinkSettings,
+	hashMagicLinkBinding,
+	isMagicLinkActive,
+	isMagicLinkCode,
+	MAX_MAGIC_LINK_CODE_ATTEMPTS,
+	signMagicLinkToken,
+	verifyMagicLinkToken,
+} from "../src/endpoints/magic-link";
+
+const secret = "client-secret";
+const now = Date.UTC(2026, 0, 1);
+const payload = {
+	id: "link-1",
+	email: "user@example.com",
+	exp: now / 1000 + 600,
+};
+
+describe("getMagicLinkSettings", () => {
+	it("uses the defaults for missing or invalid values", () => {
+		expect(getMagicLinkSettings(undefined)).toEqual({
+			templateId: undefined,
+			ttlSeconds: 600,
+			sameBrowser: false,
+			fallbackCode: true,
+		});
+		expect(
+			getMagicLinkSettings({ ttlSeconds: 5, sameBrowser: true, templateId: 3 }),
+		).toEqual({
+			templateId: 3,
+			ttlSeconds: 600,
+			sameBrowser: true,
+			fallbackCode: true,
+		});
+	});
+});
+
+describe("magic link tokens", () => {
+	it("verifies a signed token", async () => {
+		const token = await signMagicLinkToken(payload, secret);
+		expect(await verifyMagicLinkToken(token, secret, { now })).toEqual({
+			payload,
+		});
+	});
+
+	it("rejects tampered tokens and other secrets", async () => {
+		const token = await signMagicLinkToken(payload, secret);
+		const forged = await signMagicLinkToken(
+			{ ...payload, email: "attacker@example.com" },
+			"other-secret",
+		);
+		expect(
+			await verifyMagicLinkToken(
+				`${forged.split(".")[0]}.${token.split(".")[1]}`,
+				secret,
+				{ now },
+			),
+		).toEqual({ error: "invalid" });
+		expect(await verifyMagicLinkToken(forged, secret, { now })).toEqual({
+			error: "invalid",
+		});
+		expect(await verifyMagicLinkToken("garbage", secret, { now })).toEqual({
+			error: "invalid",
+		});
+	});
+
+	it("rejects expired tokens", async () => {
+		const token = await signMagicLinkToken(payload, secret);
+		expect(
+			await verifyMagicLinkToken(token, secret, { now: now + 600_000 }),
+		).toEqual({ error: "expired" });
+	});
+
+	it("checks the browser binding", async () => {
+		const token = await signMagicLinkToken(
+			{ ...payload, bnd: await hashMagicLinkBinding("browser-1") },
+			secret,
+		);
+		expect(
+			await verifyMagicLinkToken(token, secret, { now, binding: "browser-1" }),
+		).toHaveProperty("payload");
+		expect(
+			await verifyMagicLinkToken(token, secret, { now, binding: "browser-2" }),
+		).toEqual({ error: "other_browser" });
+		expect(await verifyMagicLinkToken(token, secret, { now })).toEqual({
+			error: "other_browser",
+		});
+	});
+});
+
+describe("magic link codes", () => {
+	it("compares the typed code", () => {
+		expect(isMagicLinkCode("012345", " 012345 ")).toBe(true);
+		expect(isMagicLinkCode("012345", "012346")).toBe(false);
+		expect(isMagicLinkCode("012345", "01234")).toBe(false);
+		expect(isMagicLinkCode("012345", "0123456")).toBe(false);
+		expect(isMagicLinkCode("012345", "")).toBe(false);
+	});
+
+	it("locks the link after too many wrong codes", () => {
+		const expires_at = new Date(now + 60_000).toISOString();
+		expect(isMagicLinkActive({ expires_at, code_attempts: 0 }, now)).toBe(true);
+		expect(
+			isMagicLinkActive(
+				{ expires_at, code_attempts: MAX_MAGIC_LINK_CODE_ATTEMPTS - 1 },
+				now,
+			),
+		).toBe(true);
+		expect(
+			isMagicLinkActive(
+				{ expires_at, code_attempts: MAX_MAGIC_LINK_CODE_ATTEMPTS },
+				now,
+			),
+		).toBe(false);
+	});
+
+	it("does not accept the code of an expired link", () => {
+		expect(
+			isMagicLinkActive(
+				{ expires_at: new Date(now).toISOString(), code_attempts: 0 },
+				now,
+			),
+		).toBe(false);
+	});
+});
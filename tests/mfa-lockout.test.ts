@@ -0,0 +1,86 @@
+import { describe, expect, it } from "bun:test";
+import {
+	getLockoutDelaySeconds,
+	getRetryAfterSeconds,
+	type LockoutPolicy,
+	registerFailure,
+} from "../src/endpoints/lockout";
+
+const policy: LockoutPolicy = {
+	maxAttempts: 3,
+	baseDelaySeconds: 10,
+	maxDelaySeconds: 60,
+	resetAfterSeconds: 300,
+};
+
+const now = Date.parse("2026-01-01T00:00:00.000Z");
+
+describe("getLockoutDelaySeconds", () => {
+	it("does not lock under the threshold", () => {
+		expect(getLockoutDelaySeconds(1, policy)).toBe(0);
+		expect(getLockoutDelaySeconds(2, policy)).toBe(0);
+	});
+
+	it("doubles the delay on every failure past the threshold", () => {
+		expect(getLockoutDelaySeconds(3, policy)).toBe(10);
+		expect(getLockoutDelaySeconds(4, policy)).toBe(20);
+		expect(getLockoutDelaySeconds(5, policy)).toBe(40);
+	});
+
+	it("caps the delay", () => {
+		expect(getLockoutDelaySeconds(6, policy)).toBe(60);
+		expect(getLockoutDelaySeconds(500, policy)).toBe(60);
+	});
+});
+
+describe("getRetryAfterSeconds", () => {
+	it("returns 0 without a lock", () => {
+		expect(getRetryAfterSeconds(undefined, now)).toBe(0);
+		expect(getRetryAfterSeconds({ locked_until: null }, now)).toBe(0);
+	});
+
+	it("returns the remaining seconds rounded up", () => {
+		const locked_until = new Date(now + 4500).toISOString();
+		expect(getRetryAfterSeconds({ locked_until }, now)).toBe(5);
+	});
+
+	it("returns 0 once the lock expired", () => {
+		const locked_until = new Date(now - 1).toISOString();
+		expect(getRetryAfterSeconds({ locked_until }, now)).toBe(0);
+	});
+});
+
+describe("registerFailure", () => {
+	it("starts a new counter", () => {
+		const state = registerFailure(undefined, policy, now);
+		expect(state.failures).toBe(1);
+		expect(state.retryAfter).toBe(0);
+		expect(state.locked_until).toBeNull();
+		expect(state.last_failure_at).toBe(new Date(now).toISOString());
+	});
+
+	it("locks once the threshold is reached", () => {
+		let state = registerFailure(undefined, policy, now);
+		state = registerFailure(state, policy, now + 1000);
+		state = registerFailure(state, policy, now + 2000);
+		expect(state.failures).toBe(3);
+		expect(state.retryAfter).toBe(10);
+		expect(state.locked_until).toBe(new Date(now + 12000).toISOString());
+		expect(getRetryAfterSeconds(state, now + 2000)).toBe(10);
+	});
+
+	it("forgets failures older than the reset window", () => {
+		const previous = {
+			failures: 5,
+			locked_until: null,
+			last_failure_at: new Date(now).toISOString(),
+		};
+		const state = registerFailure(
+			previous,
+			policy,
+			now + policy.resetAfterSeconds * 1000 + 1,
+		);
+		expect(state.failures).toBe(1);
+		expect(state.retryAfter).toBe(0);
+	});
+});
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "bun:test";
+import {
+	addMFAToAMR,
+	getIssuerRelyingParty,
+	getLoginMFAChallenge,
+	getMFALoginSettings,
+	getProviderAMR,
+	type LoginMFAFactors,
+} from "../src/endpoints/mfa-login";
+
+describe("getMFALoginSettings", () => {
+	it("does not require MFA by default", () => {
+		expect(getMFALoginSettings({ projectData: {} }).requireAtLogin).toBe(false);
+		expect(
+			getMFALoginSettings({ projectData: { mfa: { requireAtLogin: "yes" } } })
+				.requireAtLogin,
+		).toBe(false);
+	});
+
+	it("reads projectData.mfa", () => {
+		expect(
+			getMFALoginSettings({ projectData: { mfa: { requireAtLogin: true } } })
+				.requireAtLogin,
+		).toBe(true);
+	});
+});
+
+describe("getProviderAMR", () => {
+	it("maps the first factor providers", () => {
+		expect(getProviderAMR("password")).toEqual(["pwd"]);
+		expect(getProviderAMR("code")).toEqual(["otp"]);
+		expect(getProviderAMR("magiclink")).toEqual(["otp"]);
+		expect(getProviderAMR("passkey")).toEqual(["hwk", "user"]);
+		expect(getProviderAMR("qr")).toEqual(["mca"]);
+	});
+
+	it("reports social and OIDC providers as federated", () => {
+		expect(getProviderAMR("google")).toEqual(["fed"]);
+		expect(getProviderAMR("oidc")).toEqual(["fed"]);
+	});
+});
+
+describe("addMFAToAMR", () => {
+	it("adds the second factor and mfa", () => {
+		expect(addMFAToAMR(["pwd"], "totp")).toEqual(["pwd", "otp", "mfa"]);
+		expect(addMFAToAMR(["pwd"], "passkey")).toEqual(["pwd", "hwk", "mfa"]);
+	});
+
+	it("does not duplicate methods", () => {
+		expect(addMFAToAMR(["otp"], "backup_code")).toEqual(["otp", "mfa"]);
+	});
+});
+
+describe("getLoginMFAChallenge", () => {
+	// the hosted MFA page, served by the issuer and not by the project origin
+	const pageURL = "https://auth.example.com/mfa/authorize";
+
+	function factorsOf(user: { totp: boolean; passkeys: boolean }) {
+		const started: string[] = [];
+		const factors: LoginMFAFactors = {
+			hasVerifiedTOTP: async () => user.totp,
+			hasPasskeys: async () => user.passkeys,
+			startPasskeyAssertion: async (rpID) => {
+				started.push(rpID);
+				return {
+					challengeId: "challenge-1",
+					options: { challenge: "c", rpId: rpID },
+				};
+			},
+		};
+		return { factors, started };
+	}
+
+	it("challenges a TOTP user without starting a passkey assertion", async () => {
+		const { factors, started } = factorsOf({ totp: true, passkeys: false });
+		expect(await getLoginMFAChallenge(factors, pageURL)).toEqual({
+			totp: true,
+			passkey: undefined,
+		});
+		expect(started).toEqual([]);
+	});
+
+	it("starts the passkey assertion for the issuer", async () => {
+		const { factors, started } = factorsOf({ totp: false, passkeys: true });
+		expect(await getLoginMFAChallenge(factors, pageURL)).toEqual({
+			totp: false,
+			passkey: {
+				challengeId: "challenge-1",
+				options: { challenge: "c", rpId: "auth.example.com" },
+			},
+		});
+		expect(started).toEqual(["auth.example.com"]);
+	});
+});
+
+describe("getIssuerRelyingParty", () => {
+	it("uses the origin of the issuer page", () => {
+		expect(
+			getIssuerRelyingParty("https://auth.example.com:8443/mfa/authorize?x=1"),
+		).toEqual({
+			origin: "https://auth.example.com:8443",
+			rpID: "auth.example.com",
+		});
+	});
+});
@@ -0,0 +1,369 @@
+import { describe, expect, it } from "bun:test";
+import type { AuthenticationResponseJSON } from "@simplewebauthn/server";
+import {
+	getAssertionCounter,
+	getAssertionCredentialID,
+	isPasskeyChallengeActive,
+	isPasskeyCounterRegression,
+	type PasskeyCredentialStore,
+	type PasskeySummary,
+	renamePasskey,
+	revokePasskey,
+	type StoredPasskeyCredential,
+	verifyPasskeyAssertion,
+} from "../src/endpoints/passkey";
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+const origin = "https://auth.example.com";
+const rpID = "auth.example.com";
+const now = Date.parse("2026-01-01T00:00:00.000Z");
+const encoder = new TextEncoder();
+
+const b64url = (bytes: Uint8Array) =>
+	bytes.toBase64({ alphabet: "base64url", omitPadding: true });
+
+/** DER encoding of a raw `r || s` ECDSA signature, as sent by authenticators. */
+function toDER(raw: Uint8Array) {
+	const integer = (bytes: Uint8Array) => {
+		let start = 0;
+		while (start < bytes.length - 1 && bytes[start] === 0) start++;
+		const trimmed = bytes.slice(start);
+		const value = trimmed[0] & 0x80 ? [0, ...trimmed] : [...trimmed];
+		return [0x02, value.length, ...value];
+	};
+	const body = [...integer(raw.slice(0, 32)), ...integer(raw.slice(32))];
+	return new Uint8Array([0x30, body.length, ...body]);
+}
+
+/** Authenticator holding an ES256 passkey, signing assertions with an increasing counter. */
+async function createAuthenticator(credentialID = "cred-1") {
+	const keys = await crypto.subtle.generateKey(
+		{ name: "ECDSA", namedCurve: "P-256" },
+		false,
+		["sign", "verify"],
+	);
+	const raw = new Uint8Array(
+		await crypto.subtle.exportKey("raw", keys.publicKey),
+	);
+	// COSE EC2 key: {1: 2, 3: -7, -1: 1, -2: x, -3: y}
+	const cose = new Uint8Array([
+		0xa5,
+		0x01,
+		0x02,
+		0x03,
+		0x26,
+		0x20,
+		0x01,
+		0x21,
+		0x58,
+		0x20,
+		...raw.slice(1, 33),
+		0x22,
+		0x58,
+		0x20,
+		...raw.slice(33),
+	]);
+	const credential: StoredPasskeyCredential = {
+		credential_id: credentialID,
+		public_key: cose.toBase64(),
+		counter: 0,
+		transports: ["internal"],
+	};
+
+	async function sign(
+		challenge: string,
+		counter: number,
+	): Promise<AuthenticationResponseJSON> {
+		const rpIDHash = new Uint8Array(
+			await crypto.subtle.digest("SHA-256", encoder.encode(rpID)),
+		);
+		const authenticatorData = new Uint8Array(37);
+		authenticatorData.set(rpIDHash);
+		authenticatorData[32] = 0x05; // user present and verified
+		new DataView(authenticatorData.buffer).setUint32(33, counter);
+		const clientDataJSON = encoder.encode(
+			JSON.stringify({ type: "webauthn.get", challenge, origin }),
+		);
+		const clientDataHash = new Uint8Array(
+			await crypto.subtle.digest("SHA-256", clientDataJSON),
+		);
+		const signature = new Uint8Array(
+			await crypto.subtle.sign(
+				{ name: "ECDSA", hash: "SHA-256" },
+				keys.privateKey,
+				new Uint8Array([...authenticatorData, ...clientDataHash]),
+			),
+		);
+		return {
+			id: credentialID,
+			rawId: credentialID,
+			type: "public-key",
+			response: {
+				authenticatorData: b64url(authenticatorData),
+				clientDataJSON: b64url(clientDataJSON),
+				signature: b64url(toDER(signature)),
+			},
+			clientExtensionResults: {},
+		};
+	}
+
+	return { credential, sign };
+}
+
+function memoryStore(
+	passkeys: (PasskeySummary & { user_id: string })[],
+): PasskeyCredentialStore {
+	const find = (credentialID: string) =>
+		passkeys.find((passkey) => passkey.id === credentialID);
+	return {
+		async list(userID) {
+			return passkeys
+				.filter((passkey) => passkey.user_id === userID)
+				.map(({ user_id, ...passkey }) => passkey);
+		},
+		async owns(userID, credentialID) {
+			return find(credentialID)?.user_id === userID;
+		},
+		async rename(credentialID, name) {
+			const passkey = find(credentialID);
+			if (passkey) passkey.name = name;
+		},
+		async remove(credentialID) {
+			const index = passkeys.findIndex((passkey) => passkey.id === credentialID);
+			if (index >= 0) passkeys.splice(index, 1);
+		},
+		async touch(credentialID, lastUsedAt) {
+			const passkey = find(credentialID);
+			if (passkey) passkey.last_used_at = lastUsedAt;
+		},
+	};
+}
+
+function passkeyOf(userID: string, id: string) {
+	return {
+		id,
+		user_id: userID,
+		name: null,
+		device_type: "multiDevice",
+		backed_up: true,
+		transports: ["internal"],
+		created_at: "2026-01-01T00:00:00.000Z",
+		last_used_at: null,
+	};
+}
+
+function challengeFor(value: string, expiresInMs = 60_000) {
+	return {
+		challenge: value,
+		expires_at: new Date(now + expiresInMs).toISOString(),
+	};
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────────────
+
+describe("isPasskeyChallengeActive", () => {
+	it("accepts a challenge until it expires", () => {
+		expect(isPasskeyChallengeActive(challengeFor("c", 1), now)).toBe(true);
+		expect(isPasskeyChallengeActive(challengeFor("c", -1), now)).toBe(false);
+	});
+
+	it("rejects a missing or already answered challenge", () => {
+		expect(isPasskeyChallengeActive(undefined, now)).toBe(false);
+		expect(isPasskeyChallengeActive(null, now)).toBe(false);
+	});
+});
+
+describe("isPasskeyCounterRegression", () => {
+	it("accepts authenticators without a counter", () => {
+		expect(isPasskeyCounterRegression(0, 0)).toBe(false);
+	});
+
+	it("rejects a counter that did not increase", () => {
+		expect(isPasskeyCounterRegression(5, 6)).toBe(false);
+		expect(isPasskeyCounterRegression(5, 5)).toBe(true);
+		expect(isPasskeyCounterRegression(5, 2)).toBe(true);
+		expect(isPasskeyCounterRegression(5, 0)).toBe(true);
+	});
+});
+
+describe("verifyPasskeyAssertion", () => {
+	it("verifies an assertion and returns the new counter", async () => {
+		const { credential, sign } = await createAuthenticator();
+		const response = await sign("challenge-1", 1);
+		expect(getAssertionCounter(response)).toBe(1);
+
+		const result = await verifyPasskeyAssertion({
+			challenge: challengeFor("challenge-1"),
+			credential,
+			response,
+			origin,
+			rpID,
+			now,
+		});
+		expect("authenticationInfo" in result && result.authenticationInfo).toEqual(
+			expect.objectContaining({ newCounter: 1, credentialID: "cred-1" }),
+		);
+	});
+
+	it("rejects an expired challenge", async () => {
+		const { credential, sign } = await createAuthenticator();
+		const result = await verifyPasskeyAssertion({
+			challenge: challengeFor("challenge-1", -1),
+			credential,
+			response: await sign("challenge-1", 1),
+			origin,
+			rpID,
+			now,
+		});
+		expect(result).toMatchObject({ error: "invalid_challenge" });
+	});
+
+	it("rejects a replayed assertion", async () => {
+		const { credential, sign } = await createAuthenticator();
+		const response = await sign("challenge-1", 1);
+
+		// the challenge is deleted once answered
+		expect(
+			await verifyPasskeyAssertion({
+				challenge: undefined,
+				credential,
+				response,
+				origin,
+				rpID,
+				now,
+			}),
+		).toMatchObject({ error: "invalid_challenge" });
+
+		// and the assertion does not answer a new challenge
+		expect(
+			await verifyPasskeyAssertion({
+				challenge: challengeFor("challenge-2"),
+				credential,
+				response,
+				origin,
+				rpID,
+				now,
+			}),
+		).toMatchObject({ error: "verification_failed" });
+	});
+
+	it("rejects an unknown credential", async () => {
+		const { sign } = await createAuthenticator();
+		const result = await verifyPasskeyAssertion({
+			challenge: challengeFor("challenge-1"),
+			credential: undefined,
+			response: await sign("challenge-1", 1),
+			origin,
+			rpID,
+			now,
+		});
+		expect(result).toMatchObject({ error: "unknown_credential" });
+	});
+
+	it("rejects an assertion signed by another authenticator", async () => {
+		const { credential } = await createAuthenticator();
+		const other = await createAuthenticator();
+		const result = await verifyPasskeyAssertion({
+			challenge: challengeFor("challenge-1"),
+			credential,
+			response: await other.sign("challenge-1", 1),
+			origin,
+			rpID,
+			now,
+		});
+		expect(result).toMatchObject({ error: "verification_failed" });
+	});
+
+	it("rejects a counter regression", async () => {
+		const { credential, sign } = await createAuthenticator();
+		const result = await verifyPasskeyAssertion({
+			challenge: challengeFor("challenge-1"),
+			credential: { ...credential, counter: 10 },
+			response: await sign("challenge-1", 3),
+			origin,
+			rpID,
+			now,
+		});
+		expect(result).toMatchObject({ error: "counter_mismatch" });
+	});
+});
+
+describe("passkey management", () => {
+	it("lists only the passkeys of the user", async () => {
+		const store = memoryStore([
+			passkeyOf("alice", "a1"),
+			passkeyOf("alice", "a2"),
+			passkeyOf("bob", "b1"),
+		]);
+		expect((await store.list("alice")).map((passkey) => passkey.id)).toEqual([
+			"a1",
+			"a2",
+		]);
+	});
+
+	it("renames a passkey of the user", async () => {
+		const store = memoryStore([passkeyOf("alice", "a1")]);
+		expect(
+			await renamePasskey(store, {
+				userID: "alice",
+				credentialID: "a1",
+				name: "  Laptop  ",
+			}),
+		).toEqual({});
+		expect((await store.list("alice"))[0].name).toBe("Laptop");
+	});
+
+	it("refuses an empty or too long name", async () => {
+		const store = memoryStore([passkeyOf("alice", "a1")]);
+		for (const name of [undefined, "   ", "x".repeat(65), 42])
+			expect(
+				await renamePasskey(store, { userID: "alice", credentialID: "a1", name }),
+			).toMatchObject({ status: 400 });
+		expect((await store.list("alice"))[0].name).toBeNull();
+	});
+
+	it("revokes a passkey of the user", async () => {
+		const store = memoryStore([passkeyOf("alice", "a1"), passkeyOf("alice", "a2")]);
+		expect(
+			await revokePasskey(store, { userID: "alice", credentialID: "a1" }),
+		).toEqual({});
+		expect((await store.list("alice")).map((passkey) => passkey.id)).toEqual([
+			"a2",
+		]);
+	});
+
+	it("does not touch the passkeys of another user", async () => {
+		const store = memoryStore([passkeyOf("alice", "a1"), passkeyOf("bob", "b1")]);
+		expect(
+			await renamePasskey(store, {
+				userID: "alice",
+				credentialID: "b1",
+				name: "Mine now",
+			}),
+		).toEqual({ error: "Passkey not found", status: 404 });
+		expect(
+			await revokePasskey(store, { userID: "alice", credentialID: "b1" }),
+		).toEqual({ error: "Passkey not found", status: 404 });
+		expect(await revokePasskey(store, { userID: "alice", credentialID: "zz" })).toEqual({
+			error: "Passkey not found",
+			status: 404,
+		});
+		expect(await store.list("bob")).toEqual([
+			expect.objectContaining({ id: "b1", name: null }),
+		]);
+	});
+});
+
+describe("getAssertionCredentialID", () => {
+	it("reads the id of the posted assertion", () => {
+		expect(getAssertionCredentialID({ id: "cred-1", rawId: "cred-1" })).toBe(
+			"cred-1",
+		);
+		expect(
+			getAssertionCredentialID({ response: { id: "cred-1", rawId: "cred-1" } }),
+		).toBe("cred-1");
+		expect(getAssertionCredentialID({ response: {} })).toBeNull();
+		expect(getAssertionCredentialID(null)).toBeNull();
+	});
+});
@@ -0,0 +1,233 @@
+import { afterEach, describe, expect, it, spyOn } from "bun:test";
+import { pbkdf2Sync } from "node:crypto";
+import { safeParse } from "valibot";
+import {
+	type ImportedPasswordHash,
+	isStoredImportedPassword,
+	PasswordImportUserSchema,
+	verifyImportedPassword,
+	WEBCRYPTO_PBKDF2_MAX_ITERATIONS,
+} from "../src/endpoints/password-import";
+
+const PASSWORD = "correct horse battery staple";
+
+/** Hashes of `PASSWORD` made by other implementations: bcryptjs, Bun.password and node:crypto. */
+const HASHES: Record<string, ImportedPasswordHash> = {
+	bcrypt: {
+		algorithm: "bcrypt",
+		hash: "$2b$04$RoywvN21BcsTmx0/0tL1hulLLJjh55RV.CWvzMdoaOriUDn5RpSwK",
+	},
+	scrypt: {
+		algorithm: "scrypt",
+		hash: "uXgc3wJzN9n7Dd/ojxZBVCLFZQnD8CB2TYq0kY0xMKo=",
+		salt: "c2FsdHNhbHRzYWx0",
+		encoding: "base64",
+		N: 1024,
+		r: 8,
+		p: 1,
+	},
+	firebase_scrypt: {
+		algorithm: "firebase_scrypt",
+		hash: "vQibveBq3PMBQy8hUpLTiiYvBoJNsSbxjCcWRxc908dxKWx/Mppc2YL+hdNJrn9JdO0/eLJRBmQ6Ttg7sOtquQ==",
+		salt: "42xEC+ixf3L2lw==",
+		saltSeparator: "Bw==",
+		signerKey:
+			"jxspr8Ki0RYycVU8zykbdLGjFQ3McFUH0uiiTvC8pVMXAn210wjLNmdZJzxUECKbm0QsEmYUSDzZvpjeJ9WmXA==",
+		rounds: 8,
+		memCost: 10,
+	},
+	argon2id: {
+		algorithm: "argon2id",
+		hash: "$argon2id$v=19$m=64,t=2,p=1$4T6oRRLRibjNbNJMhNukdu5hkfC5P+xfmdiSp+OS4cM$qLUHlUjMZOaRSJeG9onnsvDyhmTWktG7oeeQPGSSxhs",
+	},
+	pbkdf2: {
+		algorithm: "pbkdf2",
+		hash: "2900e57bc4976516bbb0151941f918408e8d5e7671ba9c61c6d9be6979c29728",
+		salt: "73616c7473616c7473616c74",
+		encoding: "hex",
+		iterations: 1000,
+		digest: "sha256",
+	},
+};
+
+describe("verifyImportedPassword", () => {
+	for (const [algorithm, hash] of Object.entries(HASHES)) {
+		it(`verifies ${algorithm} hashes`, async () => {
+			expect(await verifyImportedPassword(PASSWORD, hash)).toBe(true);
+			expect(await verifyImportedPassword(`${PASSWORD}!`, hash)).toBe(false);
+		});
+	}
+});
+
+describe("PasswordImportUserSchema", () => {
+	it("normalizes the email and applies the hash defaults", () => {
+		const result = safeParse(PasswordImportUserSchema, {
+			email: " Jane@Example.com ",
+			password_hash: {
+				algorithm: "pbkdf2",
+				hash: "aGFzaA==",
+				salt: "c2FsdA==",
+				iterations: 10000,
+			},
+		});
+		expect(result.success).toBe(true);
+		expect(result.output).toMatchObject({
+			email: "jane@example.com",
+			password_hash: { encoding: "base64", digest: "sha256" },
+		});
+	});
+
+	it("rejects unknown algorithms and malformed hashes", () => {
+		for (const password_hash of [
+			{ algorithm: "md5", hash: "x" },
+			{ algorithm: "bcrypt", hash: "not-a-bcrypt-hash" },
+			{ algorithm: "scrypt", hash: "aGFzaA==", salt: "c2FsdA==", N: 0 },
+		])
+			expect(
+				safeParse(PasswordImportUserSchema, {
+					email: "jane@example.com",
+					password_hash,
+				}).success,
+			).toBe(false);
+	});
+});
+
+describe("password hash cost limits", () => {
+	const parse = (password_hash: Record<string, unknown>) =>
+		safeParse(PasswordImportUserSchema, {
+			email: "jane@example.com",
+			password_hash,
+		}).success;
+
+	it("accepts the usual costs", () => {
+		for (const hash of Object.values(HASHES)) expect(parse(hash)).toBe(true);
+		expect(parse({ ...HASHES.scrypt, N: 2 ** 16, r: 8, p: 1 })).toBe(true);
+		expect(parse({ ...HASHES.firebase_scrypt, memCost: 14, rounds: 8 })).toBe(
+			true,
+		);
+		expect(
+			parse({
+				algorithm: "argon2id",
+				hash: "$argon2id$v=19$m=65536,t=3,p=4$c2FsdA$aGFzaA",
+			}),
+		).toBe(true);
+	});
+
+	it("rejects costs above the limits", () => {
+		for (const hash of [
+			{ ...HASHES.bcrypt, hash: HASHES.bcrypt.hash.replace("$04$", "$31$") },
+			{ ...HASHES.scrypt, N: 2 ** 20 },
+			{ ...HASHES.scrypt, N: 2 ** 16, r: 16 },
+			{ ...HASHES.scrypt, p: 1024 },
+			{ ...HASHES.firebase_scrypt, memCost: 31 },
+			{ ...HASHES.firebase_scrypt, memCost: 20 },
+			{ ...HASHES.pbkdf2, iterations: 1_000_001 },
+			{
+				algorithm: "argon2id",
+				hash: "$argon2id$v=19$m=4194304,t=3,p=4$c2FsdA$aGFzaA",
+			},
+			{
+				algorithm: "argon2id",
+				hash: "$argon2id$v=19$m=65536,t=1000,p=4$c2FsdA$aGFzaA",
+			},
+			{
+				algorithm: "argon2id",
+				hash: "$argon2id$v=19$m=65536,t=3,p=255$c2FsdA$aGFzaA",
+			},
+		])
+			expect(parse(hash)).toBe(false);
+	});
+
+	it("rejects a scrypt N that is not a power of two", () => {
+		expect(parse({ ...HASHES.scrypt, N: 1000 })).toBe(false);
+	});
+
+	it("rejects malformed argon2id parameters", () => {
+		expect(
+			parse({
+				algorithm: "argon2id",
+				hash: "$argon2id$v=19$m=64$c2FsdA$aGFzaA",
+			}),
+		).toBe(false);
+	});
+
+	it("does not verify a hash that can not be derived", async () => {
+		expect(
+			await verifyImportedPassword(PASSWORD, {
+				...HASHES.pbkdf2,
+				salt: "%%% not base64 %%%",
+			} as ImportedPasswordHash),
+		).toBe(false);
+	});
+});
+
+describe("PBKDF2 iterations above the WebCrypto limit", () => {
+	const deriveBits = crypto.subtle.deriveBits.bind(crypto.subtle);
+	afterEach(() => {
+		(
+			crypto.subtle.deriveBits as unknown as { mockRestore(): void }
+		).mockRestore();
+	});
+
+	/** PBKDF2 of `PASSWORD` by node:crypto, WebCrypto refusing the iterations of Workers */
+	function pbkdf2Hash(iterations: number): ImportedPasswordHash {
+		spyOn(crypto.subtle, "deriveBits").mockImplementation(
+			(algorithm, key, length) => {
+				if (
+					((algorithm as { iterations?: number }).iterations ?? 0) >
+					WEBCRYPTO_PBKDF2_MAX_ITERATIONS
+				)
+					return Promise.reject(new Error("iteration counts above 100000"));
+				return deriveBits(algorithm, key, length);
+			},
+		);
+		return {
+			algorithm: "pbkdf2",
+			hash: pbkdf2Sync(
+				PASSWORD,
+				"saltsaltsalt",
+				iterations,
+				32,
+				"sha256",
+			).toString("hex"),
+			salt: Buffer.from("saltsaltsalt").toString("hex"),
+			encoding: "hex",
+			iterations,
+			digest: "sha256",
+		};
+	}
+
+	it("verifies hashes up to the limit with WebCrypto", async () => {
+		const hash = pbkdf2Hash(WEBCRYPTO_PBKDF2_MAX_ITERATIONS);
+		expect(await verifyImportedPassword(PASSWORD, hash)).toBe(true);
+		expect(crypto.subtle.deriveBits).toHaveBeenCalled();
+	});
+
+	it("verifies hashes above the limit", async () => {
+		const hash = pbkdf2Hash(WEBCRYPTO_PBKDF2_MAX_ITERATIONS + 1);
+		expect(await verifyImportedPassword(PASSWORD, hash)).toBe(true);
+		expect(await verifyImportedPassword(`${PASSWORD}!`, hash)).toBe(false);
+		expect(crypto.subtle.deriveBits).not.toHaveBeenCalled();
+	});
+});
+
+describe("isStoredImportedPassword", () => {
+	it("tells the imported hashes from the native ones", () => {
+		expect(
+			isStoredImportedPassword({
+				imported: HASHES.bcrypt,
+				email: "jane@example.com",
+			}),
+		).toBe(true);
+		expect(
+			isStoredImportedPassword({
+				hash: "aGFzaA==",
+				salt: "c2FsdA==",
+				N: 16384,
+				r: 8,
+				p: 1,
+			}),
+		).toBe(false);
+		expect(isStoredImportedPassword("$2b$10$hash")).toBe(false);
+	});
+});
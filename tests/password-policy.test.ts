@@ -0,0 +1,85 @@
+import { describe, expect, it } from "bun:test";
+import {
+	checkPasswordPolicy,
+	estimatePasswordStrength,
+	getPasswordPolicy,
+	isPasswordBreached,
+} from "../src/endpoints/password-policy";
+
+/** Range of `5BAA6`, the SHA-1 prefix of "password", with padding entries. */
+const fixtureRange = () =>
+	Bun.file(`${import.meta.dir}/fixtures/pwned-range-5BAA6.txt`).text();
+
+describe("checkPasswordPolicy", () => {
+	it("checks the length and character rules", () => {
+		const policy = getPasswordPolicy({
+			minLength: 8,
+			maxLength: 16,
+			requireUppercase: true,
+			requireNumber: true,
+			requireSpecialChar: true,
+		});
+		expect(checkPasswordPolicy("Ab1!", policy)).toBe("too_short");
+		expect(checkPasswordPolicy("Abcdefgh1!abcdefg", policy)).toBe("too_long");
+		expect(checkPasswordPolicy("abcdefg1!", policy)).toBe("missing_uppercase");
+		expect(checkPasswordPolicy("Abcdefgh!", policy)).toBe("missing_number");
+		expect(checkPasswordPolicy("Abcdefgh1", policy)).toBe(
+			"missing_special_char",
+		);
+		expect(checkPasswordPolicy("Abcdefgh1_", policy)).toBeNull();
+	});
+
+	it("refuses passwords containing the email", () => {
+		const policy = getPasswordPolicy({ disallowIdentifier: true });
+		expect(
+			checkPasswordPolicy("JaneDoe-2026", policy, "janedoe@example.com"),
+		).toBe("contains_identifier");
+		expect(
+			checkPasswordPolicy("tide-orbit-lantern", policy, "janedoe@example.com"),
+		).toBeNull();
+	});
+
+	it("refuses passwords under the strength score", () => {
+		const policy = getPasswordPolicy({ minStrength: 3 });
+		expect(checkPasswordPolicy("password123", policy)).toBe("too_weak");
+		expect(checkPasswordPolicy("tide-orbit-lantern", policy)).toBeNull();
+	});
+
+	it("ignores invalid settings", () => {
+		expect(getPasswordPolicy({ minStrength: 9, maxLength: "x" })).toMatchObject(
+			{ minStrength: 0, maxLength: undefined },
+		);
+	});
+});
+
+describe("estimatePasswordStrength", () => {
+	it("scores patterns as guessable", () => {
+		expect(estimatePasswordStrength("aaaaaaaaaa").score).toBe(0);
+		expect(estimatePasswordStrength("abcdefgh").score).toBe(0);
+		expect(estimatePasswordStrength("qwerty123").score).toBeLessThan(2);
+		expect(
+			estimatePasswordStrength("janedoe2026", ["janedoe"]).score,
+		).toBeLessThan(estimatePasswordStrength("janedoe2026").score);
+	});
+
+	it("scores long random passwords as unguessable", () => {
+		expect(estimatePasswordStrength("x7#Kp2!vRq9m").score).toBe(4);
+	});
+});
+
+describe("isPasswordBreached", () => {
+	it("finds the password in its range", async () => {
+		const prefixes: string[] = [];
+		const breached = await isPasswordBreached("password", async (prefix) => {
+			prefixes.push(prefix);
+			return fixtureRange();
+		});
+		expect(breached).toBe(true);
+		// only the prefix of the hash leaves the worker
+		expect(prefixes).toEqual(["5BAA6"]);
+	});
+
+	it("ignores other suffixes and padding entries", async () => {
+		expect(await isPasswordBreached("not-in-range", fixtureRange)).toBe(false);
+	});
+});
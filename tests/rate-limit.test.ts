@@ -0,0 +1,127 @@
+import { describe, expect, it } from "bun:test";
+import {
+	consumeRateLimit,
+	DEFAULT_RATE_LIMITS,
+	getRateLimitHeaders,
+	getRateLimitSettings,
+	hitRateLimits,
+	MemoryRateLimitStore,
+	type RateLimitRule,
+} from "../src/endpoints/rate-limit";
+
+const rule: RateLimitRule = { limit: 2, windowSeconds: 60 };
+const now = Date.parse("2026-01-01T00:00:00.000Z");
+
+describe("getRateLimitSettings", () => {
+	it("uses the defaults", () => {
+		expect(getRateLimitSettings({ projectData: {} })).toEqual({
+			enabled: true,
+			...DEFAULT_RATE_LIMITS,
+		});
+	});
+
+	it("reads projectData.rateLimit and ignores invalid rules", () => {
+		const settings = getRateLimitSettings({
+			projectData: {
+				rateLimit: {
+					enabled: false,
+					code: { limit: 3, windowSeconds: 120 },
+					password: { limit: 0, windowSeconds: 60 },
+				},
+			},
+		});
+		expect(settings.enabled).toBe(false);
+		expect(settings.code).toEqual({ limit: 3, windowSeconds: 120 });
+		expect(settings.password).toEqual(DEFAULT_RATE_LIMITS.password);
+	});
+});
+
+describe("consumeRateLimit", () => {
+	it("counts the requests of a window", () => {
+		let step = consumeRateLimit(undefined, rule, now);
+		expect(step.result).toEqual({
+			allowed: true,
+			limit: 2,
+			remaining: 1,
+			reset: 60,
+		});
+
+		step = consumeRateLimit(step.state, rule, now + 10_000);
+		expect(step.result.allowed).toBe(true);
+		expect(step.result.remaining).toBe(0);
+
+		step = consumeRateLimit(step.state, rule, now + 20_000);
+		expect(step.result).toEqual({
+			allowed: false,
+			limit: 2,
+			remaining: 0,
+			reset: 40,
+			firstBlocked: true,
+		});
+		expect(step.state.count).toBe(2);
+
+		step = consumeRateLimit(step.state, rule, now + 30_000);
+		expect(step.result.allowed).toBe(false);
+		expect(step.result.firstBlocked).toBe(false);
+		expect(step.state.count).toBe(2);
+	});
+
+	it("starts a new window once the previous one is over", () => {
+		const state = { count: 2, blocked: 3, resetAt: now };
+		const step = consumeRateLimit(state, rule, now + 1);
+		expect(step.result.allowed).toBe(true);
+		expect(step.state).toEqual({ count: 1, resetAt: now + 1 + 60_000 });
+	});
+});
+
+describe("hitRateLimits", () => {
+	it("returns the most restrictive key", async () => {
+		const store = new MemoryRateLimitStore(() => now);
+		await store.hit("id", rule);
+		await store.hit("id", rule);
+
+		const result = await hitRateLimits(store, ["ip", "id"], rule);
+		expect(result.allowed).toBe(false);
+		expect(result.firstBlocked).toBe(true);
+
+		const other = await hitRateLimits(store, ["ip", "other"], rule);
+		expect(other).toEqual({ allowed: true, limit: 2, remaining: 0, reset: 60 });
+	});
+
+	it("reports a key refused for the first time behind a longer block", async () => {
+		let time = now;
+		const store = new MemoryRateLimitStore(() => time);
+		await store.hit("id", rule);
+
+		time += 10_000;
+		await store.hit("ip", rule);
+		await store.hit("ip", rule);
+		expect((await store.hit("ip", rule)).firstBlocked).toBe(true);
+
+		time += 10_000;
+		await store.hit("id", rule);
+		// "ip" (blocked again) waits longer than "id" (blocked for the first time)
+		const result = await hitRateLimits(store, ["ip", "id"], rule);
+		expect(result.reset).toBe(50);
+		expect(result.firstBlocked).toBe(true);
+		expect((await hitRateLimits(store, ["ip", "id"], rule)).firstBlocked).toBe(
+			false,
+		);
+	});
+});
+
+describe("getRateLimitHeaders", () => {
+	it("adds Retry-After when blocked", () => {
+		const result = { allowed: true, limit: 5, remaining: 4, reset: 30 };
+		expect(getRateLimitHeaders(result)).toEqual({
+			"RateLimit-Limit": "5",
+			"RateLimit-Remaining": "4",
+			"RateLimit-Reset": "30",
+		});
+		expect(
+			getRateLimitHeaders({ ...result, allowed: false, remaining: 0 })[
+				"Retry-After"
+			],
+		).toBe("30");
+	});
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "bun:test";
+import {
+	getRoleSettings,
+	resolveUserAuthorization,
+} from "../src/endpoints/roles";
+
+describe("getRoleSettings", () => {
+	it("defaults to the user role without permissions", () => {
+		expect(getRoleSettings({ projectData: {} })).toEqual({
+			defaultRole: "user",
+			permissions: {},
+		});
+	});
+
+	it("falls back on invalid values", () => {
+		expect(
+			getRoleSettings({
+				projectData: { roles: { defaultRole: "", permissions: ["read"] } },
+			}),
+		).toEqual({ defaultRole: "user", permissions: {} });
+	});
+
+	it("reads projectData.roles", () => {
+		const settings = getRoleSettings({
+			projectData: {
+				roles: {
+					defaultRole: "member",
+					permissions: { member: ["posts:read"] },
+				},
+			},
+		});
+		expect(settings.defaultRole).toBe("member");
+		expect(settings.permissions.member).toEqual(["posts:read"]);
+	});
+});
+
+describe("resolveUserAuthorization", () => {
+	const settings = getRoleSettings({
+		projectData: {
+			roles: {
+				permissions: {
+					user: ["posts:read"],
+					editor: ["posts:read", "posts:write"],
+				},
+			},
+		},
+	});
+
+	it("uses the stored role", () => {
+		expect(resolveUserAuthorization(settings, { role: "admin" })).toEqual({
+			role: "admin",
+			roles: ["admin"],
+			permissions: [],
+		});
+	});
+
+	it("falls back to the default role", () => {
+		expect(resolveUserAuthorization(settings, { role: null })).toEqual({
+			role: "user",
+			roles: ["user"],
+			permissions: ["posts:read"],
+		});
+	});
+
+	it("merges the additional roles and direct permissions", () => {
+		expect(
+			resolveUserAuthorization(settings, {
+				role: "user",
+				roles: ["editor", "user"],
+				permissions: ["billing:read"],
+			}),
+		).toEqual({
+			role: "user",
+			roles: ["user", "editor"],
+			permissions: ["posts:read", "posts:write", "billing:read"],
+		});
+	});
+});
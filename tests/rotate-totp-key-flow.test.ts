@@ -0,0 +1,198 @@
+import { describe, expect, it } from "bun:test";
+import {
+	type ExecResult,
+	type RotateTotpKeyFlowDeps,
+	rotateTotpKeyFlow,
+} from "../bin/rotateTotpKeyFlow";
+import {
+	decryptSecret,
+	encryptSecret,
+	parseEncryptionKeyring,
+	rewrapSecret,
+} from "../src/endpoints/security";
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+const oldKey = `old:${new Uint8Array(32).fill(1).toBase64()}`;
+const newKey = `new:${new Uint8Array(32).fill(2).toBase64()}`;
+const keys = `${oldKey},${newKey}`;
+const secret = "JBSWY3DPEHPK3PXP";
+
+function makeDeps(rows: unknown[], selectError = "") {
+	const calls: string[] = [];
+	const files: Record<string, string> = {};
+	const removed: string[] = [];
+	const logs: string[] = [];
+	const errors: string[] = [];
+	const exitCodes: number[] = [];
+
+	const deps: RotateTotpKeyFlowDeps = {
+		exec: async (cmd): Promise<ExecResult> => {
+			calls.push(cmd);
+			if (cmd.includes("--json"))
+				return {
+					stdout: JSON.stringify([{ results: rows, success: true }]),
+					stderr: selectError,
+				};
+			return { stdout: "", stderr: "" };
+		},
+		writeFile: async (path, content) => {
+			files[path] = content;
+		},
+		removeFile: async (path) => {
+			removed.push(path);
+		},
+		exit: (code) => {
+			exitCodes.push(code);
+		},
+		log: (...args) => logs.push(args.join(" ")),
+		error: (...args) => errors.push(args.join(" ")),
+	};
+
+	return { deps, calls, files, removed, logs, errors, exitCodes };
+}
+
+// ─── security ────────────────────────────────────────────────────────────────
+
+describe("parseEncryptionKeyring", () => {
+	it("returns null when no key is configured", () => {
+		expect(parseEncryptionKeyring(undefined)).toBeNull();
+		expect(parseEncryptionKeyring("  ")).toBeNull();
+	});
+
+	it("uses the first key by default", () => {
+		expect(parseEncryptionKeyring(keys)?.currentKeyID).toBe("old");
+		expect(parseEncryptionKeyring(keys, "new")?.currentKeyID).toBe("new");
+	});
+
+	it("rejects malformed keys and unknown key ids", () => {
+		expect(() => parseEncryptionKeyring("abc")).toThrow();
+		expect(() =>
+			parseEncryptionKeyring(`a:${new Uint8Array(16).toBase64()}`),
+		).toThrow();
+		expect(() => parseEncryptionKeyring(keys, "missing")).toThrow();
+	});
+});
+
+describe("encryptSecret / decryptSecret", () => {
+	it("round-trips with the key that encrypted the secret", async () => {
+		const keyring = parseEncryptionKeyring(keys, "old");
+		if (!keyring) throw new Error("keyring");
+		const encrypted = await encryptSecret(secret, keyring);
+
+		expect(encrypted.keyID).toBe("old");
+		expect(encrypted.secret).not.toContain(secret);
+		expect(await decryptSecret(encrypted.secret, "old", keyring)).toBe(secret);
+		expect(decryptSecret(encrypted.secret, "new", keyring)).rejects.toThrow();
+	});
+
+	it("re-wraps a secret under the current key", async () => {
+		const oldKeyring = parseEncryptionKeyring(keys, "old");
+		const newKeyring = parseEncryptionKeyring(keys, "new");
+		if (!oldKeyring || !newKeyring) throw new Error("keyring");
+		const encrypted = await encryptSecret(secret, oldKeyring);
+		const rewrapped = await rewrapSecret(encrypted.secret, "old", newKeyring);
+
+		expect(rewrapped.keyID).toBe("new");
+		expect(await decryptSecret(rewrapped.secret, "new", newKeyring)).toBe(
+			secret,
+		);
+	});
+});
+
+// ─── rotateTotpKeyFlow ───────────────────────────────────────────────────────
+
+describe("rotateTotpKeyFlow", () => {
+	it("exits when no key is provided", async () => {
+		const { deps, calls, exitCodes } = makeDeps([]);
+		await rotateTotpKeyFlow(
+			{ keys: undefined, keyID: undefined, local: false },
+			deps,
+		);
+		expect(exitCodes).toEqual([1]);
+		expect(calls).toEqual([]);
+	});
+
+	it("does nothing when every secret uses the current key", async () => {
+		const { deps, calls, logs } = makeDeps([
+			{ user_id: "u1", clientID: "c1", secret: "x", key_id: "new" },
+		]);
+		await rotateTotpKeyFlow({ keys, keyID: "new", local: true }, deps);
+
+		expect(calls).toHaveLength(1);
+		expect(calls[0]).toContain("--local");
+		expect(logs.at(-1)).toContain("already encrypted");
+	});
+
+	it("encrypts plaintext secrets and re-wraps old ones", async () => {
+		const oldKeyring = parseEncryptionKeyring(keys, "old");
+		const newKeyring = parseEncryptionKeyring(keys, "new");
+		if (!oldKeyring || !newKeyring) throw new Error("keyring");
+		const encrypted = await encryptSecret(secret, oldKeyring);
+
+		const { deps, calls, files, removed, exitCodes } = makeDeps([
+			{ user_id: "u1", clientID: "c1", secret, key_id: null },
+			{
+				user_id: "u2",
+				clientID: "c1",
+				secret: encrypted.secret,
+				key_id: "old",
+			},
+		]);
+		await rotateTotpKeyFlow({ keys, keyID: "new", local: false }, deps);
+
+		expect(exitCodes).toEqual([]);
+		expect(calls).toEqual([
+			"wrangler d1 execute AUTH_DB --remote --json --file ./.totp-rotation-select.sql",
+			"wrangler d1 execute AUTH_DB --remote --file ./.totp-rotation-update.sql",
+		]);
+		expect(removed).toEqual([
+			"./.totp-rotation-select.sql",
+			"./.totp-rotation-update.sql",
+		]);
+
+		const sql = files["./.totp-rotation-update.sql"];
+		expect(sql).not.toContain(`SET secret = '${secret}'`);
+		const secrets = [...sql.matchAll(/SET secret = '([^']+)'/g)].map(
+			(match) => match[1],
+		);
+		expect(secrets).toHaveLength(2);
+		for (const value of secrets)
+			expect(await decryptSecret(value, "new", newKeyring)).toBe(secret);
+		expect(sql.match(/SELECT 'u\d', 'c1', 'new' WHERE EXISTS/g)).toHaveLength(
+			2,
+		);
+	});
+
+	it("only rewraps secrets that are unchanged since the export", async () => {
+		const oldKeyring = parseEncryptionKeyring(keys, "old");
+		if (!oldKeyring) throw new Error("keyring");
+		const encrypted = await encryptSecret(secret, oldKeyring);
+
+		const { deps, files } = makeDeps([
+			{
+				user_id: "u1",
+				clientID: "c1",
+				secret: encrypted.secret,
+				key_id: "old",
+			},
+		]);
+		await rotateTotpKeyFlow({ keys, keyID: "new", local: false }, deps);
+
+		const [update, upsert] = files["./.totp-rotation-update.sql"].split("\n");
+		const rewrapped = update.match(/SET secret = '([^']+)'/)?.[1];
+		expect(update).toEndWith(`AND secret = '${encrypted.secret}';`);
+		expect(upsert).toContain(
+			`WHERE EXISTS (SELECT 1 FROM openauth_totp WHERE user_id = 'u1' AND clientID = 'c1' AND secret = '${rewrapped}')`,
+		);
+	});
+
+	it("exits when the secrets cannot be read", async () => {
+		const { deps, calls, errors, exitCodes } = makeDeps([], "D1 error");
+		await rotateTotpKeyFlow({ keys, keyID: "new", local: false }, deps);
+
+		expect(exitCodes).toEqual([1]);
+		expect(calls).toHaveLength(1);
+		expect(errors[0]).toContain("D1 error");
+	});
+});
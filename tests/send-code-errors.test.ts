@@ -0,0 +1,87 @@
+import { describe, expect, it } from "bun:test";
+import { CodeSendThrottledError } from "../src/endpoints/code-throttle";
+import { catchSendCodeErrors } from "../src/endpoints/send-code-errors";
+import { DeliveryFailoverError } from "../src/transports/delivery";
+
+type Context = { path: string };
+type Handler = (c: Context) => Promise<Response>;
+
+function fakeRoutes() {
+	const handlers = new Map<string, Handler>();
+	return {
+		handlers,
+		get(path: string, handler: Handler) {
+			handlers.set(`GET ${path}`, handler);
+		},
+		post(path: string, handler: Handler) {
+			handlers.set(`POST ${path}`, handler);
+		},
+	};
+}
+
+function register(error: unknown) {
+	const routes = fakeRoutes();
+	const rendered: { path: string; error: unknown }[] = [];
+	const wrapped = catchSendCodeErrors<Context, typeof routes>(
+		routes,
+		["/register"],
+		async (_c, path, err) => {
+			rendered.push({ path, error: err });
+			return new Response("register page", { status: 400 });
+		},
+	);
+	const throwing: Handler = async () => {
+		throw error;
+	};
+	wrapped.post("/register", throwing);
+	wrapped.post("/authorize", throwing);
+	wrapped.get("/register", async () => new Response("ok"));
+	return { routes, rendered };
+}
+
+describe("catchSendCodeErrors", () => {
+	it("renders a throttled code on the page it was asked from", async () => {
+		const error = new CodeSendThrottledError("cooldown", 42);
+		const { routes, rendered } = register(error);
+		const response = await routes.handlers.get("POST /register")?.({
+			path: "/register",
+		});
+		expect(response?.status).toBe(400);
+		expect(await response?.text()).toBe("register page");
+		expect(rendered).toEqual([{ path: "/register", error }]);
+	});
+
+	it("renders a code no provider delivered", async () => {
+		const error = new DeliveryFailoverError(
+			[{ provider: "resend", error: "unavailable" }],
+			new Error("unavailable"),
+		);
+		const { routes, rendered } = register(error);
+		const response = await routes.handlers.get("POST /register")?.({
+			path: "/register",
+		});
+		expect(response?.status).toBe(400);
+		expect(rendered).toEqual([{ path: "/register", error }]);
+	});
+
+	it("rethrows the other errors", async () => {
+		const { routes, rendered } = register(new Error("boom"));
+		await expect(
+			routes.handlers.get("POST /register")?.({ path: "/register" }),
+		).rejects.toThrow("boom");
+		expect(rendered).toEqual([]);
+	});
+
+	it("leaves the other routes as they are", async () => {
+		const { routes, rendered } = register(
+			new CodeSendThrottledError("daily_limit", 3600),
+		);
+		await expect(
+			routes.handlers.get("POST /authorize")?.({ path: "/authorize" }),
+		).rejects.toBeInstanceOf(CodeSendThrottledError);
+		expect(
+			await routes.handlers.get("GET /register")?.({ path: "/register" }),
+		).toBeInstanceOf(Response);
+		expect(rendered).toEqual([]);
+	});
+});
@@ -0,0 +1,118 @@
+import { describe, expect, it } from "bun:test";
+import type { StorageAdapter } from "@kagii/openauth/storage/storage";
+import {
+	parseRefreshToken,
+	REFRESH_TOKEN_PREFIX,
+	revokeRefreshToken,
+	revokeSessionRefreshTokens,
+	revokeUserRefreshTokens,
+} from "../src/endpoints/sessions";
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+function memoryStorage() {
+	const entries = new Map<string, Record<string, unknown>>();
+	const storage: StorageAdapter = {
+		async get(key) {
+			return entries.get(key.join("\x1f"));
+		},
+		async set(key, value) {
+			entries.set(key.join("\x1f"), value);
+		},
+		async remove(key) {
+			entries.delete(key.join("\x1f"));
+		},
+		async *scan(prefix) {
+			for (const [key, value] of entries) {
+				if (key.startsWith(prefix.join("\x1f")))
+					yield [key.split("\x1f"), value];
+			}
+		},
+	};
+	return { storage, entries };
+}
+
+function refreshToken(
+	subject: string,
+	token: string,
+	userID: string,
+	sid?: string,
+) {
+	return [
+		[REFRESH_TOKEN_PREFIX, subject, token],
+		{
+			type: "user",
+			subject,
+			clientID: "c1",
+			properties: sid ? { id: userID, sid } : { id: userID },
+		},
+	] as const;
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────────────
+
+describe("parseRefreshToken", () => {
+	it("returns the storage key of a refresh token", () => {
+		expect(parseRefreshToken("user:abc123:token")).toEqual([
+			REFRESH_TOKEN_PREFIX,
+			"user:abc123",
+			"token",
+		]);
+	});
+
+	it("rejects other tokens", () => {
+		expect(parseRefreshToken("eyJhbGciOi.eyJzdWIiOi.c2lnbmF0dXJl")).toBeNull();
+		expect(parseRefreshToken(":token")).toBeNull();
+		expect(parseRefreshToken("user:abc123:")).toBeNull();
+	});
+});
+
+describe("revokeRefreshToken", () => {
+	it("removes the token", async () => {
+		const { storage, entries } = memoryStorage();
+		await storage.set(...refreshToken("user:abc", "t1", "u1"));
+
+		expect(
+			(await revokeRefreshToken(storage, "user:abc:t1", "c1"))?.properties,
+		).toEqual({ id: "u1" });
+		expect(entries.size).toBe(0);
+	});
+
+	it("ignores unknown tokens and tokens of other clients", async () => {
+		const { storage, entries } = memoryStorage();
+		await storage.set(...refreshToken("user:abc", "t1", "u1"));
+
+		expect(await revokeRefreshToken(storage, "user:abc:t2", "c1")).toBeNull();
+		expect(await revokeRefreshToken(storage, "user:abc:t1", "c2")).toBeNull();
+		expect(entries.size).toBe(1);
+	});
+});
+
+describe("revokeUserRefreshTokens", () => {
+	it("removes every token of the user only", async () => {
+		const { storage, entries } = memoryStorage();
+		await storage.set(...refreshToken("user:abc", "t1", "u1"));
+		await storage.set(...refreshToken("user:def", "t2", "u1"));
+		await storage.set(...refreshToken("user:ghi", "t3", "u2"));
+		await storage.set(["oauth:code", "c"], { properties: { id: "u1" } });
+
+		expect(await revokeUserRefreshTokens(storage, "u1")).toBe(2);
+		expect([...entries.keys()]).toEqual([
+			["oauth:refresh", "user:ghi", "t3"].join("\x1f"),
+			["oauth:code", "c"].join("\x1f"),
+		]);
+	});
+});
+
+describe("revokeSessionRefreshTokens", () => {
+	it("removes the tokens of the session only", async () => {
+		const { storage, entries } = memoryStorage();
+		await storage.set(...refreshToken("user:abc", "t1", "u1", "s1"));
+		await storage.set(...refreshToken("user:abc", "t2", "u1", "s1"));
+		await storage.set(...refreshToken("user:def", "t3", "u1", "s2"));
+		await storage.set(...refreshToken("user:ghi", "t4", "u2", "s1"));
+
+		expect(await revokeSessionRefreshTokens(storage, "u1", "s1")).toBe(2);
+		expect(entries.size).toBe(2);
+	});
+});
@@ -0,0 +1,148 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import type { CustomEGCPCProps } from "../src/global-conf";
+import {
+	createSMSTransport,
+	SMSDeliveryError,
+	selectSMSSender,
+} from "../src/transports/sms";
+
+const props: CustomEGCPCProps = {
+	to: "+33612345678",
+	code: "123456",
+	body: "Your code is 123456",
+	subject: "",
+	type: "login",
+};
+
+const realFetch = globalThis.fetch;
+afterEach(() => {
+	globalThis.fetch = realFetch;
+});
+
+/** Replace `fetch`, returning the captured requests. */
+function captureFetch(status = 200, body = "{}") {
+	const requests: Request[] = [];
+	globalThis.fetch = (async (input: string, init?: RequestInit) => {
+		requests.push(new Request(input, init));
+		return new Response(body, { status });
+	}) as typeof fetch;
+	return requests;
+}
+
+describe("selectSMSSender", () => {
+	const senders = { "+3": "Europe", "+33": "Acme FR", "+1": "+15550100" };
+
+	it("uses the longest matching calling code prefix", () => {
+		expect(selectSMSSender("+33612345678", { fromNumber: "+100", senders })).toBe(
+			"Acme FR",
+		);
+		expect(selectSMSSender("+34612345678", { fromNumber: "+100", senders })).toBe(
+			"Europe",
+		);
+	});
+
+	it("falls back to fromNumber", () => {
+		expect(selectSMSSender("+4412345678", { fromNumber: "+100", senders })).toBe(
+			"+100",
+		);
+		expect(selectSMSSender("+4412345678", { fromNumber: undefined })).toBe(
+			undefined,
+		);
+	});
+});
+
+describe("SMS transports", () => {
+	it("sends with Telnyx from the country sender", async () => {
+		const requests = captureFetch();
+		await createSMSTransport({
+			provider: "telnyx",
+			apiKey: "key",
+			fromNumber: "+15550100",
+			senders: { "+33": "+33700000000" },
+		}).send(props);
+		expect(requests[0].url).toBe("https://api.telnyx.com/v2/messages");
+		expect(await requests[0].json()).toEqual({
+			from: "+33700000000",
+			to: props.to,
+			text: props.body,
+		});
+	});
+
+	it("sends with MessageBird", async () => {
+		const requests = captureFetch(201);
+		await createSMSTransport({
+			provider: "messagebird",
+			accessKey: "key",
+			fromNumber: "Acme",
+		}).send(props);
+		expect(requests[0].headers.get("Authorization")).toBe("AccessKey key");
+		expect(await requests[0].json()).toEqual({
+			originator: "Acme",
+			recipients: [props.to],
+			body: props.body,
+		});
+	});
+
+	it("reports the Vonage failures of a 200 response", async () => {
+		captureFetch(
+			200,
+			JSON.stringify({
+				messages: [{ status: "3", "error-text": "Invalid to number" }],
+			}),
+		);
+		const sent = createSMSTransport({
+			provider: "vonage",
+			apiKey: "key",
+			apiSecret: "secret",
+			fromNumber: "Acme",
+		}).send(props);
+		await expect(sent).rejects.toBeInstanceOf(SMSDeliveryError);
+		await expect(sent).rejects.toMatchObject({
+			provider: "Vonage",
+			reason: "invalid_recipient",
+		});
+	});
+
+	it("maps the Twilio invalid number errors", async () => {
+		captureFetch(400, JSON.stringify({ code: 21211, message: "Invalid To" }));
+		await expect(
+			createSMSTransport({
+				provider: "twilio",
+				accountSID: "AC1",
+				authToken: "token",
+				fromNumber: "+15550100",
+			}).send(props),
+		).rejects.toMatchObject({ reason: "invalid_recipient", status: 400 });
+	});
+
+	it("publishes with SNS", async () => {
+		const requests = captureFetch();
+		await createSMSTransport({
+			provider: "sns",
+			region: "eu-west-1",
+			accessKeyId: "AKID",
+			secretAccessKey: "secret",
+			fromNumber: "Acme",
+		}).send(props);
+		expect(requests[0].url).toBe("https://sns.eu-west-1.amazonaws.com/");
+		expect(requests[0].headers.get("authorization")).toStartWith(
+			"AWS4-HMAC-SHA256 Credential=AKID/",
+		);
+		const form = new URLSearchParams(await requests[0].text());
+		expect(form.get("PhoneNumber")).toBe(props.to);
+		expect(form.get("MessageAttributes.entry.2.Value.StringValue")).toBe(
+			"Acme",
+		);
+	});
+
+	it("calls the custom function with the same props", async () => {
+		const sent: CustomEGCPCProps[] = [];
+		await createSMSTransport({
+			provider: "custom",
+			sendSMSFunction: (props) => {
+				sent.push(props);
+			},
+		}).send(props);
+		expect(sent).toEqual([props]);
+	});
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "bun:test";
+import { verifyData } from "../src/endpoints/security";
+import { regenerateBackupCodes } from "../src/endpoints/totp";
+
+const settings = { backupCodesCount: 3, backupCodesLength: 10 };
+
+/** backup codes of an enrolled user, stored as hashes like `openauth_totp.backup_codes` */
+function makeStore(tokens: Record<string, { valid: boolean; error?: string }>) {
+	const store = { hashes: [] as string[], enrolled: true, writes: 0 };
+	const regenerate = (elevatedToken: string | null) =>
+		regenerateBackupCodes({
+			elevatedToken,
+			settings,
+			isElevatedTokenValid: async (token) =>
+				tokens[token] ?? { valid: false, error: "totp_token_not_found" },
+			replaceBackupCodes: async (hashes) => {
+				if (!store.enrolled) return false;
+				store.hashes = hashes;
+				store.writes++;
+				return true;
+			},
+		});
+	return { store, regenerate };
+}
+
+async function isStoredCode(hashes: string[], code: string) {
+	for (const hash of hashes) if (await verifyData(code, hash)) return true;
+	return false;
+}
+
+describe("regenerateBackupCodes", () => {
+	it("invalidates the previous codes", async () => {
+		const { store, regenerate } = makeStore({ elevated: { valid: true } });
+
+		const first = await regenerate("elevated");
+		if (!first.success) throw new Error(first.error);
+		const second = await regenerate("elevated");
+		if (!second.success) throw new Error(second.error);
+
+		expect(second.backupCodes).toHaveLength(3);
+		for (const code of first.backupCodes) {
+			expect(second.backupCodes).not.toContain(code);
+			expect(await isStoredCode(store.hashes, code)).toBe(false);
+		}
+		for (const code of second.backupCodes)
+			expect(await isStoredCode(store.hashes, code)).toBe(true);
+	});
+
+	it("returns the new codes once and only stores their hashes", async () => {
+		const { store, regenerate } = makeStore({ elevated: { valid: true } });
+
+		const result = await regenerate("elevated");
+		if (!result.success) throw new Error(result.error);
+
+		expect(result.backupCodes).toHaveLength(settings.backupCodesCount);
+		for (const code of result.backupCodes) {
+			expect(code).toHaveLength(settings.backupCodesLength);
+			expect(store.hashes).not.toContain(code);
+			expect(store.hashes.join()).not.toContain(code);
+		}
+	});
+
+	it("requires a valid elevated token", async () => {
+		const { store, regenerate } = makeStore({
+			elevated: { valid: true },
+			expired: { valid: false, error: "totp_token_expired" },
+		});
+
+		expect(await regenerate(null)).toEqual({
+			success: false,
+			error: "totp_token_not_found",
+			status: 401,
+		});
+		expect(await regenerate("unknown")).toEqual({
+			success: false,
+			error: "totp_token_not_found",
+			status: 400,
+		});
+		expect(await regenerate("expired")).toEqual({
+			success: false,
+			error: "totp_token_expired",
+			status: 400,
+		});
+		expect(store.writes).toBe(0);
+	});
+
+	it("fails when the user has no verified TOTP", async () => {
+		const { store, regenerate } = makeStore({ elevated: { valid: true } });
+		store.enrolled = false;
+
+		expect(await regenerate("elevated")).toEqual({
+			success: false,
+			error: "totp_not_setup",
+			status: 404,
+		});
+	});
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "bun:test";
+import { TOTP } from "otpauth";
+import { getAcceptedTOTPStep } from "../src/endpoints/totp";
+
+const period = 30;
+const totp = new TOTP({
+	secret: "JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP",
+	algorithm: "SHA1",
+	digits: 6,
+	period,
+});
+
+// middle of a time step, far from both boundaries
+const now = 1_700_000_025_000;
+const step = Math.floor(now / 1000 / period);
+
+function codeAt(offsetSteps: number) {
+	return totp.generate({ timestamp: now + offsetSteps * period * 1000 });
+}
+
+function accept(token: string, lastStep?: number | null, timestamp = now) {
+	return getAcceptedTOTPStep({ totp, token, window: 1, lastStep, timestamp });
+}
+
+describe("getAcceptedTOTPStep", () => {
+	it("returns the step of the current code", () => {
+		expect(accept(codeAt(0))).toBe(step);
+	});
+
+	it("accepts the previous and next step of the window", () => {
+		expect(accept(codeAt(-1))).toBe(step - 1);
+		expect(accept(codeAt(1))).toBe(step + 1);
+	});
+
+	it("rejects codes outside of the window", () => {
+		expect(accept(codeAt(-2))).toBeNull();
+		expect(accept(codeAt(2))).toBeNull();
+	});
+
+	it("rejects an invalid code", () => {
+		const wrong = ((Number(codeAt(0)) + 1) % 1_000_000)
+			.toString()
+			.padStart(6, "0");
+		expect(accept(wrong)).toBeNull();
+	});
+
+	it("rejects a replayed code", () => {
+		const code = codeAt(0);
+		const accepted = accept(code);
+		expect(accepted).toBe(step);
+		expect(accept(code, accepted)).toBeNull();
+	});
+
+	it("rejects a replay at the very end of the window", () => {
+		const code = codeAt(0);
+		const lastStep = accept(code);
+		// one period later the code is still inside the window (delta -1)
+		expect(accept(code, null, now + period * 1000)).toBe(step);
+		expect(accept(code, lastStep, now + period * 1000)).toBeNull();
+	});
+
+	it("rejects an older code of the window once a newer one was used", () => {
+		expect(accept(codeAt(-1), step)).toBeNull();
+	});
+
+	it("accepts the next step after the last used one", () => {
+		expect(accept(codeAt(1), step)).toBe(step + 1);
+	});
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "bun:test";
+import type { Project } from "openauth-webui-shared-types";
+import { getTOTPSettings } from "../src/endpoints/totp";
+
+const withTOTP = (totp: unknown) =>
+	({ projectData: { totp } }) as unknown as Pick<Project, "projectData">;
+
+describe("getTOTPSettings", () => {
+	it("defaults to the historical parameters", () => {
+		expect(getTOTPSettings({} as Pick<Project, "projectData">)).toEqual({
+			algorithm: "SHA1",
+			digits: 6,
+			period: 30,
+			secretSize: 20,
+			backupCodesCount: 5,
+			backupCodesLength: 10,
+		});
+	});
+
+	it("reads the project settings", () => {
+		expect(
+			getTOTPSettings(
+				withTOTP({ algorithm: "SHA256", digits: 8, backupCodesCount: 10 }),
+			),
+		).toEqual({
+			algorithm: "SHA256",
+			digits: 8,
+			period: 30,
+			secretSize: 20,
+			backupCodesCount: 10,
+			backupCodesLength: 10,
+		});
+	});
+
+	it("falls back to the default of each invalid value", () => {
+		const settings = getTOTPSettings(
+			withTOTP({
+				algorithm: "MD5",
+				digits: 12,
+				period: 30.5,
+				secretSize: "32",
+				backupCodesCount: 0,
+				backupCodesLength: 64,
+			}),
+		);
+		expect(settings).toEqual({
+			algorithm: "SHA1",
+			digits: 6,
+			period: 30,
+			secretSize: 20,
+			backupCodesCount: 5,
+			backupCodesLength: 10,
+		});
+	});
+
+	it("ignores a malformed totp entry", () => {
+		expect(getTOTPSettings(withTOTP("SHA256")).algorithm).toBe("SHA1");
+	});
+});